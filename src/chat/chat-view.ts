@@ -0,0 +1,448 @@
+import { ItemView, MarkdownRenderer, MarkdownView, Notice, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import { ChatContextType, ProviderModelSelection } from '../settings';
+import { ChatMessage, ChatResult, createProviderFromSelection } from '../providers';
+import { CHAT_CONTEXT_TYPE_LABELS, createContextHandler, getAvailableContextTypes } from '../handlers';
+import { ConversationSuggesterModal } from '../components/conversation-suggester';
+import { generateFilenameTimestamp } from '../utils/date-utils';
+import { isCancelledError } from '../utils/abort-utils';
+import { logDebug, logError, logNotice, LogCategory } from '../logging';
+import { checkBudget, estimateChatUsage, estimateTokenCount, usageTracker } from '../usage';
+import { Conversation, ConversationMessage, conversationToMarkdown, parseConversationMarkdown, toChatMessages } from './conversation';
+import type AIToolboxPlugin from '../main';
+
+export const VIEW_TYPE_CHAT = 'ai-toolbox-chat';
+
+/**
+ * Sidebar chat view for multi-turn conversations with a configured chat model.
+ * Conversations can attach editor context to each message and be saved to or loaded from notes.
+ */
+export class ChatView extends ItemView {
+    plugin: AIToolboxPlugin;
+    private conversation: Conversation = { messages: [], provider: null };
+    private systemPrompt = '';
+    private enabledContexts: Set<ChatContextType> = new Set();
+    // Editor focused before the chat view, used for selection and active tab context
+    private lastMarkdownView: MarkdownView | null = null;
+    // Aborts the in-flight response when the user stops it or the view closes
+    private controller: AbortController | null = null;
+
+    private providerSelect: HTMLSelectElement;
+    private systemPromptInput: HTMLTextAreaElement;
+    private messagesContainer: HTMLElement;
+    private input: HTMLTextAreaElement;
+    private sendButton: HTMLButtonElement;
+
+    constructor(leaf: WorkspaceLeaf, plugin: AIToolboxPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CHAT;
+    }
+
+    getDisplayText(): string {
+        return 'AI toolbox chat';
+    }
+
+    getIcon(): string {
+        return 'message-square';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('ai-toolbox-chat-view');
+
+        this.lastMarkdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+            if (leaf?.view instanceof MarkdownView) {
+                this.lastMarkdownView = leaf.view;
+            }
+        }));
+
+        this.buildControls(container);
+        this.buildContextToggles(container);
+        this.buildSystemPrompt(container);
+        this.messagesContainer = container.createDiv({ cls: 'chat-messages' });
+        this.buildInput(container);
+
+        this.renderMessages();
+    }
+
+    async onClose(): Promise<void> {
+        this.controller?.abort();
+    }
+
+    private buildControls(container: HTMLElement): void {
+        const controls = container.createDiv({ cls: 'log-controls' });
+
+        this.providerSelect = controls.createEl('select', { cls: 'dropdown chat-provider-select' });
+        this.populateProviderOptions();
+        // Providers may change in settings while the view is open
+        this.providerSelect.addEventListener('focus', () => this.populateProviderOptions());
+        this.providerSelect.addEventListener('change', () => {
+            this.conversation.provider = this.parseProviderValue(this.providerSelect.value);
+        });
+
+        controls.createDiv({ cls: 'log-controls-spacer' });
+
+        const newBtn = controls.createEl('button', { text: 'New' });
+        newBtn.addEventListener('click', () => this.newConversation());
+
+        const saveBtn = controls.createEl('button', { text: 'Save' });
+        saveBtn.addEventListener('click', () => {
+            void this.saveConversation();
+        });
+
+        const loadBtn = controls.createEl('button', { text: 'Load' });
+        loadBtn.addEventListener('click', () => {
+            new ConversationSuggesterModal(this.app, (file) => {
+                void this.loadConversation(file);
+            }).open();
+        });
+    }
+
+    private buildContextToggles(container: HTMLElement): void {
+        const contexts = container.createDiv({ cls: 'chat-contexts' });
+        contexts.createSpan({ cls: 'chat-contexts-label', text: 'Attach:' });
+
+        for (const contextType of getAvailableContextTypes()) {
+            const label = contexts.createEl('label', { cls: 'chat-context-toggle' });
+            const checkbox = label.createEl('input', { type: 'checkbox' });
+            label.appendText(CHAT_CONTEXT_TYPE_LABELS[contextType]);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.enabledContexts.add(contextType);
+                } else {
+                    this.enabledContexts.delete(contextType);
+                }
+            });
+        }
+    }
+
+    private buildSystemPrompt(container: HTMLElement): void {
+        const details = container.createEl('details', { cls: 'chat-system-prompt' });
+        details.createEl('summary', { text: 'System prompt' });
+        this.systemPromptInput = details.createEl('textarea', {
+            attr: { rows: '3', placeholder: 'Instructions sent before the conversation' }
+        });
+        this.systemPromptInput.addEventListener('input', () => {
+            this.systemPrompt = this.systemPromptInput.value;
+        });
+    }
+
+    private buildInput(container: HTMLElement): void {
+        const inputRow = container.createDiv({ cls: 'chat-input-row' });
+
+        this.input = inputRow.createEl('textarea', {
+            cls: 'chat-input',
+            attr: { rows: '3', placeholder: 'Message (Enter to send, Shift+Enter for a new line)' }
+        });
+        this.input.addEventListener('keydown', (event) => {
+            if (event.key === 'Enter' && !event.shiftKey && !event.isComposing) {
+                event.preventDefault();
+                if (!this.controller) {
+                    void this.sendMessage();
+                }
+            }
+        });
+
+        this.sendButton = inputRow.createEl('button', { text: 'Send', cls: 'mod-cta' });
+        this.sendButton.addEventListener('click', () => {
+            if (this.controller) {
+                this.controller.abort();
+            } else {
+                void this.sendMessage();
+            }
+        });
+    }
+
+    /**
+     * Fill the provider dropdown with chat-capable models, keeping the current selection.
+     */
+    private populateProviderOptions(): void {
+        const currentValue = this.conversation.provider
+            ? `${this.conversation.provider.providerId}:${this.conversation.provider.modelId}`
+            : '';
+
+        this.providerSelect.empty();
+        this.providerSelect.createEl('option', { value: '', text: 'Select a provider and model' });
+        for (const provider of this.plugin.settings.providers) {
+            for (const model of provider.models) {
+                if (model.supportsChat) {
+                    this.providerSelect.createEl('option', {
+                        value: `${provider.id}:${model.id}`,
+                        text: `${provider.name} - ${model.name}`
+                    });
+                }
+            }
+        }
+
+        this.providerSelect.value = currentValue;
+        // Fall back to no selection when the saved model no longer exists
+        if (this.providerSelect.value !== currentValue) {
+            this.providerSelect.value = '';
+            this.conversation.provider = null;
+        }
+    }
+
+    private parseProviderValue(value: string): ProviderModelSelection | null {
+        const parts = value.split(':');
+        if (parts.length === 2 && parts[0] && parts[1]) {
+            return { providerId: parts[0], modelId: parts[1] };
+        }
+        return null;
+    }
+
+    /**
+     * Gather the enabled contexts into one block attached to the next message.
+     *
+     * @throws Error naming the context that could not be read
+     */
+    private async gatherContext(): Promise<string | undefined> {
+        const sections: string[] = [];
+
+        for (const contextType of getAvailableContextTypes()) {
+            if (!this.enabledContexts.has(contextType)) {
+                continue;
+            }
+
+            const label = CHAT_CONTEXT_TYPE_LABELS[contextType];
+            const result = await createContextHandler(contextType).getContent({
+                app: this.app,
+                markdownView: this.lastMarkdownView
+            });
+            if (!result.success) {
+                throw new Error(`${label} context failed: ${result.error ?? 'Unknown error'}`);
+            }
+            sections.push(`## ${label}\n\n${result.content}`);
+        }
+
+        return sections.length > 0 ? sections.join('\n\n') : undefined;
+    }
+
+    private async sendMessage(): Promise<void> {
+        const content = this.input.value.trim();
+        if (!content) {
+            return;
+        }
+
+        const selection = this.conversation.provider;
+        if (!selection) {
+            logNotice(LogCategory.CHAT, 'Select a provider and model first.');
+            return;
+        }
+
+        // The user may start or load another conversation while this one is responding
+        const conversation = this.conversation;
+        try {
+            const provider = createProviderFromSelection(this.plugin.settings, selection);
+            if (!provider) {
+                logNotice(LogCategory.CHAT, 'The selected provider or model no longer exists.');
+                return;
+            }
+            this.setResponding(new AbortController());
+            const context = await this.gatherContext();
+
+            this.input.value = '';
+            conversation.messages.push({ role: 'user', content, context });
+            const reply: ConversationMessage = { role: 'assistant', content: '' };
+            conversation.messages.push(reply);
+            this.renderMessages();
+
+            const messages: ChatMessage[] = [];
+            if (this.systemPrompt.trim()) {
+                messages.push({ role: 'system', content: this.systemPrompt });
+            }
+            // The empty reply placeholder is not part of the request
+            messages.push(...toChatMessages(conversation.messages.slice(0, -1)));
+
+            const promptText = messages.map(m => m.content).join('\n');
+            const budgetError = await checkBudget(this.app, this.plugin.settings, selection, {
+                promptTokens: estimateTokenCount(promptText)
+            });
+            if (budgetError) {
+                throw new Error(budgetError);
+            }
+
+            const replyEl = this.messagesContainer.lastElementChild?.querySelector<HTMLElement>('.chat-message-content');
+            logDebug(LogCategory.CHAT, `Sending chat message with ${messages.length} messages`);
+
+            let usage: ChatResult['usage'];
+            try {
+                for await (const delta of provider.streamChat(messages, { signal: this.controller?.signal })) {
+                    if (delta.content) {
+                        reply.content += delta.content;
+                        replyEl?.setText(reply.content);
+                        this.scrollToBottom();
+                    }
+                    if (delta.usage) {
+                        usage = delta.usage;
+                    }
+                }
+            } catch (error) {
+                if (!isCancelledError(error)) {
+                    throw error;
+                }
+                logDebug(LogCategory.CHAT, 'Chat response stopped');
+            } finally {
+                // A stopped or failed response is billed for the text received; estimate usage the provider didn't report
+                if (usage || reply.content) {
+                    usageTracker.record(this.plugin.settings, selection, usage ?? estimateChatUsage(promptText, reply.content));
+                }
+            }
+
+            // Drop an exchange that produced nothing so it can be retried
+            if (!reply.content) {
+                conversation.messages.splice(-2, 2);
+                this.input.value = content;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logError(LogCategory.CHAT, `Chat request failed: ${errorMessage}`, error);
+            new Notice(`Chat request failed: ${errorMessage}`);
+
+            const last = conversation.messages[conversation.messages.length - 1];
+            if (last?.role === 'assistant' && !last.content) {
+                conversation.messages.splice(-2, 2);
+                this.input.value = content;
+            }
+        } finally {
+            this.setResponding(null);
+            this.renderMessages();
+        }
+    }
+
+    /**
+     * Track the in-flight response and switch the send button to a stop button while it runs.
+     */
+    private setResponding(controller: AbortController | null): void {
+        this.controller = controller;
+        this.sendButton.setText(controller ? 'Stop' : 'Send');
+        this.sendButton.toggleClass('mod-cta', !controller);
+        this.sendButton.toggleClass('mod-warning', !!controller);
+    }
+
+    private renderMessages(): void {
+        this.messagesContainer.empty();
+
+        if (this.conversation.messages.length === 0) {
+            this.messagesContainer.createDiv({ cls: 'chat-empty', text: 'Start a conversation by sending a message.' });
+            return;
+        }
+
+        for (const message of this.conversation.messages) {
+            this.renderMessage(message);
+        }
+        this.scrollToBottom();
+    }
+
+    private renderMessage(message: ConversationMessage): void {
+        const messageEl = this.messagesContainer.createDiv({ cls: `chat-message chat-message-${message.role}` });
+
+        const header = messageEl.createDiv({ cls: 'chat-message-header' });
+        header.createSpan({ cls: 'chat-message-role', text: message.role === 'user' ? 'You' : 'Assistant' });
+
+        if (message.context) {
+            const contextEl = messageEl.createEl('details', { cls: 'chat-message-context' });
+            contextEl.createEl('summary', { text: 'Attached context' });
+            contextEl.createEl('pre', { text: message.context });
+        }
+
+        const contentEl = messageEl.createDiv({ cls: 'chat-message-content' });
+        if (message.role === 'assistant' && message.content) {
+            contentEl.addClass('markdown-rendered');
+            void MarkdownRenderer.render(this.app, message.content, contentEl, this.conversation.filePath ?? '', this);
+
+            const copyBtn = header.createEl('button', { cls: 'clickable-icon chat-message-copy', attr: { 'aria-label': 'Copy' } });
+            setIcon(copyBtn, 'copy');
+            copyBtn.addEventListener('click', () => {
+                void navigator.clipboard.writeText(message.content).then(() => {
+                    logNotice(LogCategory.CHAT, 'Copied to clipboard');
+                });
+            });
+        } else {
+            contentEl.setText(message.content);
+        }
+    }
+
+    private scrollToBottom(): void {
+        this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+    }
+
+    private newConversation(): void {
+        this.controller?.abort();
+        this.conversation = { messages: [], provider: this.conversation.provider };
+        this.renderMessages();
+    }
+
+    /**
+     * Save the conversation to its note, creating a new note in the conversation folder the first time.
+     */
+    private async saveConversation(): Promise<void> {
+        if (this.conversation.messages.length === 0) {
+            logNotice(LogCategory.CHAT, 'Nothing to save yet.');
+            return;
+        }
+
+        const markdown = conversationToMarkdown({
+            ...this.conversation,
+            messages: this.systemPrompt.trim()
+                ? [{ role: 'system', content: this.systemPrompt }, ...this.conversation.messages]
+                : this.conversation.messages
+        });
+
+        try {
+            const existing = this.conversation.filePath
+                ? this.app.vault.getAbstractFileByPath(this.conversation.filePath)
+                : null;
+            if (existing instanceof TFile) {
+                await this.app.vault.modify(existing, markdown);
+                logNotice(LogCategory.CHAT, `Saved conversation: ${existing.name}`);
+                return;
+            }
+
+            const folderPath = this.plugin.settings.conversationFolder.trim().replace(/\/$/, '');
+            if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+                await this.app.vault.createFolder(folderPath);
+            }
+
+            const basePath = `${folderPath ? `${folderPath}/` : ''}Conversation - ${generateFilenameTimestamp()}`;
+            let filePath = `${basePath}.md`;
+            let counter = 1;
+            while (this.app.vault.getAbstractFileByPath(filePath)) {
+                filePath = `${basePath} (${counter}).md`;
+                counter++;
+            }
+
+            const file = await this.app.vault.create(filePath, markdown);
+            this.conversation.filePath = file.path;
+            logNotice(LogCategory.CHAT, `Saved conversation: ${file.name}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logError(LogCategory.CHAT, `Failed to save conversation: ${errorMessage}`, error);
+            new Notice(`Failed to save conversation: ${errorMessage}`);
+        }
+    }
+
+    private async loadConversation(file: TFile): Promise<void> {
+        this.controller?.abort();
+
+        const loaded = parseConversationMarkdown(await this.app.vault.read(file));
+        const systemMessage = loaded.messages.find(message => message.role === 'system');
+
+        this.conversation = {
+            messages: loaded.messages.filter(message => message.role !== 'system'),
+            // Keep the current model when the saved one is missing
+            provider: loaded.provider ?? this.conversation.provider,
+            filePath: file.path
+        };
+        this.systemPrompt = systemMessage?.content ?? '';
+        this.systemPromptInput.value = this.systemPrompt;
+
+        this.populateProviderOptions();
+        this.renderMessages();
+        logDebug(LogCategory.CHAT, `Loaded conversation from ${file.path}`);
+    }
+}
@@ -0,0 +1,146 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { ProviderModelSelection } from '../settings';
+import { ChatMessage, ChatMessageRole } from '../providers';
+
+/**
+ * Frontmatter key marking a note as a saved chat conversation
+ */
+export const CONVERSATION_FRONTMATTER_KEY = 'ai-toolbox-conversation';
+
+// Heading that starts each message in a saved conversation
+const ROLE_HEADINGS: Record<ChatMessageRole, string> = {
+    'system': 'System',
+    'user': 'User',
+    'assistant': 'Assistant'
+};
+
+// Collapsed callout holding the context attached to a user message
+const CONTEXT_CALLOUT = '> [!note]- Attached context';
+
+/**
+ * A message in a chat view conversation
+ */
+export interface ConversationMessage {
+    role: ChatMessageRole;
+    /** The message text as typed or generated */
+    content: string;
+    /** Context (selection, active note, ...) attached to a user message, sent before its content */
+    context?: string;
+}
+
+/**
+ * A running conversation in the chat view
+ */
+export interface Conversation {
+    messages: ConversationMessage[];
+    /** Provider and model the conversation uses */
+    provider: ProviderModelSelection | null;
+    /** Vault path of the note the conversation was saved to or loaded from */
+    filePath?: string;
+}
+
+/**
+ * Convert conversation messages to provider chat messages,
+ * sending attached context ahead of the message text.
+ */
+export function toChatMessages(messages: ConversationMessage[]): ChatMessage[] {
+    return messages.map(message => ({
+        role: message.role,
+        content: message.context ? `${message.context}\n\n${message.content}` : message.content
+    }));
+}
+
+/**
+ * Serialize a conversation as a markdown note.
+ * Each message starts with a role heading; attached context goes in a collapsed callout.
+ */
+export function conversationToMarkdown(conversation: Conversation): string {
+    const frontmatter: Record<string, unknown> = { [CONVERSATION_FRONTMATTER_KEY]: true };
+    if (conversation.provider) {
+        frontmatter.provider = conversation.provider.providerId;
+        frontmatter.model = conversation.provider.modelId;
+    }
+
+    const sections = conversation.messages.map(message => {
+        const parts = [`## ${ROLE_HEADINGS[message.role]}`];
+        if (message.context) {
+            const quoted = message.context.split('\n').map(line => line ? `> ${line}` : '>');
+            parts.push([CONTEXT_CALLOUT, ...quoted].join('\n'));
+        }
+        parts.push(message.content);
+        return parts.join('\n\n');
+    });
+
+    return `---\n${stringifyYaml(frontmatter)}---\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Parse a conversation saved by conversationToMarkdown.
+ * Text before the first role heading is ignored.
+ */
+export function parseConversationMarkdown(markdown: string): Conversation {
+    const conversation: Conversation = { messages: [], provider: null };
+    let body = markdown;
+
+    const frontmatterMatch = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(markdown);
+    if (frontmatterMatch) {
+        body = markdown.substring(frontmatterMatch[0].length);
+        const frontmatter = parseYaml(frontmatterMatch[1] ?? '') as Record<string, unknown> | null;
+        const providerId = frontmatter?.provider;
+        const modelId = frontmatter?.model;
+        if (typeof providerId === 'string' && typeof modelId === 'string') {
+            conversation.provider = { providerId, modelId };
+        }
+    }
+
+    const headingRoles = new Map<string, ChatMessageRole>(
+        (Object.entries(ROLE_HEADINGS) as [ChatMessageRole, string][]).map(([role, heading]) => [`## ${heading}`, role])
+    );
+
+    let current: { role: ChatMessageRole; lines: string[] } | null = null;
+    const finishMessage = () => {
+        if (current) {
+            conversation.messages.push(parseMessage(current.role, current.lines));
+        }
+    };
+
+    for (const line of body.split(/\r?\n/)) {
+        const role = headingRoles.get(line.trim());
+        if (role) {
+            finishMessage();
+            current = { role, lines: [] };
+        } else if (current) {
+            current.lines.push(line);
+        }
+    }
+    finishMessage();
+
+    return conversation;
+}
+
+/**
+ * Build a message from the lines under its role heading, splitting off an attached context callout.
+ */
+function parseMessage(role: ChatMessageRole, lines: string[]): ConversationMessage {
+    let start = 0;
+    while (start < lines.length && !lines[start]?.trim()) {
+        start++;
+    }
+
+    if (lines[start]?.trim() !== CONTEXT_CALLOUT) {
+        return { role, content: lines.slice(start).join('\n').trim() };
+    }
+
+    let end = start + 1;
+    const contextLines: string[] = [];
+    while (end < lines.length && lines[end]?.startsWith('>')) {
+        contextLines.push((lines[end] ?? '').replace(/^> ?/, ''));
+        end++;
+    }
+
+    return {
+        role,
+        content: lines.slice(end).join('\n').trim(),
+        context: contextLines.join('\n')
+    };
+}
@@ -0,0 +1,8 @@
+export { ChatView, VIEW_TYPE_CHAT } from './chat-view';
+export type { Conversation, ConversationMessage } from './conversation';
+export {
+    CONVERSATION_FRONTMATTER_KEY,
+    conversationToMarkdown,
+    parseConversationMarkdown,
+    toChatMessages
+} from './conversation';
@@ -0,0 +1,58 @@
+import { App, Modal } from 'obsidian';
+
+/**
+ * Modal asking whether to send a request that exceeds a budget limit.
+ * Closing the modal without choosing counts as declining.
+ */
+export class BudgetConfirmModal extends Modal {
+	private message: string;
+	private onChoose: (confirmed: boolean) => void;
+	private chosen = false;
+
+	constructor(app: App, message: string, onChoose: (confirmed: boolean) => void) {
+		super(app);
+		this.message = message;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Budget limit reached' });
+		contentEl.createEl('p', { text: this.message });
+		contentEl.createEl('p', { text: 'Send the request anyway?' });
+
+		const buttons = contentEl.createDiv('workflow-response-buttons');
+		const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.choose(false));
+
+		const continueButton = buttons.createEl('button', { text: 'Send anyway', cls: 'mod-warning' });
+		continueButton.addEventListener('click', () => this.choose(true));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.chosen) {
+			this.chosen = true;
+			this.onChoose(false);
+		}
+	}
+
+	private choose(confirmed: boolean): void {
+		this.chosen = true;
+		this.onChoose(confirmed);
+		this.close();
+	}
+}
+
+/**
+ * Ask whether to send a request over budget.
+ *
+ * @returns True if the user chose to continue
+ */
+export function confirmBudgetExceeded(app: App, message: string): Promise<boolean> {
+	return new Promise(resolve => {
+		new BudgetConfirmModal(app, message, resolve).open();
+	});
+}
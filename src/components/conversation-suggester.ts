@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { CONVERSATION_FRONTMATTER_KEY } from '../chat/conversation';
+
+/**
+ * Modal for selecting a saved chat conversation.
+ * Lists markdown notes whose frontmatter marks them as conversations.
+ */
+export class ConversationSuggesterModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Select a conversation to load...');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => this.app.metadataCache.getFileCache(file)?.frontmatter?.[CONVERSATION_FRONTMATTER_KEY] === true)
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
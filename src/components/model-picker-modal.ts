@@ -0,0 +1,151 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DiscoveredModel } from '../providers';
+
+/**
+ * Picker row state: the discovered model plus the user's choices
+ */
+interface ModelPickerEntry {
+	model: DiscoveredModel;
+	selected: boolean;
+	alreadyAdded: boolean;
+}
+
+/**
+ * Dropdown value for a model's capabilities
+ */
+function getCapabilityValue(model: DiscoveredModel): string {
+	if (model.supportsTranscription) {
+		return model.supportsChat ? 'both' : 'transcription';
+	}
+	return 'chat';
+}
+
+/**
+ * Modal listing the models fetched from a provider's API.
+ * Capabilities are pre-filled from the model IDs and can be adjusted
+ * before the selected models are added to the provider.
+ */
+export class ModelPickerModal extends Modal {
+	private providerName: string;
+	private entries: ModelPickerEntry[];
+	private onAdd: (models: DiscoveredModel[]) => void | Promise<void>;
+	private filter = '';
+	private listEl: HTMLElement | null = null;
+
+	/**
+	 * @param existingDeployments - Deployment names already configured on the provider
+	 */
+	constructor(
+		app: App,
+		providerName: string,
+		models: DiscoveredModel[],
+		existingDeployments: Set<string>,
+		onAdd: (models: DiscoveredModel[]) => void | Promise<void>
+	) {
+		super(app);
+		this.providerName = providerName;
+		this.onAdd = onAdd;
+		// Embedding, speech and image models can't be used by any action
+		this.entries = models
+			.filter(model => model.supportsChat || model.supportsTranscription)
+			.map(model => ({
+				model: { ...model },
+				selected: false,
+				alreadyAdded: existingDeployments.has(model.deploymentName),
+			}));
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('model-picker-modal');
+
+		contentEl.createEl('h2', { text: `Models from ${this.providerName}` });
+		contentEl.createEl('p', {
+			text: 'Select the models to add. Capabilities are guessed from the model names; adjust them if needed.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('Filter')
+			.addSearch(search => search
+				.setPlaceholder('Search models')
+				.onChange((value) => {
+					this.filter = value.trim().toLowerCase();
+					this.renderList();
+				}));
+
+		this.listEl = contentEl.createDiv('model-picker-list');
+		this.renderList();
+
+		const buttons = contentEl.createDiv('workflow-response-buttons');
+		const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+
+		const addButton = buttons.createEl('button', { text: 'Add selected', cls: 'mod-cta' });
+		addButton.addEventListener('click', () => {
+			const selected = this.entries.filter(entry => entry.selected).map(entry => entry.model);
+			this.close();
+			if (selected.length > 0) {
+				void this.onAdd(selected);
+			}
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.listEl = null;
+	}
+
+	private renderList(): void {
+		const listEl = this.listEl;
+		if (!listEl) return;
+		listEl.empty();
+
+		const visible = this.entries.filter(entry =>
+			!this.filter || entry.model.modelId.toLowerCase().includes(this.filter)
+			|| entry.model.deploymentName.toLowerCase().includes(this.filter)
+		);
+
+		if (visible.length === 0) {
+			listEl.createEl('p', {
+				text: this.entries.length === 0 ? 'The provider returned no chat or transcription models.' : 'No models match the filter.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		for (const entry of visible) {
+			const { model } = entry;
+			const name = model.displayName ?? model.deploymentName;
+			const details: string[] = [];
+			if (model.deploymentName !== model.modelId) {
+				details.push(`Model: ${model.modelId}`);
+			} else if (name !== model.modelId) {
+				details.push(model.modelId);
+			}
+			if (entry.alreadyAdded) {
+				details.push('Already added');
+			}
+
+			new Setting(listEl)
+				.setName(name)
+				.setDesc(details.join(' · '))
+				.addDropdown(dropdown => dropdown
+					.addOption('chat', 'Chat')
+					.addOption('transcription', 'Transcription')
+					.addOption('both', 'Chat and transcription')
+					.setValue(getCapabilityValue(model))
+					.onChange((value) => {
+						model.supportsChat = value !== 'transcription';
+						model.supportsTranscription = value !== 'chat';
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Add this model')
+					.setValue(entry.selected)
+					.onChange((value) => {
+						entry.selected = value;
+					}));
+		}
+	}
+}
@@ -0,0 +1,112 @@
+import { App, Modal, Setting } from 'obsidian';
+
+/**
+ * Options for the passphrase prompt
+ */
+export interface PassphrasePromptOptions {
+	title: string;
+	description: string;
+	/** Ask for the passphrase twice (when setting a new one) */
+	confirm?: boolean;
+	submitText: string;
+}
+
+/**
+ * Modal asking for the passphrase that encrypts API keys.
+ * Closing the modal without submitting resolves with null.
+ */
+export class PassphraseModal extends Modal {
+	private options: PassphrasePromptOptions;
+	private onSubmit: (passphrase: string | null) => void;
+	private submitted = false;
+
+	constructor(app: App, options: PassphrasePromptOptions, onSubmit: (passphrase: string | null) => void) {
+		super(app);
+		this.options = options;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.options.title });
+		contentEl.createEl('p', { text: this.options.description });
+
+		let passphrase = '';
+		let confirmation = '';
+
+		new Setting(contentEl)
+			.setName('Passphrase')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.onChange((value) => {
+					passphrase = value;
+				});
+				text.inputEl.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter' && !this.options.confirm) {
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		if (this.options.confirm) {
+			new Setting(contentEl)
+				.setName('Confirm passphrase')
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.onChange((value) => {
+						confirmation = value;
+					});
+					text.inputEl.addEventListener('keydown', (event) => {
+						if (event.key === 'Enter') {
+							submit();
+						}
+					});
+				});
+		}
+
+		const errorEl = contentEl.createEl('p', { cls: 'passphrase-error' });
+
+		const submit = () => {
+			if (!passphrase) {
+				errorEl.setText('Enter a passphrase.');
+				return;
+			}
+			if (this.options.confirm && passphrase !== confirmation) {
+				errorEl.setText('The passphrases do not match.');
+				return;
+			}
+			this.submitted = true;
+			this.onSubmit(passphrase);
+			this.close();
+		};
+
+		const buttons = contentEl.createDiv('workflow-response-buttons');
+		const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+
+		const submitButton = buttons.createEl('button', { text: this.options.submitText, cls: 'mod-cta' });
+		submitButton.addEventListener('click', submit);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.submitted) {
+			this.submitted = true;
+			this.onSubmit(null);
+		}
+	}
+}
+
+/**
+ * Ask for a passphrase.
+ *
+ * @returns The passphrase, or null if the prompt was cancelled
+ */
+export function promptPassphrase(app: App, options: PassphrasePromptOptions): Promise<string | null> {
+	return new Promise(resolve => {
+		new PassphraseModal(app, options, resolve).open();
+	});
+}
@@ -0,0 +1,106 @@
+import { App, Modal, Setting } from 'obsidian';
+import { ProviderPlaceholder } from '../sharing';
+
+/**
+ * Modal confirming a workflow import: asks which local model to use for each
+ * provider placeholder and lists the files the import adds to the vault.
+ * Closing the modal without importing resolves with null.
+ */
+export class ProviderBindingModal extends Modal {
+	private placeholders: ProviderPlaceholder[];
+	private filePaths: string[];
+	private getOptions: (placeholder: ProviderPlaceholder) => Record<string, string>;
+	private values: Map<string, string>;
+	private onSubmit: (values: Map<string, string> | null) => void;
+	private submitted = false;
+
+	/**
+	 * @param getOptions - Dropdown options ("providerId:modelId" to label) for a placeholder
+	 * @param initialValues - Preselected option for each placeholder key
+	 * @param filePaths - Prompt and template files the import writes to the vault
+	 */
+	constructor(
+		app: App,
+		placeholders: ProviderPlaceholder[],
+		getOptions: (placeholder: ProviderPlaceholder) => Record<string, string>,
+		initialValues: Map<string, string>,
+		filePaths: string[],
+		onSubmit: (values: Map<string, string> | null) => void
+	) {
+		super(app);
+		this.placeholders = placeholders;
+		this.filePaths = filePaths;
+		this.getOptions = getOptions;
+		this.values = new Map(initialValues);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Import workflow' });
+		if (this.placeholders.length > 0) {
+			contentEl.createEl('p', { text: 'The shared workflow used these models. Pick a model from your providers for each one.' });
+		}
+
+		for (const placeholder of this.placeholders) {
+			const exportedName = [placeholder.providerName, placeholder.modelName].filter(Boolean).join(' - ') || 'Unknown model';
+			const capabilityText = placeholder.capability === 'chat' ? 'Chat' : 'Transcription';
+
+			new Setting(contentEl)
+				.setName(exportedName)
+				.setDesc(placeholder.modelId ? `${capabilityText} model (${placeholder.modelId})` : `${capabilityText} model`)
+				.addDropdown(dropdown => dropdown
+					.addOptions(this.getOptions(placeholder))
+					.setValue(this.values.get(placeholder.key) ?? '')
+					.onChange((value) => {
+						this.values.set(placeholder.key, value);
+					}));
+		}
+
+		if (this.filePaths.length > 0) {
+			contentEl.createEl('p', { text: 'These prompt and template files will be added to your vault (identical existing files are reused):' });
+			const fileList = contentEl.createEl('ul');
+			for (const path of this.filePaths) {
+				fileList.createEl('li', { text: path });
+			}
+		}
+
+		const buttons = contentEl.createDiv('workflow-response-buttons');
+		const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+
+		const importButton = buttons.createEl('button', { text: 'Import', cls: 'mod-cta' });
+		importButton.addEventListener('click', () => {
+			this.submitted = true;
+			this.onSubmit(this.values);
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.submitted) {
+			this.submitted = true;
+			this.onSubmit(null);
+		}
+	}
+}
+
+/**
+ * Ask which local model to bind to each placeholder and confirm the files to write.
+ *
+ * @returns The chosen option for each placeholder key, or null if cancelled
+ */
+export function promptProviderBindings(
+	app: App,
+	placeholders: ProviderPlaceholder[],
+	getOptions: (placeholder: ProviderPlaceholder) => Record<string, string>,
+	initialValues: Map<string, string>,
+	filePaths: string[]
+): Promise<Map<string, string> | null> {
+	return new Promise(resolve => {
+		new ProviderBindingModal(app, placeholders, getOptions, initialValues, filePaths, resolve).open();
+	});
+}
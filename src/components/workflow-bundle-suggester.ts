@@ -0,0 +1,31 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { WORKFLOW_BUNDLE_FORMAT } from '../sharing';
+
+/**
+ * Modal for selecting a shared workflow file to import.
+ * Lists JSON files and markdown notes whose frontmatter marks them as workflow bundles.
+ */
+export class WorkflowBundleSuggesterModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Select a shared workflow to import...');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles()
+			.filter(file => file.extension === 'json'
+				|| (file.extension === 'md' && this.app.metadataCache.getFileCache(file)?.frontmatter?.[WORKFLOW_BUNDLE_FORMAT] === true))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
@@ -0,0 +1,52 @@
+import { Notice } from 'obsidian';
+
+/**
+ * Persistent notice showing the progress of a running workflow,
+ * with a button to cancel the run.
+ */
+export class WorkflowProgressNotice {
+	private notice: Notice;
+	private workflowName: string;
+	private onCancel: () => void;
+	private cancelling = false;
+
+	constructor(workflowName: string, onCancel: () => void) {
+		this.workflowName = workflowName;
+		this.onCancel = onCancel;
+		// Duration 0 keeps the notice open until hide() is called
+		this.notice = new Notice(this.buildMessage('Starting...'), 0);
+	}
+
+	/**
+	 * Update the status line shown under the workflow name.
+	 */
+	setStatus(status: string): void {
+		this.notice.setMessage(this.buildMessage(status));
+	}
+
+	hide(): void {
+		this.notice.hide();
+	}
+
+	private buildMessage(status: string): DocumentFragment {
+		const fragment = document.createDocumentFragment();
+		fragment.createDiv({ text: `Running workflow: ${this.workflowName}` });
+		fragment.createDiv({ text: status, cls: 'workflow-progress-status' });
+
+		const cancelButton = fragment.createEl('button', {
+			text: this.cancelling ? 'Cancelling...' : 'Cancel',
+			cls: 'workflow-progress-cancel'
+		});
+		cancelButton.disabled = this.cancelling;
+		cancelButton.addEventListener('click', (event) => {
+			// Keep the click from dismissing the notice; it closes when the run stops
+			event.stopPropagation();
+			this.cancelling = true;
+			cancelButton.disabled = true;
+			cancelButton.setText('Cancelling...');
+			this.onCancel();
+		});
+
+		return fragment;
+	}
+}
@@ -0,0 +1,31 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { WorkflowRun } from '../processing/workflow-runs';
+
+/**
+ * Modal for selecting one of the currently running workflows.
+ * Used when more than one run is active and the user wants to cancel one.
+ */
+export class WorkflowRunSuggesterModal extends FuzzySuggestModal<WorkflowRun> {
+	private runs: WorkflowRun[];
+	private onChoose: (run: WorkflowRun) => void;
+
+	constructor(app: App, runs: WorkflowRun[], onChoose: (run: WorkflowRun) => void) {
+		super(app);
+		this.runs = runs;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Select a running workflow to cancel...');
+	}
+
+	getItems(): WorkflowRun[] {
+		return this.runs;
+	}
+
+	getItemText(run: WorkflowRun): string {
+		const startedAt = new Date(run.startedAt).toLocaleTimeString();
+		return `${run.workflow.name} (started ${startedAt})`;
+	}
+
+	onChooseItem(run: WorkflowRun): void {
+		this.onChoose(run);
+	}
+}
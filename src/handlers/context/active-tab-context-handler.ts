@@ -22,7 +22,7 @@ export class ActiveTabContextHandler implements ContextHandler {
     }
 
     async getContent(context: ContextHandlerContext): Promise<ContextResult> {
-        const activeView = context.app.workspace.getActiveViewOfType(MarkdownView);
+        const activeView = context.markdownView ?? context.app.workspace.getActiveViewOfType(MarkdownView);
 
         if (!activeView) {
             return {
@@ -45,7 +45,11 @@ export class ActiveTabContextHandler implements ContextHandler {
             const content = await context.app.vault.read(file);
             return {
                 content,
-                success: true
+                success: true,
+                tokens: {
+                    activeTabContent: content,
+                    activeTabFilename: file.name
+                }
             };
         } catch (error) {
             return {
@@ -30,7 +30,8 @@ export class ClipboardContextHandler implements ContextHandler {
 
             return {
                 content: clipboardText,
-                success: true
+                success: true,
+                tokens: { clipboard: clipboardText }
             };
         } catch (error) {
             return {
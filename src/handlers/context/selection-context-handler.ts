@@ -18,7 +18,7 @@ export class SelectionContextHandler implements ContextHandler {
     }
 
     async getContent(context: ContextHandlerContext): Promise<ContextResult> {
-        const activeView = context.app.workspace.getActiveViewOfType(MarkdownView);
+        const activeView = context.markdownView ?? context.app.workspace.getActiveViewOfType(MarkdownView);
 
         if (!activeView) {
             return {
@@ -41,7 +41,8 @@ export class SelectionContextHandler implements ContextHandler {
 
         return {
             content: selection,
-            success: true
+            success: true,
+            tokens: { selection }
         };
     }
 }
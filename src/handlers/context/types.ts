@@ -1,4 +1,4 @@
-import { App } from 'obsidian';
+import { App, MarkdownView } from 'obsidian';
 import { WorkflowConfig, ChatContextType } from '../../settings';
 import { TokenDefinition } from '../../tokens';
 
@@ -29,8 +29,10 @@ export const CHAT_CONTEXT_TYPE_DESCRIPTIONS: Record<ChatContextType, string> = {
 export interface ContextHandlerContext {
     /** The Obsidian App instance */
     app: App;
-    /** The workflow configuration being executed */
-    workflow: WorkflowConfig;
+    /** The workflow configuration being executed (absent outside workflows, e.g. in the chat view) */
+    workflow?: WorkflowConfig;
+    /** Editor to read from instead of the active view (e.g., the last note focused before a sidebar view) */
+    markdownView?: MarkdownView | null;
 }
 
 /**
@@ -41,6 +43,8 @@ export interface ContextResult {
     content: string;
     /** Whether the context was successfully retrieved */
     success: boolean;
+    /** Token values keyed by the names from getAvailableTokens() (set on success) */
+    tokens?: Record<string, string>;
     /** Error message if the context retrieval failed */
     error?: string;
 }
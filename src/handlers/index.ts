@@ -4,15 +4,19 @@ export {
     VaultFileInputHandler,
     ClipboardUrlInputHandler,
     SelectionUrlInputHandler,
-    TokenUrlInputHandler
+    TokenUrlInputHandler,
+    TokenFileInputHandler,
+    SUPPORTED_AUDIO_EXTENSIONS,
+    isSupportedAudioExtension
 } from './input';
 
 // Output handlers
-export type { OutputHandler, OutputContext } from './output';
+export type { OutputHandler, OutputContext, StreamingOutput } from './output';
 export {
     AtCursorOutputHandler,
     PopupOutputHandler,
     NewNoteOutputHandler,
+    AppendToNoteOutputHandler,
     WorkflowResultModal
 } from './output';
 
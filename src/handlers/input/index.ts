@@ -2,8 +2,9 @@
 export type { InputHandler, InputContext, InputResult } from './types';
 
 // Input handler implementations
-export { VaultFileInputHandler } from './vault-file-input-handler';
+export { VaultFileInputHandler, SUPPORTED_AUDIO_EXTENSIONS, isSupportedAudioExtension } from './vault-file-input-handler';
 export { ClipboardUrlInputHandler } from './clipboard-url-input-handler';
 export { SelectionUrlInputHandler } from './selection-url-input-handler';
 export { TokenUrlInputHandler } from './token-url-input-handler';
+export { TokenFileInputHandler } from './token-file-input-handler';
 
@@ -0,0 +1,94 @@
+import { TFile, normalizePath } from 'obsidian';
+import { InputHandler, InputContext, InputResult } from './types';
+import { SUPPORTED_AUDIO_EXTENSIONS, isSupportedAudioExtension } from './vault-file-input-handler';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Input handler that transcribes an audio file referenced by a token value.
+ * The value may be a vault-relative path, an absolute path, or a wiki-link
+ * (e.g., [[recording.m4a]] or ![[recording.m4a]]) to an audio attachment.
+ *
+ * Unlike other input handlers, invalid values throw an Error describing the
+ * problem so it can be reported as the action error.
+ */
+export class TokenFileInputHandler implements InputHandler {
+    private value: string;
+    private sourcePath: string;
+
+    /**
+     * @param value - The resolved token value
+     * @param sourcePath - Path of the note wiki-links are resolved relative to
+     */
+    constructor(value: string, sourcePath = '') {
+        this.value = value;
+        this.sourcePath = sourcePath;
+    }
+
+    async getInput(context: InputContext): Promise<InputResult | null> {
+        const reference = this.value.trim().replace(/^["']|["']$/g, '');
+        if (!reference) {
+            throw new Error('No audio file path found in the selected token');
+        }
+
+        const wikiLinkPath = this.parseWikiLink(reference);
+        if (wikiLinkPath !== null) {
+            const file = context.app.metadataCache.getFirstLinkpathDest(wikiLinkPath, this.sourcePath);
+            if (!file) {
+                throw new Error(`Linked audio file not found in vault: ${wikiLinkPath}`);
+            }
+            return this.createVaultFileResult(context, file);
+        }
+
+        if (path.isAbsolute(reference)) {
+            this.validateExtension(path.extname(reference).substring(1), reference);
+            if (!fs.existsSync(reference)) {
+                throw new Error(`Audio file not found: ${reference}`);
+            }
+            return {
+                audioFilePath: reference,
+                metadata: {
+                    title: path.basename(reference, path.extname(reference)),
+                }
+            };
+        }
+
+        const vaultFile = context.app.vault.getAbstractFileByPath(normalizePath(reference));
+        if (vaultFile instanceof TFile) {
+            return this.createVaultFileResult(context, vaultFile);
+        }
+
+        throw new Error(`Audio file not found in vault: ${reference}`);
+    }
+
+    /**
+     * Extract the link path from a wiki-link, dropping any alias or subpath.
+     * Returns null if the value is not a wiki-link.
+     */
+    private parseWikiLink(value: string): string | null {
+        const match = /^!?\[\[([^\]]+)\]\]$/.exec(value);
+        if (!match?.[1]) {
+            return null;
+        }
+        return match[1].split('|')[0]?.split('#')[0]?.trim() ?? '';
+    }
+
+    private createVaultFileResult(context: InputContext, file: TFile): InputResult {
+        this.validateExtension(file.extension, file.path);
+
+        // Get the absolute path to the audio file
+        const adapter = context.app.vault.adapter as unknown as { basePath: string };
+        return {
+            audioFilePath: path.join(adapter.basePath, file.path),
+            metadata: {
+                title: file.basename,
+            }
+        };
+    }
+
+    private validateExtension(extension: string, filePath: string): void {
+        if (!isSupportedAudioExtension(extension)) {
+            throw new Error(`Unsupported audio file type: ${filePath}. Supported types: ${SUPPORTED_AUDIO_EXTENSIONS.join(', ')}`);
+        }
+    }
+}
@@ -23,7 +23,7 @@ export class TokenUrlInputHandler implements InputHandler {
 
         new Notice('Processing URL from token...');
 
-        const result = await extractAudioFromUrl(this.url.trim(), context.settings, this.extractionSettings);
+        const result = await extractAudioFromUrl(this.url.trim(), context.settings, this.extractionSettings, context.signal);
 
         if (!result) {
             return null;
@@ -32,7 +32,8 @@ export class TokenUrlInputHandler implements InputHandler {
         return {
             audioFilePath: result.audioFilePath,
             sourceUrl: result.sourceUrl,
-            metadata: result.metadata
+            metadata: result.metadata,
+            temporaryDirectory: result.temporaryDirectory
         };
     }
 }
@@ -13,6 +13,8 @@ export interface InputResult {
     sourceUrl?: string;
     /** Metadata from the video/audio source */
     metadata?: VideoMetadata;
+    /** Temporary directory holding the audio, removed if the run is cancelled */
+    temporaryDirectory?: string;
 }
 
 /**
@@ -25,6 +27,8 @@ export interface InputContext {
     settings: AIToolboxSettings;
     /** The workflow configuration being executed */
     workflow: WorkflowConfig;
+    /** Cancels input acquisition (e.g., a download) when aborted */
+    signal?: AbortSignal;
 }
 
 /**
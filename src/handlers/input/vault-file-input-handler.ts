@@ -5,7 +5,14 @@ import * as path from 'path';
 /**
  * Supported audio file extensions for transcription.
  */
-const SUPPORTED_AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'webm', 'ogg', 'flac', 'aac'];
+export const SUPPORTED_AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'webm', 'ogg', 'flac', 'aac'];
+
+/**
+ * Check whether a file extension (without the dot) is a supported audio format.
+ */
+export function isSupportedAudioExtension(extension: string): boolean {
+    return SUPPORTED_AUDIO_EXTENSIONS.includes(extension.toLowerCase());
+}
 
 /**
  * Modal for selecting an audio file from the vault.
@@ -22,10 +29,7 @@ class AudioFileSelectorModal extends FuzzySuggestModal<TFile> {
         super(app);
         this.onSelect = onSelect;
 
-        this.audioFiles = app.vault.getFiles().filter(file => {
-            const ext = file.extension.toLowerCase();
-            return SUPPORTED_AUDIO_EXTENSIONS.includes(ext);
-        });
+        this.audioFiles = app.vault.getFiles().filter(file => isSupportedAudioExtension(file.extension));
 
         this.setPlaceholder('Select an audio file to transcribe...');
     }
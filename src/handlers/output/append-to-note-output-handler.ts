@@ -0,0 +1,181 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { OutputHandler, OutputContext } from './types';
+import { AppendToNoteConfig, DEFAULT_APPEND_TO_NOTE_CONFIG } from '../../settings';
+import { logNotice, LogCategory } from '../../logging';
+import { splitFrontmatter } from '../../utils/frontmatter';
+
+// Matches a markdown heading line, capturing its level markers and text
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+
+// Matches the opening or closing line of a fenced code block
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Insert a block into the note's lines, keeping a blank line on either side
+ *
+ * @param spaceBefore - Whether to separate the block from the line before it (not wanted right after frontmatter)
+ */
+function insertBlock(lines: string[], index: number, block: string, spaceBefore = true): void {
+    const before = spaceBefore && index > 0 && lines[index - 1]?.trim() !== '' ? [''] : [];
+    const after = index < lines.length && lines[index]?.trim() !== '' ? [''] : [];
+    lines.splice(index, 0, ...before, block, ...after);
+}
+
+/**
+ * Get the line index after the note's frontmatter, where prepended content goes
+ */
+function getBodyStart(lines: string[]): number {
+    if (lines[0] !== '---') {
+        return 0;
+    }
+    const closingIndex = lines.indexOf('---', 1);
+    return closingIndex === -1 ? 0 : closingIndex + 1;
+}
+
+/**
+ * Get the index after the last non-blank line in the range, where appended content goes
+ */
+function getContentEnd(lines: string[], start: number, end: number): number {
+    let index = end;
+    while (index > start && lines[index - 1]?.trim() === '') {
+        index--;
+    }
+    return index;
+}
+
+/**
+ * Find a heading's line and the end of its section (the next heading of the
+ * same or a higher level). Headings inside code blocks are ignored.
+ */
+function findHeadingSection(lines: string[], level: number, text: string): { headingIndex: number; sectionEnd: number } | null {
+    let headingIndex = -1;
+    let inFence = false;
+
+    for (const [index, line] of lines.entries()) {
+        if (FENCE_PATTERN.test(line)) {
+            inFence = !inFence;
+            continue;
+        }
+        const match = inFence ? null : HEADING_PATTERN.exec(line);
+        if (!match?.[1]) {
+            continue;
+        }
+        if (headingIndex === -1) {
+            if (match[1].length === level && match[2]?.trim() === text) {
+                headingIndex = index;
+            }
+        } else if (match[1].length <= level) {
+            return { headingIndex, sectionEnd: index };
+        }
+    }
+
+    return headingIndex === -1 ? null : { headingIndex, sectionEnd: lines.length };
+}
+
+/**
+ * Add the output to the note content: at the start or end of the note, or of the
+ * section under the configured heading. A missing heading is added at the end.
+ */
+function insertOutput(content: string, outputText: string, target: AppendToNoteConfig): string {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const block = outputText.replace(/\s+$/, '');
+    const heading = target.heading.trim();
+
+    if (!heading) {
+        if (target.position === 'prepend') {
+            insertBlock(lines, getBodyStart(lines), block, false);
+        } else {
+            insertBlock(lines, getContentEnd(lines, 0, lines.length), block);
+        }
+    } else {
+        // A heading without markers is treated as a level 2 heading
+        const headingMatch = HEADING_PATTERN.exec(heading);
+        const level = headingMatch?.[1]?.length ?? 2;
+        const text = headingMatch?.[2]?.trim() ?? heading;
+        const section = findHeadingSection(lines, level, text);
+
+        if (!section) {
+            const headingLine = headingMatch ? heading : `## ${heading}`;
+            insertBlock(lines, getContentEnd(lines, 0, lines.length), `${headingLine}\n\n${block}`);
+        } else if (target.position === 'prepend') {
+            insertBlock(lines, section.headingIndex + 1, block);
+        } else {
+            insertBlock(lines, getContentEnd(lines, section.headingIndex + 1, section.sectionEnd), block);
+        }
+    }
+
+    const result = lines.join('\n');
+    return result.endsWith('\n') ? result : `${result}\n`;
+}
+
+/**
+ * Output handler that adds the AI response to an existing note, optionally under a heading.
+ * Notes given by path are created when missing. The note is changed with
+ * vault.process, so edits made while the workflow ran are kept. Frontmatter generated
+ * by the output template is merged into the note's properties instead of inserted.
+ */
+export class AppendToNoteOutputHandler implements OutputHandler {
+    async handleOutput(responseText: string, context: OutputContext): Promise<void> {
+        const { app, workflow } = context;
+        const target = workflow.appendToNote ?? DEFAULT_APPEND_TO_NOTE_CONFIG;
+
+        const file = await this.getTargetFile(app, target, context);
+        if (!file) {
+            return;
+        }
+
+        // Only the template's frontmatter is merged; a response that starts with "---" is note content
+        const { properties, body } = context.templateFrontmatter
+            ? splitFrontmatter(responseText)
+            : { properties: null, body: responseText };
+        await app.vault.process(file, content => insertOutput(content, body, target));
+        if (properties && Object.keys(properties).length > 0) {
+            await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+                Object.assign(frontmatter, properties);
+            });
+        }
+        logNotice(LogCategory.WORKFLOW, `Added output to ${file.basename}`);
+    }
+
+    /**
+     * Get the note to write to, creating it if a configured path doesn't exist yet.
+     *
+     * Uses the path resolved when the workflow ran (token path or the note active at the start),
+     * falling back to the note of the given or active editor for active-note targets.
+     *
+     * @returns The note, or null if there is no target (a notice is shown)
+     */
+    private async getTargetFile(app: App, target: AppendToNoteConfig, context: OutputContext): Promise<TFile | null> {
+        const { targetPath } = context;
+        if (target.targetType === 'active-note' && !targetPath) {
+            const activeFile = context.markdownView?.file ?? app.workspace.getActiveFile();
+            if (!activeFile) {
+                logNotice(LogCategory.WORKFLOW, 'No active note. Please open a note first.');
+            }
+            return activeFile;
+        }
+
+        const path = targetPath ?? (target.targetType === 'fixed-path' ? target.path.trim() : '');
+        if (!path) {
+            logNotice(LogCategory.WORKFLOW, 'No note path is configured for this workflow.');
+            return null;
+        }
+
+        // Dots are common in note names (e.g., "v1.2 review"), so only an .md extension is kept as-is
+        const normalized = normalizePath(/\.md$/i.test(path) ? path : `${path}.md`);
+        const existing = app.vault.getAbstractFileByPath(normalized);
+        if (existing instanceof TFile) {
+            return existing;
+        }
+        if (existing) {
+            logNotice(LogCategory.WORKFLOW, `"${normalized}" is a folder, not a note.`);
+            return null;
+        }
+
+        const folderPath = normalized.substring(0, normalized.lastIndexOf('/'));
+        if (folderPath && !app.vault.getAbstractFileByPath(folderPath)) {
+            await app.vault.createFolder(folderPath);
+        }
+        return app.vault.create(normalized, '');
+    }
+}
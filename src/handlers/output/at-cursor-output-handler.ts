@@ -1,14 +1,24 @@
-import { MarkdownView } from 'obsidian';
-import { OutputHandler, OutputContext } from './types';
-import { logNotice, LogCategory } from '../../logging';
+import { EditorPosition, MarkdownView } from 'obsidian';
+import { OutputHandler, OutputContext, StreamingOutput } from './types';
+import { logNotice, logWarn, LogCategory } from '../../logging';
+import { splitFrontmatter } from '../../utils/frontmatter';
 
 /**
  * Output handler that inserts the AI response at the current cursor position
  * or replaces selected text in the active Obsidian editor.
+ * Frontmatter at the start of templated output is left out, since it would show
+ * as body text in the middle of the note.
  */
 export class AtCursorOutputHandler implements OutputHandler {
-    async handleOutput(responseText: string, context: OutputContext): Promise<void> {
-        const activeView = context.app.workspace.getActiveViewOfType(MarkdownView);
+    async handleOutput(outputText: string, context: OutputContext): Promise<void> {
+        const { properties, body: responseText } = context.templateFrontmatter
+            ? splitFrontmatter(outputText)
+            : { properties: null, body: outputText };
+        if (properties) {
+            logWarn(LogCategory.OUTPUT, `Frontmatter from the output template of "${context.workflow.name}" was not inserted at the cursor`);
+        }
+
+        const activeView = context.markdownView ?? context.app.workspace.getActiveViewOfType(MarkdownView);
         if (!activeView) {
             logNotice(LogCategory.WORKFLOW, 'No active editor. Please open a note first.');
             return;
@@ -20,26 +30,58 @@ export class AtCursorOutputHandler implements OutputHandler {
         if (hasSelection) {
             const from = editor.getCursor('from');
             editor.replaceSelection(responseText);
-            this.moveCursorToEndOfText(editor, from, responseText);
+            editor.setCursor(this.getEndOfText(from, responseText));
             logNotice(LogCategory.WORKFLOW, 'Response replaced selection');
         } else {
             const cursor = editor.getCursor();
             editor.replaceRange(responseText, cursor);
-            this.moveCursorToEndOfText(editor, cursor, responseText);
+            editor.setCursor(this.getEndOfText(cursor, responseText));
             logNotice(LogCategory.WORKFLOW, 'Response inserted at cursor');
         }
     }
 
-    private moveCursorToEndOfText(
-        editor: MarkdownView['editor'],
-        startPos: { line: number; ch: number },
-        text: string
-    ): void {
+    /**
+     * Insert streamed text into the editor that is active when streaming starts.
+     * Text streams in after the selection, which is only replaced once the response
+     * is complete; a failed stream removes the streamed text and restores the selection.
+     */
+    beginStream(context: OutputContext): StreamingOutput | null {
+        const activeView = context.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!activeView) {
+            return null;
+        }
+
+        const editor = activeView.editor;
+        const hasSelection = editor.somethingSelected();
+        const selectionFrom = editor.getCursor('from');
+        const streamStart = editor.getCursor('to');
+        let insertPos: EditorPosition = streamStart;
+
+        return {
+            append: (delta) => {
+                editor.replaceRange(delta, insertPos);
+                insertPos = this.getEndOfText(insertPos, delta);
+            },
+            finish: async (responseText) => {
+                editor.replaceRange(responseText, selectionFrom, insertPos);
+                editor.setCursor(this.getEndOfText(selectionFrom, responseText));
+                logNotice(LogCategory.WORKFLOW, hasSelection ? 'Response replaced selection' : 'Response inserted at cursor');
+            },
+            fail: () => {
+                editor.replaceRange('', streamStart, insertPos);
+                editor.setSelection(selectionFrom, streamStart);
+            }
+        };
+    }
+
+    /**
+     * Get the position just after `text` when it is inserted at `startPos`.
+     */
+    private getEndOfText(startPos: EditorPosition, text: string): EditorPosition {
         const lines = text.split('\n');
         const lastLine = lines[lines.length - 1] ?? '';
         const newLine = startPos.line + lines.length - 1;
         const newCh = lines.length === 1 ? startPos.ch + lastLine.length : lastLine.length;
-        editor.setCursor({ line: newLine, ch: newCh });
+        return { line: newLine, ch: newCh };
     }
 }
-
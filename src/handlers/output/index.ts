@@ -1,8 +1,9 @@
 // Output handler types
-export type { OutputHandler, OutputContext } from './types';
+export type { OutputHandler, OutputContext, StreamingOutput } from './types';
 
 // Output handler implementations
 export { AtCursorOutputHandler } from './at-cursor-output-handler';
 export { PopupOutputHandler, WorkflowResultModal } from './popup-output-handler';
 export { NewNoteOutputHandler } from './new-note-output-handler';
+export { AppendToNoteOutputHandler } from './append-to-note-output-handler';
 
@@ -1,18 +1,24 @@
 import { App, Modal } from 'obsidian';
-import { OutputHandler, OutputContext } from './types';
+import { OutputHandler, OutputContext, StreamingOutput } from './types';
 import { logNotice, LogCategory } from '../../logging';
 
 /**
  * Modal to display the AI response from a workflow execution.
+ * The response can be appended to while the modal is open to show streamed output.
  */
 export class WorkflowResultModal extends Modal {
     private workflowName: string;
     private response: string;
+    private usageSummary: string;
+    private responseContainerEl: HTMLElement | null = null;
+    private responseEl: HTMLElement | null = null;
+    private usageEl: HTMLElement | null = null;
 
-    constructor(app: App, workflowName: string, response: string) {
+    constructor(app: App, workflowName: string, response: string, usageSummary = '') {
         super(app);
         this.workflowName = workflowName;
         this.response = response;
+        this.usageSummary = usageSummary;
     }
 
     onOpen(): void {
@@ -20,11 +26,12 @@ export class WorkflowResultModal extends Modal {
 
         contentEl.createEl('h2', { text: this.workflowName });
 
-        const responseContainer = contentEl.createDiv('workflow-response-container');
-        responseContainer.createEl('pre', {
+        this.responseContainerEl = contentEl.createDiv('workflow-response-container');
+        this.responseEl = this.responseContainerEl.createEl('pre', {
             text: this.response,
             cls: 'workflow-response-content'
         });
+        this.usageEl = contentEl.createDiv({ cls: 'workflow-response-usage', text: this.usageSummary });
 
         // Add copy button
         const buttonContainer = contentEl.createDiv('workflow-response-buttons');
@@ -39,9 +46,47 @@ export class WorkflowResultModal extends Modal {
         closeButton.addEventListener('click', () => this.close());
     }
 
+    /**
+     * Append streamed text to the displayed response, keeping the latest text in view.
+     */
+    appendResponse(delta: string): void {
+        this.response += delta;
+        if (this.responseEl && this.responseContainerEl) {
+            this.responseEl.appendText(delta);
+            this.responseContainerEl.scrollTop = this.responseContainerEl.scrollHeight;
+        }
+    }
+
+    /**
+     * Replace the displayed response with the complete text.
+     */
+    setResponse(response: string): void {
+        this.response = response;
+        this.responseEl?.setText(response);
+    }
+
+    /**
+     * Show the run's usage below the response once it is known.
+     */
+    setUsageSummary(usageSummary: string): void {
+        this.usageSummary = usageSummary;
+        this.usageEl?.setText(usageSummary);
+    }
+
+    /**
+     * Show why the response is incomplete below it.
+     */
+    showError(message: string): void {
+        this.usageEl?.setText(message);
+        this.usageEl?.addClass('workflow-response-error');
+    }
+
     onClose(): void {
         const { contentEl } = this;
         contentEl.empty();
+        this.responseContainerEl = null;
+        this.responseEl = null;
+        this.usageEl = null;
     }
 }
 
@@ -53,9 +98,27 @@ export class PopupOutputHandler implements OutputHandler {
         const modal = new WorkflowResultModal(
             context.app,
             context.workflow.name,
-            responseText
+            responseText,
+            context.usageSummary
         );
         modal.open();
     }
-}
 
+    beginStream(context: OutputContext): StreamingOutput {
+        const modal = new WorkflowResultModal(
+            context.app,
+            context.workflow.name,
+            ''
+        );
+        modal.open();
+
+        return {
+            append: (delta) => modal.appendResponse(delta),
+            finish: async (responseText, finalContext) => {
+                modal.setResponse(responseText);
+                modal.setUsageSummary(finalContext.usageSummary ?? '');
+            },
+            fail: (message) => modal.showError(message)
+        };
+    }
+}
@@ -1,4 +1,4 @@
-import { App } from 'obsidian';
+import { App, MarkdownView } from 'obsidian';
 import { WorkflowConfig } from '../../settings';
 
 /**
@@ -13,6 +13,42 @@ export interface OutputContext {
     promptText?: string;
     /** Custom note title (for new-note output handler) */
     noteTitle?: string;
+    /** Path of the note to add the output to, resolved when the workflow ran (for append-to-note output handler) */
+    targetPath?: string;
+    /** Whether the output starts with frontmatter generated by the output template (merged or left out by note outputs) */
+    templateFrontmatter?: boolean;
+    /** Editor to insert into instead of the active one (for views that take focus from the editor, such as the run history) */
+    markdownView?: MarkdownView | null;
+    /** One-line description of the run's token usage and cost (shown by the popup) */
+    usageSummary?: string;
+}
+
+/**
+ * A live output target that renders a streamed response as it arrives.
+ */
+export interface StreamingOutput {
+    /**
+     * Render the next chunk of the response.
+     *
+     * @param delta - Newly generated text to append
+     */
+    append(delta: string): void;
+
+    /**
+     * Finish streaming once the full response is available.
+     *
+     * @param responseText - The complete response text
+     * @param context - Output context with details only known once the run ends (note title, usage)
+     */
+    finish(responseText: string, context: OutputContext): Promise<void>;
+
+    /**
+     * Stop streaming because the response won't complete (the action failed or was cancelled).
+     * The output is returned to how it was before streaming where possible.
+     *
+     * @param message - Why the response is incomplete
+     */
+    fail(message: string): void;
 }
 
 /**
@@ -30,5 +66,14 @@ export interface OutputHandler {
      * @returns Promise that resolves when output handling is complete
      */
     handleOutput(responseText: string, context: OutputContext): Promise<void>;
+
+    /**
+     * Start rendering a streamed response (optional).
+     * Handlers without streaming support receive the final text through handleOutput.
+     *
+     * @param context - Context information about the workflow execution
+     * @returns A streaming output target, or null if streaming can't start (caller falls back to handleOutput)
+     */
+    beginStream?(context: OutputContext): StreamingOutput | null;
 }
 
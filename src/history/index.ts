@@ -0,0 +1,14 @@
+// Re-export types
+export type {
+    RunStatus,
+    ActionRunRecord,
+    WorkflowRunRecord,
+    RunHistoryListener,
+    RunHistoryUnsubscribe
+} from './types';
+
+// Re-export run history store
+export { runHistory } from './run-history';
+
+// Re-export run history view
+export { VIEW_TYPE_RUN_HISTORY, RunHistoryView } from './run-history-view';
@@ -0,0 +1,277 @@
+import { ItemView, MarkdownView, Menu, WorkspaceLeaf } from 'obsidian';
+import { runHistory } from './run-history';
+import { WorkflowRunRecord, ActionRunRecord, RunHistoryUnsubscribe } from './types';
+import { WorkflowOutputType } from '../settings';
+import { WorkflowResultModal } from '../handlers';
+import { createOutputHandler, replayWorkflowRun } from '../processing/workflow-executor';
+import { logNotice, LogCategory } from '../logging';
+import { formatUsage } from '../usage';
+import type AIToolboxPlugin from '../main';
+
+export const VIEW_TYPE_RUN_HISTORY = 'ai-toolbox-run-history';
+
+// Longest token value shown inline; the full value is available via copy or send
+const TOKEN_PREVIEW_LENGTH = 200;
+
+/**
+ * Output handlers a recorded value can be re-sent to
+ */
+const SEND_TARGETS: Record<WorkflowOutputType, string> = {
+    'popup': 'Show in popup',
+    'new-note': 'Create new note',
+    'at-cursor': 'Insert at cursor',
+    'append-to-note': 'Add to note'
+};
+
+/**
+ * Run history view listing past workflow runs with their actions, tokens and output.
+ */
+export class RunHistoryView extends ItemView {
+    plugin: AIToolboxPlugin;
+    private historyContainer: HTMLElement;
+    private unsubscribe: RunHistoryUnsubscribe | null = null;
+    // Runs expanded by the user, kept open across re-renders
+    private expandedRunIds: Set<string> = new Set();
+    // Editor that was active before this view took focus, for sending to the cursor or active note
+    private lastMarkdownView: MarkdownView | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: AIToolboxPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_RUN_HISTORY;
+    }
+
+    getDisplayText(): string {
+        return 'AI toolbox run history';
+    }
+
+    getIcon(): string {
+        return 'history';
+    }
+
+    async onOpen(): Promise<void> {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('ai-toolbox-history-view');
+
+        this.lastMarkdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+        this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+            if (leaf?.view instanceof MarkdownView) {
+                this.lastMarkdownView = leaf.view;
+            }
+        }));
+
+        this.buildControls(container);
+        this.historyContainer = container.createDiv({ cls: 'history-container' });
+
+        this.unsubscribe = runHistory.subscribe(records => this.renderRuns(records));
+    }
+
+    private buildControls(container: HTMLElement): void {
+        const controls = container.createDiv({ cls: 'log-controls' });
+
+        // Spacer
+        controls.createDiv({ cls: 'log-controls-spacer' });
+
+        // Clear button
+        const clearBtn = controls.createEl('button', { text: 'Clear', cls: 'mod-warning' });
+        clearBtn.addEventListener('click', () => {
+            void runHistory.clear();
+        });
+    }
+
+    private renderRuns(records: WorkflowRunRecord[]): void {
+        this.historyContainer.empty();
+
+        if (records.length === 0) {
+            this.historyContainer.createDiv({ cls: 'history-empty', text: 'No workflow runs yet.' });
+            return;
+        }
+
+        for (const record of records) {
+            this.renderRun(record);
+        }
+    }
+
+    private renderRun(record: WorkflowRunRecord): void {
+        const runEl = this.historyContainer.createEl('details', { cls: `history-run history-${record.status}` });
+        runEl.open = this.expandedRunIds.has(record.id);
+        runEl.addEventListener('toggle', () => {
+            if (runEl.open) {
+                this.expandedRunIds.add(record.id);
+            } else {
+                this.expandedRunIds.delete(record.id);
+            }
+        });
+
+        const summary = runEl.createEl('summary', { cls: 'history-run-summary' });
+        summary.createSpan({ cls: 'history-run-name', text: record.workflowName });
+        summary.createSpan({ cls: 'history-run-status', text: ` ${record.status}` });
+        summary.createSpan({ cls: 'history-run-time', text: ` ${this.formatRunTime(record)}` });
+
+        const body = runEl.createDiv({ cls: 'history-run-body' });
+
+        if (record.error) {
+            body.createDiv({ cls: 'history-error', text: record.error });
+        }
+
+        const usageSummary = record.usage ? formatUsage(record.usage) : '';
+        if (usageSummary) {
+            body.createDiv({ cls: 'history-usage', text: usageSummary });
+        }
+
+        const buttons = body.createDiv({ cls: 'history-buttons' });
+        const outputText = record.output;
+        if (outputText !== undefined) {
+            const openBtn = buttons.createEl('button', { text: 'Open output' });
+            openBtn.addEventListener('click', () => {
+                new WorkflowResultModal(this.app, record.workflowName, outputText).open();
+            });
+
+            const sendBtn = buttons.createEl('button', { text: 'Send output' });
+            sendBtn.addEventListener('click', (event) => {
+                this.showSendMenu(event, record, outputText);
+            });
+        }
+
+        if (record.context) {
+            const rerunBtn = buttons.createEl('button', { text: 'Re-run with same inputs' });
+            rerunBtn.addEventListener('click', (event) => {
+                this.showRerunMenu(event, record);
+            });
+        }
+
+        const deleteBtn = buttons.createEl('button', { text: 'Delete' });
+        deleteBtn.addEventListener('click', () => {
+            this.expandedRunIds.delete(record.id);
+            void runHistory.delete(record.id);
+        });
+
+        for (const action of record.actions) {
+            this.renderAction(body, record, action);
+        }
+    }
+
+    private renderAction(container: HTMLElement, record: WorkflowRunRecord, action: ActionRunRecord): void {
+        const actionEl = container.createDiv({ cls: 'history-action' });
+
+        const header = actionEl.createDiv({ cls: 'history-action-header' });
+        header.createSpan({ cls: 'history-action-name', text: action.actionName });
+        const timing = action.cached ? 'cached' : this.formatDuration(action.durationMs);
+        const usageSummary = action.usage && !action.cached ? formatUsage(action.usage) : '';
+        const meta = [action.actionId, timing, usageSummary].filter(part => part).join(' · ');
+        header.createSpan({ cls: 'history-action-meta', text: ` ${meta}` });
+
+        if (action.error) {
+            actionEl.createDiv({ cls: 'history-error', text: action.error });
+        }
+
+        for (const [tokenName, value] of Object.entries(action.tokens)) {
+            const tokenEl = actionEl.createDiv({ cls: 'history-token' });
+            const tokenHeader = tokenEl.createDiv({ cls: 'history-token-header' });
+            tokenHeader.createEl('code', { text: `{{${action.actionId}.${tokenName}}}` });
+
+            const copyBtn = tokenHeader.createEl('button', { text: 'Copy', cls: 'history-token-button' });
+            copyBtn.addEventListener('click', () => {
+                void navigator.clipboard.writeText(value).then(() => {
+                    logNotice(LogCategory.WORKFLOW, 'Token value copied to clipboard');
+                });
+            });
+
+            const sendBtn = tokenHeader.createEl('button', { text: 'Send', cls: 'history-token-button' });
+            sendBtn.addEventListener('click', (event) => {
+                this.showSendMenu(event, record, value);
+            });
+
+            const preview = value.length > TOKEN_PREVIEW_LENGTH
+                ? `${value.substring(0, TOKEN_PREVIEW_LENGTH)}…`
+                : value;
+            tokenEl.createDiv({ cls: 'history-token-value', text: preview });
+        }
+    }
+
+    /**
+     * Show a menu of actions to re-run a recorded run from.
+     * Every recorded action after the first can be a restart point, since the
+     * actions before it completed and their results are saved.
+     */
+    private showRerunMenu(event: MouseEvent, record: WorkflowRunRecord): void {
+        const menu = new Menu();
+        menu.addItem(item => item
+            .setTitle('From the first action')
+            .onClick(() => {
+                void replayWorkflowRun(this.app, this.plugin.settings, record);
+            }));
+
+        for (const action of record.actions.slice(1)) {
+            menu.addItem(item => item
+                .setTitle(`From ${action.actionName}`)
+                .onClick(() => {
+                    void replayWorkflowRun(this.app, this.plugin.settings, record, action.actionId);
+                }));
+        }
+        menu.showAtMouseEvent(event);
+    }
+
+    /**
+     * Show a menu of output handlers to re-send a recorded value to.
+     */
+    private showSendMenu(event: MouseEvent, record: WorkflowRunRecord, text: string): void {
+        const menu = new Menu();
+        for (const [outputType, label] of Object.entries(SEND_TARGETS)) {
+            menu.addItem(item => item
+                .setTitle(label)
+                .onClick(() => {
+                    void this.sendToOutput(record, outputType, text);
+                }));
+        }
+        menu.showAtMouseEvent(event);
+    }
+
+    /**
+     * Send a recorded value to an output handler, using the run's workflow for
+     * output settings such as the note folder. Cursor and active-note outputs go
+     * to the editor that was last active, since this view has focus.
+     */
+    private async sendToOutput(record: WorkflowRunRecord, outputType: string, text: string): Promise<void> {
+        const workflow = this.plugin.settings.workflows.find(w => w.id === record.workflowId);
+        if (!workflow) {
+            logNotice(LogCategory.WORKFLOW, `Workflow "${record.workflowName}" no longer exists.`);
+            return;
+        }
+
+        const handler = createOutputHandler(outputType);
+        await handler.handleOutput(text, {
+            app: this.app,
+            workflow,
+            noteTitle: record.noteTitle,
+            targetPath: record.targetPath,
+            templateFrontmatter: record.templateFrontmatter,
+            markdownView: this.lastMarkdownView
+        });
+    }
+
+    private formatRunTime(record: WorkflowRunRecord): string {
+        const startedAt = new Date(record.startedAt);
+        const time = startedAt.toLocaleString();
+        if (!record.finishedAt) {
+            return time;
+        }
+        const durationMs = new Date(record.finishedAt).getTime() - startedAt.getTime();
+        return `${time} (${this.formatDuration(durationMs)})`;
+    }
+
+    private formatDuration(durationMs: number): string {
+        return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+    }
+
+    async onClose(): Promise<void> {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+    }
+}
@@ -0,0 +1,120 @@
+import { DataAdapter } from 'obsidian';
+import { WorkflowRunRecord, RunHistoryListener, RunHistoryUnsubscribe } from './types';
+import { logError, logWarn, LogCategory } from '../logging';
+
+const MAX_RUNS = 100;
+
+/**
+ * Persistent history of workflow runs, stored as JSON in the plugin's data folder.
+ * Newest runs come first; the oldest are dropped once MAX_RUNS is exceeded.
+ */
+class RunHistory {
+    private records: WorkflowRunRecord[] = [];
+    private listeners: RunHistoryListener[] = [];
+    private adapter: DataAdapter | null = null;
+    private filePath = '';
+    // Chains writes so concurrent runs can't interleave them
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    /**
+     * Load the history file. Must be called before runs are recorded.
+     *
+     * @param adapter - Vault adapter used to read and write the file
+     * @param filePath - Vault-relative path of the history file
+     */
+    async load(adapter: DataAdapter, filePath: string): Promise<void> {
+        this.adapter = adapter;
+        this.filePath = filePath;
+
+        try {
+            if (await adapter.exists(filePath)) {
+                const parsed: unknown = JSON.parse(await adapter.read(filePath));
+                this.records = Array.isArray(parsed) ? parsed as WorkflowRunRecord[] : [];
+            }
+        } catch (error) {
+            logWarn(LogCategory.PLUGIN, 'Failed to load run history; starting with an empty history', error);
+            this.records = [];
+        }
+
+        this.notifyListeners();
+    }
+
+    /**
+     * Add a finished run to the history and save it.
+     */
+    async add(record: WorkflowRunRecord): Promise<void> {
+        this.records.unshift(record);
+        if (this.records.length > MAX_RUNS) {
+            this.records = this.records.slice(0, MAX_RUNS);
+        }
+        this.notifyListeners();
+        await this.save();
+    }
+
+    /**
+     * Remove a run from the history.
+     */
+    async delete(runId: string): Promise<void> {
+        this.records = this.records.filter(r => r.id !== runId);
+        this.notifyListeners();
+        await this.save();
+    }
+
+    /**
+     * Remove all runs from the history.
+     */
+    async clear(): Promise<void> {
+        this.records = [];
+        this.notifyListeners();
+        await this.save();
+    }
+
+    /**
+     * Get a copy of all recorded runs, newest first.
+     */
+    getRecords(): WorkflowRunRecord[] {
+        return [...this.records];
+    }
+
+    /**
+     * Get a recorded run by its ID.
+     */
+    getRecord(runId: string): WorkflowRunRecord | undefined {
+        return this.records.find(r => r.id === runId);
+    }
+
+    /**
+     * Subscribe to history updates. Returns an unsubscribe function.
+     */
+    subscribe(callback: RunHistoryListener): RunHistoryUnsubscribe {
+        this.listeners.push(callback);
+        callback([...this.records]); // Initial call with current records
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== callback);
+        };
+    }
+
+    private notifyListeners(): void {
+        const recordsCopy = [...this.records];
+        this.listeners.forEach(cb => cb(recordsCopy));
+    }
+
+    private save(): Promise<void> {
+        const adapter = this.adapter;
+        if (!adapter) {
+            return Promise.resolve();
+        }
+
+        this.pendingWrite = this.pendingWrite.then(async () => {
+            try {
+                await adapter.write(this.filePath, JSON.stringify(this.records));
+            } catch (error) {
+                logError(LogCategory.PLUGIN, 'Failed to save run history', error);
+            }
+        });
+        return this.pendingWrite;
+    }
+}
+
+/** Singleton run history instance */
+export const runHistory = new RunHistory();
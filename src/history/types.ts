@@ -0,0 +1,81 @@
+import type { ContextTokenValues, WorkflowExecutionResult } from '../processing/workflow-chaining';
+import type { UsageTotals } from '../usage';
+
+/**
+ * Outcome of a recorded workflow run.
+ */
+export type RunStatus = 'success' | 'failed' | 'cancelled';
+
+/**
+ * Record of a single action executed during a workflow run.
+ */
+export interface ActionRunRecord {
+    /** The action ID (token prefix, e.g., "chat1") */
+    actionId: string;
+    /** The action's display name */
+    actionName: string;
+    /** The action type */
+    actionType: 'chat' | 'transcription' | 'http-request';
+    /** Whether the action succeeded */
+    success: boolean;
+    /** Error message if the action failed */
+    error?: string;
+    /** Prompt text after token replacement (chat actions) */
+    resolvedPrompt?: string;
+    /** Token values produced by the action */
+    tokens: Record<string, string>;
+    /** When the action started (ISO 8601) */
+    startedAt: string;
+    /** How long the action took in milliseconds */
+    durationMs: number;
+    /** True when the result was reused from an earlier run instead of executed */
+    cached?: boolean;
+    /** Provider usage and estimated cost of the action's requests */
+    usage?: UsageTotals;
+}
+
+/**
+ * Record of one workflow run, persisted in the run history.
+ */
+export interface WorkflowRunRecord {
+    /** Unique ID of this run */
+    id: string;
+    /** The workflow that was run */
+    workflowId: string;
+    /** The workflow's name at the time of the run */
+    workflowName: string;
+    /** When the run started (ISO 8601) */
+    startedAt: string;
+    /** When the run ended (ISO 8601) */
+    finishedAt?: string;
+    /** How the run ended */
+    status: RunStatus;
+    /** Error message if the run failed */
+    error?: string;
+    /** Actions executed, in order (dependency workflows are not included) */
+    actions: ActionRunRecord[];
+    /** Snapshot of selection, clipboard and active file taken at the start of the run */
+    context?: ContextTokenValues;
+    /** Results of the dependency workflows run first */
+    dependencyResults?: WorkflowExecutionResult[];
+    /** The text sent to the output handler */
+    output?: string;
+    /** Whether the output starts with frontmatter generated by the output template */
+    templateFrontmatter?: boolean;
+    /** Note title used for the output */
+    noteTitle?: string;
+    /** Note the output was added to (append-to-note output) */
+    targetPath?: string;
+    /** Provider usage and estimated cost of the run, including dependency workflows it ran */
+    usage?: UsageTotals;
+}
+
+/**
+ * Callback type for run history subscription listeners.
+ */
+export type RunHistoryListener = (records: WorkflowRunRecord[]) => void;
+
+/**
+ * Unsubscribe function returned when subscribing to run history updates.
+ */
+export type RunHistoryUnsubscribe = () => void;
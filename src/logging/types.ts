@@ -45,7 +45,8 @@ export const LogCategory = {
     INPUT: 'input',
     OUTPUT: 'output',
     VIDEO: 'video',
-    AUDIO: 'audio'
+    AUDIO: 'audio',
+    CHAT: 'chat'
 } as const;
 
 export type LogCategoryType = typeof LogCategory[keyof typeof LogCategory];
@@ -1,12 +1,25 @@
 import { Plugin } from 'obsidian';
-import { DEFAULT_SETTINGS, AIToolboxSettings, AIToolboxSettingTab, WorkflowConfig } from "./settings/index";
+import { AIToolboxSettings, AIToolboxSettingTab, WorkflowConfig, migrateSettings } from "./settings/index";
 import { WorkflowSuggesterModal } from "./components/workflow-suggester";
+import { WorkflowRunSuggesterModal } from "./components/workflow-run-suggester";
 import { executeWorkflow } from "./processing/workflow-executor";
+import { getActiveWorkflowRuns, cancelWorkflowRun } from "./processing/workflow-runs";
 import { VIEW_TYPE_LOG, LogPaneView, logInfo, logNotice, LogCategory } from "./logging";
+import { VIEW_TYPE_RUN_HISTORY, RunHistoryView, runHistory } from "./history";
+import { VIEW_TYPE_CHAT, ChatView } from "./chat";
+import { usageTracker } from "./usage";
+import { secretStore, migratePlaintextSecrets } from "./secrets";
+import { promptPassphrase } from "./components/passphrase-modal";
 
 // Command ID prefix for workflow commands
 const WORKFLOW_COMMAND_PREFIX = 'execute-workflow-';
 
+// Run history file name, stored in the plugin's data folder
+const RUN_HISTORY_FILE = 'run-history.json';
+
+// Usage data file name, stored in the plugin's data folder
+const USAGE_FILE = 'usage.json';
+
 export default class AIToolboxPlugin extends Plugin {
 	settings: AIToolboxSettings;
 	// Track registered workflow command IDs for cleanup
@@ -14,13 +27,17 @@ export default class AIToolboxPlugin extends Plugin {
 
 	async onload() {
 		await this.loadSettings();
+		await runHistory.load(this.app.vault.adapter, this.getDataFilePath(RUN_HISTORY_FILE));
+		await usageTracker.load(this.app.vault.adapter, this.getDataFilePath(USAGE_FILE));
 
-		// Register log view
+		// Register log, run history and chat views
 		this.registerView(VIEW_TYPE_LOG, (leaf) => new LogPaneView(leaf, this));
+		this.registerView(VIEW_TYPE_RUN_HISTORY, (leaf) => new RunHistoryView(leaf, this));
+		this.registerView(VIEW_TYPE_CHAT, (leaf) => new ChatView(leaf, this));
 
 		// Add ribbon icon for log view
 		this.addRibbonIcon('scroll-text', 'Show AI toolbox log', () => {
-			void this.activateLogView();
+			void this.activateView(VIEW_TYPE_LOG);
 		});
 
 		// Add command to execute custom workflows
@@ -30,12 +47,83 @@ export default class AIToolboxPlugin extends Plugin {
 			callback: () => this.showWorkflowSuggester()
 		});
 
+		// Add command to cancel a running workflow (only available while one is running)
+		this.addCommand({
+			id: 'cancel-workflow',
+			name: 'Cancel running workflow',
+			checkCallback: (checking) => {
+				if (getActiveWorkflowRuns().length === 0) {
+					return false;
+				}
+				if (!checking) {
+					this.cancelRunningWorkflow();
+				}
+				return true;
+			}
+		});
+
 		// Add command to show log view
 		this.addCommand({
 			id: 'show-log',
 			name: 'Show log',
 			callback: () => {
-				void this.activateLogView();
+				void this.activateView(VIEW_TYPE_LOG);
+			}
+		});
+
+		// Add command to show run history view
+		this.addCommand({
+			id: 'show-run-history',
+			name: 'Show run history',
+			callback: () => {
+				void this.activateView(VIEW_TYPE_RUN_HISTORY);
+			}
+		});
+
+		// Add command to open the chat view
+		this.addCommand({
+			id: 'open-chat',
+			name: 'Open chat',
+			callback: () => {
+				void this.activateView(VIEW_TYPE_CHAT);
+			}
+		});
+
+		// Add command to unlock passphrase-encrypted API keys (only available while locked)
+		this.addCommand({
+			id: 'unlock-api-keys',
+			name: 'Unlock API keys',
+			checkCallback: (checking) => {
+				if (!this.isSecretStorageLocked()) {
+					return false;
+				}
+				if (!checking) {
+					void this.unlockSecrets();
+				}
+				return true;
+			}
+		});
+
+		// Add command to lock API keys again (only available while unlocked)
+		this.addCommand({
+			id: 'lock-api-keys',
+			name: 'Lock API keys',
+			checkCallback: (checking) => {
+				if (this.settings.secretStorage !== 'passphrase' || !secretStore.isUnlocked()) {
+					return false;
+				}
+				if (!checking) {
+					secretStore.lock();
+					logNotice(LogCategory.PLUGIN, 'API keys locked');
+				}
+				return true;
+			}
+		});
+
+		// Ask for the passphrase once the workspace is ready
+		this.app.workspace.onLayoutReady(() => {
+			if (this.isSecretStorageLocked()) {
+				void this.unlockSecrets();
 			}
 		});
 
@@ -49,22 +137,34 @@ export default class AIToolboxPlugin extends Plugin {
 	}
 
 	onunload() {
+		// Stop any workflows still running so their child processes don't outlive the plugin
+		for (const run of getActiveWorkflowRuns()) {
+			cancelWorkflowRun(run);
+		}
 		// Log views are cleaned up automatically by Obsidian when the plugin unloads
 		// Workflow commands are also cleaned up automatically when the plugin unloads
 	}
 
 	/**
-	 * Activate and reveal the log view in the right sidebar.
+	 * Get the vault-relative path of a file in the plugin's data folder.
+	 */
+	private getDataFilePath(fileName: string): string {
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return `${pluginDir}/${fileName}`;
+	}
+
+	/**
+	 * Activate and reveal a plugin view (log, run history or chat) in the right sidebar.
 	 */
-	private async activateLogView(): Promise<void> {
+	private async activateView(viewType: string): Promise<void> {
 		const { workspace } = this.app;
-		let leaf = workspace.getLeavesOfType(VIEW_TYPE_LOG)[0];
+		let leaf = workspace.getLeavesOfType(viewType)[0];
 
 		if (!leaf) {
 			const rightLeaf = workspace.getRightLeaf(false);
 			if (rightLeaf) {
 				leaf = rightLeaf;
-				await leaf.setViewState({ type: VIEW_TYPE_LOG, active: true });
+				await leaf.setViewState({ type: viewType, active: true });
 			}
 		}
 
@@ -90,8 +190,81 @@ export default class AIToolboxPlugin extends Plugin {
 		modal.open();
 	}
 
+	/**
+	 * Cancel the running workflow, asking which one when several are running.
+	 */
+	private cancelRunningWorkflow(): void {
+		const runs = getActiveWorkflowRuns();
+
+		if (runs.length === 1 && runs[0]) {
+			cancelWorkflowRun(runs[0]);
+			return;
+		}
+
+		const modal = new WorkflowRunSuggesterModal(this.app, runs, (run) => {
+			cancelWorkflowRun(run);
+		});
+		modal.open();
+	}
+
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<AIToolboxSettings>);
+		// Upgrade settings saved by older versions and repair invalid entries
+		const { settings, changed } = migrateSettings(await this.loadData());
+		this.settings = settings;
+
+		// Keys saved before secure storage existed move to Obsidian's secret storage when available
+		secretStore.init(this.app);
+		if (!this.settings.secretStorage) {
+			this.settings.secretStorage = secretStore.isObsidianStorageAvailable() ? 'obsidian' : 'plaintext';
+		}
+		const moved = migratePlaintextSecrets(this.settings);
+		if (moved > 0) {
+			logInfo(LogCategory.PLUGIN, `Moved ${moved} API key${moved === 1 ? '' : 's'} out of plain text settings`);
+		}
+
+		if (changed || moved > 0) {
+			await this.saveData(this.settings);
+		}
+	}
+
+	/**
+	 * Whether API keys are passphrase-encrypted and the passphrase hasn't been entered.
+	 */
+	isSecretStorageLocked(): boolean {
+		return this.settings.secretStorage === 'passphrase' && !secretStore.isUnlocked();
+	}
+
+	/**
+	 * Ask for the passphrase and unlock API keys for this session.
+	 * Keys entered in plain text while locked are encrypted once unlocked.
+	 *
+	 * @returns True if API keys are unlocked
+	 */
+	async unlockSecrets(): Promise<boolean> {
+		const encryption = this.settings.secretEncryption;
+		if (!this.isSecretStorageLocked() || !encryption) {
+			return !this.isSecretStorageLocked();
+		}
+
+		const passphrase = await promptPassphrase(this.app, {
+			title: 'Unlock API keys',
+			description: 'Your API keys are encrypted. Enter the passphrase to use them this session.',
+			submitText: 'Unlock'
+		});
+		if (passphrase === null) {
+			return false;
+		}
+
+		if (!secretStore.unlock(passphrase, encryption)) {
+			logNotice(LogCategory.PLUGIN, 'Wrong passphrase. API keys are still locked.');
+			return false;
+		}
+
+		if (migratePlaintextSecrets(this.settings) > 0) {
+			await this.saveData(this.settings);
+		}
+		logNotice(LogCategory.PLUGIN, 'API keys unlocked');
+		return true;
 	}
 
 	async saveSettings() {
@@ -1,19 +1,35 @@
 import { App, TFile, requestUrl } from 'obsidian';
-import { AIToolboxSettings, ChatAction, TranscriptionAction, HttpRequestAction, WorkflowAction } from '../settings';
-import { createActionProvider, ChatMessage, TranscriptionOptions } from '../providers';
+import { Buffer } from 'buffer';
+import { AIToolboxSettings, ChatAction, TranscriptionAction, HttpRequestAction, HttpContentType, WorkflowAction, WorkflowConfig, PromptSourceType, ProviderModelSelection } from '../settings';
+import { createActionProvider, createProviderFromSelection, isRetryableError, ChatMessage, ChatOptions, ChatResponseFormat, ChatResult, ModelProvider, TranscriptionOptions, TranscriptionResult } from '../providers';
 import {
     InputContext,
+    InputHandler,
     InputResult,
-    TokenUrlInputHandler
+    TokenUrlInputHandler,
+    TokenFileInputHandler,
+    ContextResult,
+    createContextHandler,
+    CHAT_CONTEXT_TYPE_LABELS
 } from '../handlers';
 import {
     createChatWorkflowTokens,
     createTranscriptionWorkflowTokens,
     createHttpRequestWorkflowTokens,
+    createJsonExtractionTokens,
+    createStructuredOutputTokens,
     ContextTokenValues,
-    replaceWorkflowContextTokens
+    replaceWorkflowContextTokens,
+    replaceChatContextTokens
 } from './workflow-chaining';
-import { logInfo, logDebug, logNotice, LogCategory } from '../logging';
+import { getAudioDuration, transcribeAudioFile } from './audio-chunker';
+import { removeTemporaryDirectory } from './video-processor';
+import { isCancelledError, raceWithSignal } from '../utils/abort-utils';
+import { parseJsonText } from '../utils/json-path';
+import { JsonSchema, parseJsonSchema, validateJsonSchema } from '../utils/json-schema';
+import { logInfo, logDebug, logWarn, logNotice, LogCategory } from '../logging';
+import { secretStore } from '../secrets';
+import { MeasuredUsage, UsageTotals, addUsage, checkBudget, emptyUsage, estimateChatUsage, estimateTokenCount, usageTracker } from '../usage';
 
 /**
  * Result from executing a single action
@@ -29,6 +45,10 @@ export interface ActionExecutionResult {
     error?: string;
     /** Token values produced by this action */
     tokens: Record<string, string>;
+    /** Prompt text after token replacement (chat actions) */
+    resolvedPrompt?: string;
+    /** Provider usage and estimated cost of the action's requests (chat and transcription actions) */
+    usage?: UsageTotals;
     /** Additional metadata (e.g., for transcription note title) */
     metadata?: {
         noteTitle?: string;
@@ -51,19 +71,28 @@ export interface ActionExecutionContext {
     previousResults: ActionResultsMap;
     /** Results from dependency workflows */
     dependencyResults: Map<string, ActionExecutionResult>;
+    /** The workflow being executed */
+    workflow: WorkflowConfig;
     /** The workflow name (for logging) */
     workflowName: string;
     /** Workflow-level context values (clipboard, selection, etc.) gathered at workflow start */
     workflowContext: ContextTokenValues;
+    /** When set, chat responses are streamed and each delta is passed to this callback */
+    onChatDelta?: (delta: string) => void;
+    /** Cancels the action's requests and child processes when aborted */
+    signal?: AbortSignal;
 }
 
 /**
  * Replace action tokens in text with values from previous action results.
  * Tokens are in the format {{actionId.tokenName}}
+ *
+ * @param encode - Applied to each substituted value (e.g., to escape values inserted into JSON)
  */
 export function replaceActionTokens(
     text: string,
-    results: ActionResultsMap
+    results: ActionResultsMap,
+    encode: (value: string) => string = value => value
 ): string {
     const tokenPattern = /\{\{([a-zA-Z0-9_-]+)\.([a-zA-Z0-9_]+)\}\}/g;
 
@@ -78,7 +107,7 @@ export function replaceActionTokens(
             return match;
         }
 
-        return tokenValue;
+        return encode(tokenValue);
     });
 }
 
@@ -108,12 +137,12 @@ function resolveTokenValue(
         }
     }
 
-    // Check if it's a previous action token (e.g., 'chat1.response')
+    // Check if it's a previous action or dependency workflow token (e.g., 'chat1.response')
     const dotIndex = tokenName.indexOf('.');
     if (dotIndex > 0) {
         const actionId = tokenName.substring(0, dotIndex);
         const tokenKey = tokenName.substring(dotIndex + 1);
-        const actionResult = context.previousResults.get(actionId);
+        const actionResult = context.previousResults.get(actionId) ?? context.dependencyResults.get(actionId);
         if (actionResult) {
             return actionResult.tokens[tokenKey];
         }
@@ -123,33 +152,328 @@ function resolveTokenValue(
 }
 
 /**
- * Get the prompt text for a chat action, loading from file if needed.
+ * Load prompt text from its configured source, reading the file if needed.
+ *
+ * @param label - Prompt kind for notices (e.g., 'prompt', 'system prompt')
  */
-async function getPromptText(app: App, action: ChatAction): Promise<string | null> {
-    const sourceType = action.promptSourceType ?? 'inline';
-
+async function loadPromptSource(
+    app: App,
+    action: ChatAction,
+    sourceType: PromptSourceType,
+    inlineText: string,
+    filePath: string,
+    label: string
+): Promise<string | null> {
     if (sourceType === 'from-file') {
-        const filePath = action.promptFilePath;
-        if (!filePath || !filePath.trim()) {
-            logNotice(LogCategory.WORKFLOW, `Action "${action.name}" has no prompt file configured.`);
+        if (!filePath.trim()) {
+            logNotice(LogCategory.WORKFLOW, `Action "${action.name}" has no ${label} file configured.`);
             return null;
         }
 
         const file = app.vault.getAbstractFileByPath(filePath);
         if (!file || !(file instanceof TFile)) {
-            logNotice(LogCategory.WORKFLOW, `Prompt file "${filePath}" not found for action "${action.name}".`);
+            logNotice(LogCategory.WORKFLOW, `${label.charAt(0).toUpperCase()}${label.slice(1)} file "${filePath}" not found for action "${action.name}".`);
             return null;
         }
 
         try {
             return await app.vault.read(file);
         } catch (error) {
-            logNotice(LogCategory.WORKFLOW, `Failed to read prompt file: ${error instanceof Error ? error.message : String(error)}`);
+            logNotice(LogCategory.WORKFLOW, `Failed to read ${label} file: ${error instanceof Error ? error.message : String(error)}`);
             return null;
         }
     }
 
-    return action.promptText;
+    return inlineText;
+}
+
+/**
+ * Get the prompt text for a chat action, loading from file if needed.
+ */
+async function getPromptText(app: App, action: ChatAction): Promise<string | null> {
+    return loadPromptSource(
+        app,
+        action,
+        action.promptSourceType ?? 'inline',
+        action.promptText ?? '',
+        action.promptFilePath ?? '',
+        'prompt'
+    );
+}
+
+/**
+ * Get the system prompt for a chat action, loading from file if needed.
+ * Returns an empty string when no system prompt is configured.
+ */
+async function getSystemPromptText(app: App, action: ChatAction): Promise<string | null> {
+    return loadPromptSource(
+        app,
+        action,
+        action.systemPromptSourceType ?? 'inline',
+        action.systemPromptText ?? '',
+        action.systemPromptFilePath ?? '',
+        'system prompt'
+    );
+}
+
+/**
+ * Content gathered from a chat action's configured context sources
+ */
+interface GatheredChatContexts {
+    /** Token values from all context handlers (e.g., activeTabContent) */
+    tokens: Record<string, string>;
+    /** Labeled content sections for the optional preamble message */
+    sections: string[];
+}
+
+/**
+ * Gather content from each context configured on a chat action.
+ *
+ * @throws Error naming the failing context when a handler cannot provide its content
+ */
+async function gatherChatContexts(
+    action: ChatAction,
+    context: ActionExecutionContext
+): Promise<GatheredChatContexts> {
+    const gathered: GatheredChatContexts = { tokens: {}, sections: [] };
+
+    for (const contextConfig of action.contexts ?? []) {
+        const label = CHAT_CONTEXT_TYPE_LABELS[contextConfig.type];
+        const handler = createContextHandler(contextConfig.type);
+
+        let result: ContextResult;
+        try {
+            result = await handler.getContent({ app: context.app, workflow: context.workflow });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`${label} context failed: ${errorMessage}`);
+        }
+
+        if (!result.success) {
+            throw new Error(`${label} context failed: ${result.error ?? 'Unknown error'}`);
+        }
+
+        Object.assign(gathered.tokens, result.tokens);
+        gathered.sections.push(`## ${label}\n\n${result.content}`);
+        logDebug(LogCategory.WORKFLOW, `Gathered ${label} context for action: ${action.name}`);
+    }
+
+    return gathered;
+}
+
+/**
+ * Replace action, dependency, workflow context and chat context tokens in prompt text.
+ */
+function replacePromptTokens(
+    text: string,
+    context: ActionExecutionContext,
+    chatContextTokens: Record<string, string> = {}
+): string {
+    let result = text;
+
+    // Replace tokens from previous actions
+    if (context.previousResults.size > 0) {
+        result = replaceActionTokens(result, context.previousResults);
+    }
+
+    // Replace tokens from dependency workflows
+    if (context.dependencyResults.size > 0) {
+        result = replaceActionTokens(result, context.dependencyResults);
+    }
+
+    // Replace workflow context tokens ({{workflow.selection}}, {{workflow.clipboard}}, etc.)
+    result = replaceWorkflowContextTokens(result, context.workflowContext);
+
+    // Replace chat context tokens ({{selection}}, {{activeTabContent}}, etc.)
+    return replaceChatContextTokens(result, chatContextTokens);
+}
+
+/**
+ * Build chat request options from a chat action's configured parameters.
+ */
+function getChatOptions(action: ChatAction): ChatOptions {
+    const options: ChatOptions = {};
+    if (action.temperature !== undefined) {
+        options.temperature = action.temperature;
+    }
+    if (action.maxTokens !== undefined) {
+        options.maxTokens = action.maxTokens;
+    }
+    if (action.topP !== undefined) {
+        options.topP = action.topP;
+    }
+    const stopSequences = action.stopSequences?.filter(s => s.length > 0);
+    if (stopSequences && stopSequences.length > 0) {
+        options.stopSequences = stopSequences;
+    }
+    return options;
+}
+
+/**
+ * A model in a chat action's fallback chain
+ */
+interface ChatCandidate {
+    selection: ProviderModelSelection;
+    provider: ModelProvider;
+    /** Provider name, exposed as a token when this model answers */
+    providerName: string;
+    /** Model ID sent to the API, exposed as a token when this model answers */
+    modelName: string;
+}
+
+/**
+ * Describe a provider/model selection using the names from settings.
+ */
+function toChatCandidate(settings: AIToolboxSettings, selection: ProviderModelSelection, provider: ModelProvider): ChatCandidate {
+    const providerConfig = settings.providers.find(p => p.id === selection.providerId);
+    const model = providerConfig?.models.find(m => m.id === selection.modelId);
+    return {
+        selection,
+        provider,
+        providerName: providerConfig?.name ?? selection.providerId,
+        modelName: model?.modelId || model?.deploymentName || model?.name || selection.modelId
+    };
+}
+
+/**
+ * Resolve a chat action's fallback models to providers.
+ * Fallbacks that are unset, no longer exist or can't chat are skipped with a warning.
+ */
+function getFallbackCandidates(action: ChatAction, settings: AIToolboxSettings): ChatCandidate[] {
+    const candidates: ChatCandidate[] = [];
+
+    for (const [index, selection] of (action.fallbackProviders ?? []).entries()) {
+        if (!selection.providerId || !selection.modelId) {
+            continue;
+        }
+
+        let provider: ModelProvider | null;
+        try {
+            provider = createProviderFromSelection(settings, selection);
+        } catch (error) {
+            logWarn(LogCategory.WORKFLOW, `Chat action "${action.name}": skipping fallback ${index + 1}`, error);
+            continue;
+        }
+
+        if (!provider || !provider.supportsChat()) {
+            logWarn(LogCategory.WORKFLOW, `Chat action "${action.name}": skipping fallback ${index + 1}, which is not a chat model in settings`);
+            continue;
+        }
+        candidates.push(toChatCandidate(settings, selection, provider));
+    }
+
+    return candidates;
+}
+
+/**
+ * Send a chat request, moving on to the next model in the chain when one fails
+ * with a network error, rate limit or server error (after its own retries).
+ * Each model's budget is checked before it is tried. A model that already
+ * streamed part of a response is not replaced, since the output can't be taken back.
+ * Usage the provider doesn't report (including a stream that is cancelled or fails
+ * partway) is recorded as an estimate from the prompt and the text received.
+ *
+ * @returns The response and the model that produced it
+ * @throws The error of the last model tried, a non-transient error, or the budget limit that was reached
+ */
+async function sendChatWithFallback(
+    candidates: ChatCandidate[],
+    messages: ChatMessage[],
+    options: ChatOptions,
+    onDelta: ((delta: string) => void) | undefined,
+    context: ActionExecutionContext,
+    actionName: string,
+    usage: UsageTotals
+): Promise<{ result: ChatResult; candidate: ChatCandidate }> {
+    const promptText = messages.map(m => m.content).join('\n');
+    const estimate = {
+        promptTokens: estimateTokenCount(promptText),
+        completionTokens: options.maxTokens
+    };
+
+    for (const [index, candidate] of candidates.entries()) {
+        const budgetError = await checkBudget(context.app, context.settings, candidate.selection, estimate);
+        if (budgetError) {
+            throw new Error(budgetError);
+        }
+
+        let received = '';
+        try {
+            const result = onDelta
+                ? await streamChatResponse(candidate.provider, messages, options, (delta) => {
+                    received += delta;
+                    onDelta(delta);
+                })
+                : await candidate.provider.sendChat(messages, options);
+            trackUsage(context, candidate.selection, result.usage ?? estimateChatUsage(promptText, result.content), usage);
+            return { result, candidate };
+        } catch (error) {
+            // Streamed text is billed even when the response is cancelled or fails partway
+            if (received) {
+                trackUsage(context, candidate.selection, estimateChatUsage(promptText, received), usage);
+            }
+            const next = candidates[index + 1];
+            if (!next || received || !isRetryableError(error)) {
+                throw error;
+            }
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logWarn(LogCategory.WORKFLOW, `Chat action "${actionName}": ${candidate.providerName} (${candidate.modelName}) failed (${errorMessage}); falling back to ${next.providerName} (${next.modelName})`);
+        }
+    }
+
+    throw new Error('No provider configured');
+}
+
+/**
+ * Record a provider request's usage against the action's workflow and add it to the action's totals.
+ */
+function trackUsage(
+    context: ActionExecutionContext,
+    selection: ProviderModelSelection,
+    measured: MeasuredUsage,
+    totals: UsageTotals
+): void {
+    const source = { ...selection, workflowId: context.workflow.id, workflowName: context.workflow.name };
+    addUsage(totals, usageTracker.record(context.settings, source, measured));
+}
+
+/**
+ * Stream a chat response, forwarding each delta and collecting the full result.
+ */
+async function streamChatResponse(
+    provider: ModelProvider,
+    messages: ChatMessage[],
+    options: ChatOptions,
+    onDelta: (delta: string) => void
+): Promise<ChatResult> {
+    const result: ChatResult = { content: '' };
+
+    for await (const delta of provider.streamChat(messages, options)) {
+        if (delta.content) {
+            result.content += delta.content;
+            onDelta(delta.content);
+        }
+        if (delta.usage) {
+            result.usage = delta.usage;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Parse a structured response and check it against the schema.
+ *
+ * @returns The parsed value and any validation errors (empty when valid)
+ */
+function checkStructuredResponse(content: string, schema: JsonSchema): { value: unknown; errors: string[] } {
+    try {
+        const value = parseJsonText(content);
+        return { value, errors: validateJsonSchema(value, schema) };
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { value: undefined, errors: [`response is not valid JSON (${errorMessage})`] };
+    }
 }
 
 /**
@@ -170,7 +494,13 @@ export async function executeChatAction(
         return { ...baseResult, error: 'No provider configured' };
     }
 
-    const provider = createActionProvider(context.settings, action);
+    let provider: ModelProvider | null;
+    try {
+        provider = createActionProvider(context.settings, action);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { ...baseResult, error: errorMessage };
+    }
     if (!provider) {
         return { ...baseResult, error: 'Provider not found' };
     }
@@ -179,42 +509,106 @@ export async function executeChatAction(
         return { ...baseResult, error: 'Provider does not support chat' };
     }
 
-    let promptText = await getPromptText(context.app, action);
-    if (promptText === null) {
-        return { ...baseResult, error: 'Failed to load prompt text' };
+    let chatContexts: GatheredChatContexts;
+    try {
+        chatContexts = await gatherChatContexts(action, context);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { ...baseResult, error: errorMessage };
     }
 
-    // Replace tokens from previous actions
-    if (context.previousResults.size > 0) {
-        promptText = replaceActionTokens(promptText, context.previousResults);
+    const rawPromptText = await getPromptText(context.app, action);
+    if (rawPromptText === null) {
+        return { ...baseResult, error: 'Failed to load prompt text' };
     }
 
-    // Replace tokens from dependency workflows
-    if (context.dependencyResults.size > 0) {
-        promptText = replaceActionTokens(promptText, context.dependencyResults);
+    const promptText = replacePromptTokens(rawPromptText, context, chatContexts.tokens);
+    if (!promptText.trim()) {
+        return { ...baseResult, error: 'Empty prompt text' };
     }
+    baseResult.resolvedPrompt = promptText;
 
-    // Replace workflow context tokens ({{workflow.selection}}, {{workflow.clipboard}}, etc.)
-    promptText = replaceWorkflowContextTokens(promptText, context.workflowContext);
+    const rawSystemPrompt = await getSystemPromptText(context.app, action);
+    if (rawSystemPrompt === null) {
+        return { ...baseResult, error: 'Failed to load system prompt' };
+    }
+    const systemPrompt = replacePromptTokens(rawSystemPrompt, context, chatContexts.tokens);
 
-    if (!promptText.trim()) {
-        return { ...baseResult, error: 'Empty prompt text' };
+    let responseFormat: ChatResponseFormat | undefined;
+    if (action.responseSchema?.trim()) {
+        try {
+            responseFormat = { name: 'response', schema: parseJsonSchema(action.responseSchema) };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return { ...baseResult, error: `Invalid response schema: ${errorMessage}` };
+        }
     }
 
+    const candidates = [toChatCandidate(context.settings, action.provider, provider), ...getFallbackCandidates(action, context.settings)];
+    const usage = emptyUsage();
+    baseResult.usage = usage;
+
     try {
         logDebug(LogCategory.WORKFLOW, `Executing chat action: ${action.name}`);
 
-        const messages: ChatMessage[] = [
-            { role: 'user', content: promptText }
-        ];
-
-        const result = await provider.sendChat(messages);
+        const messages: ChatMessage[] = [];
+        if (systemPrompt.trim()) {
+            messages.push({ role: 'system', content: systemPrompt });
+        }
+        if (action.includeContextsAsPreamble && chatContexts.sections.length > 0) {
+            messages.push({ role: 'user', content: chatContexts.sections.join('\n\n') });
+        }
+        messages.push({ role: 'user', content: promptText });
+
+        const options: ChatOptions = { ...getChatOptions(action), responseFormat, signal: context.signal };
+        // Structured responses may need a retry, so only free-form text is streamed
+        const onDelta = responseFormat ? undefined : context.onChatDelta;
+        const answer = await sendChatWithFallback(candidates, messages, options, onDelta, context, action.name, usage);
+        const { candidate } = answer;
+        let result = answer.result;
+
+        let structuredTokens: Record<string, string> = {};
+        if (responseFormat) {
+            let check = checkStructuredResponse(result.content, responseFormat.schema);
+            if (check.errors.length > 0) {
+                logWarn(LogCategory.WORKFLOW, `Chat action "${action.name}" response does not match the schema; retrying once`, check.errors);
+                const retryMessages: ChatMessage[] = [
+                    ...messages,
+                    { role: 'assistant', content: result.content },
+                    {
+                        role: 'user',
+                        content: `Your response did not match the required JSON schema:\n${check.errors.join('\n')}\n\nReply again with only JSON that matches the schema.`
+                    }
+                ];
+                // Retry with the model that answered, since it understood the request
+                const retryPromptText = retryMessages.map(m => m.content).join('\n');
+                const budgetError = await checkBudget(context.app, context.settings, candidate.selection, {
+                    promptTokens: estimateTokenCount(retryPromptText),
+                    completionTokens: options.maxTokens
+                });
+                if (budgetError) {
+                    throw new Error(budgetError);
+                }
+                result = await candidate.provider.sendChat(retryMessages, options);
+                trackUsage(context, candidate.selection, result.usage ?? estimateChatUsage(retryPromptText, result.content), usage);
+                check = checkStructuredResponse(result.content, responseFormat.schema);
+                if (check.errors.length > 0) {
+                    return { ...baseResult, error: `Response does not match the schema: ${check.errors.join('; ')}` };
+                }
+            }
+            structuredTokens = createStructuredOutputTokens(check.value);
+        }
         logInfo(LogCategory.WORKFLOW, `Chat action completed: ${action.name}`);
 
+        // Built-in tokens take precedence over response fields with the same name
+        const tokens = {
+            ...structuredTokens,
+            ...createChatWorkflowTokens(promptText, result.content, candidate.providerName, candidate.modelName)
+        };
         return {
             ...baseResult,
             success: true,
-            tokens: createChatWorkflowTokens(promptText, result.content)
+            tokens: { ...tokens, ...createJsonExtractionTokens(action.jsonExtractions, result.content, tokens) }
         };
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -222,6 +616,31 @@ export async function executeChatAction(
     }
 }
 
+/**
+ * Read the length of audio to transcribe with ffprobe, for budget checks and usage tracking.
+ *
+ * @returns The duration in seconds, or undefined when ffprobe is unavailable
+ */
+async function measureAudioSeconds(audioFilePath: string, context: ActionExecutionContext): Promise<number | undefined> {
+    try {
+        return await getAudioDuration(audioFilePath, context.settings.ffmpegLocation, context.signal);
+    } catch (error) {
+        if (isCancelledError(error)) {
+            throw error;
+        }
+        logDebug(LogCategory.TRANSCRIPTION, 'Could not read audio duration; usage will be based on the transcript length', error);
+        return undefined;
+    }
+}
+
+/**
+ * Get the end time of the last transcribed segment, used as the audio length when ffprobe is unavailable.
+ */
+function getTranscriptSeconds(result: TranscriptionResult): number {
+    const lastChunk = result.chunks[result.chunks.length - 1];
+    return lastChunk ? (lastChunk.timestamp[1] ?? lastChunk.timestamp[0]) : 0;
+}
+
 /**
  * Execute a transcription action and return the result.
  */
@@ -240,7 +659,13 @@ export async function executeTranscriptionAction(
         return { ...baseResult, error: 'No provider configured' };
     }
 
-    const provider = createActionProvider(context.settings, action);
+    let provider: ModelProvider | null;
+    try {
+        provider = createActionProvider(context.settings, action);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { ...baseResult, error: errorMessage };
+    }
     if (!provider) {
         return { ...baseResult, error: 'Provider not found' };
     }
@@ -249,21 +674,29 @@ export async function executeTranscriptionAction(
         return { ...baseResult, error: 'Provider does not support transcription' };
     }
 
-    // Resolve the source URL from the configured token
-    const sourceUrlToken = action.transcriptionContext?.sourceUrlToken ?? 'workflow.clipboard';
-    const sourceUrl = resolveTokenValue(sourceUrlToken, context);
+    const mediaType = action.transcriptionContext.mediaType;
 
-    if (!sourceUrl || !sourceUrl.trim()) {
-        return { ...baseResult, error: `No URL found in token {{${sourceUrlToken}}}` };
-    }
+    // Resolve the source URL or file path from the configured token
+    const sourceUrlToken = action.transcriptionContext.sourceUrlToken ?? 'workflow.clipboard';
+    const sourceValue = resolveTokenValue(sourceUrlToken, context);
 
-    // Get per-action browser/cookie settings (required, with defaults)
-    const extractionSettings = {
-        impersonateBrowser: action.transcriptionContext?.impersonateBrowser ?? 'chrome',
-        useBrowserCookies: action.transcriptionContext?.useBrowserCookies ?? false
-    };
+    if (!sourceValue || !sourceValue.trim()) {
+        const sourceKind = mediaType === 'audio-file' ? 'file path' : 'URL';
+        return { ...baseResult, error: `No ${sourceKind} found in token {{${sourceUrlToken}}}` };
+    }
 
-    const inputHandler = new TokenUrlInputHandler(sourceUrl, extractionSettings);
+    let inputHandler: InputHandler;
+    if (mediaType === 'audio-file') {
+        // Wiki-links resolve relative to the note that was active when the workflow started
+        inputHandler = new TokenFileInputHandler(sourceValue, context.workflowContext.filePath);
+    } else {
+        // Get per-action browser/cookie settings (required, with defaults)
+        const extractionSettings = {
+            impersonateBrowser: action.transcriptionContext.impersonateBrowser ?? 'chrome',
+            useBrowserCookies: action.transcriptionContext.useBrowserCookies ?? false
+        };
+        inputHandler = new TokenUrlInputHandler(sourceValue, extractionSettings);
+    }
 
     // Create a minimal workflow-like object for InputContext compatibility
     const inputContext: InputContext = {
@@ -276,15 +709,24 @@ export async function executeTranscriptionAction(
             outputType: 'popup',
             outputFolder: '',
             showInCommandPalette: false
-        }
+        },
+        signal: context.signal
     };
 
+    let inputResult: InputResult | null = null;
+    const usage = emptyUsage();
     try {
         logDebug(LogCategory.TRANSCRIPTION, `Executing transcription action: ${action.name}`);
 
-        const inputResult = await inputHandler.getInput(inputContext);
+        inputResult = await inputHandler.getInput(inputContext);
         if (!inputResult) {
-            return { ...baseResult, error: 'Failed to extract audio from URL' };
+            return { ...baseResult, error: mediaType === 'audio-file' ? 'Failed to load audio file' : 'Failed to extract audio from URL' };
+        }
+
+        const measuredSeconds = await measureAudioSeconds(inputResult.audioFilePath, context);
+        const budgetError = await checkBudget(context.app, context.settings, action.provider, { audioSeconds: measuredSeconds });
+        if (budgetError) {
+            return { ...baseResult, error: budgetError };
         }
 
         logNotice(LogCategory.TRANSCRIPTION, `Transcribing audio...`);
@@ -292,12 +734,21 @@ export async function executeTranscriptionAction(
         const timestampGranularity = action.timestampGranularity ?? 'disabled';
         const transcriptionOptions: TranscriptionOptions = {
             timestampGranularity,
-            language: action.language || undefined
+            language: action.language || undefined,
+            signal: context.signal
         };
 
-        const transcriptionResult = await provider.transcribeAudio(inputResult.audioFilePath, transcriptionOptions);
+        const transcriptionResult = await transcribeAudioFile(provider, inputResult.audioFilePath, transcriptionOptions, {
+            ffmpegLocation: context.settings.ffmpegLocation,
+            maxChunkDurationSeconds: context.settings.transcriptionChunkMinutes * 60,
+            overlapSeconds: context.settings.transcriptionChunkOverlapSeconds,
+            concurrency: context.settings.transcriptionChunkConcurrency
+        });
         logInfo(LogCategory.TRANSCRIPTION, `Transcription action completed: ${action.name}`);
 
+        const audioSeconds = measuredSeconds ?? getTranscriptSeconds(transcriptionResult);
+        trackUsage(context, action.provider, { audioSeconds }, usage);
+
         const tokenMetadata = {
             ...inputResult.metadata,
             sourceUrl: inputResult.sourceUrl
@@ -306,6 +757,7 @@ export async function executeTranscriptionAction(
         return {
             ...baseResult,
             success: true,
+            usage,
             tokens: createTranscriptionWorkflowTokens(transcriptionResult, tokenMetadata, timestampGranularity),
             metadata: {
                 inputResult
@@ -314,9 +766,64 @@ export async function executeTranscriptionAction(
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         return { ...baseResult, error: errorMessage };
+    } finally {
+        // Downloaded audio is only needed by this action, however it ends
+        if (inputResult?.temporaryDirectory) {
+            await removeTemporaryDirectory(inputResult.temporaryDirectory);
+        }
+    }
+}
+
+/**
+ * Get the escaping applied to token values inserted into a request body,
+ * so values containing quotes or newlines can't break the body format.
+ */
+function getBodyValueEncoder(contentType: HttpContentType): (value: string) => string {
+    switch (contentType) {
+        case 'application/json':
+            // Escape as the inside of a JSON string; the template supplies the quotes
+            return value => JSON.stringify(value).slice(1, -1);
+        case 'application/x-www-form-urlencoded':
+            return value => encodeURIComponent(value);
+        default:
+            return value => value;
     }
 }
 
+/**
+ * Replace action, dependency and workflow context tokens in an HTTP request template.
+ */
+function replaceRequestTokens(
+    text: string,
+    context: ActionExecutionContext,
+    encode?: (value: string) => string
+): string {
+    let result = replaceActionTokens(text, context.previousResults, encode);
+    result = replaceActionTokens(result, context.dependencyResults, encode);
+    return replaceWorkflowContextTokens(result, context.workflowContext, encode);
+}
+
+/**
+ * Build the request headers for an HTTP request action, including authentication.
+ */
+function buildRequestHeaders(action: HttpRequestAction, context: ActionExecutionContext): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(action.headers ?? {})) {
+        headers[name] = replaceRequestTokens(value, context);
+    }
+
+    const auth = action.auth;
+    if (auth?.type === 'bearer' && auth.bearerToken) {
+        headers['Authorization'] = `Bearer ${secretStore.resolve(auth.bearerToken)}`;
+    } else if (auth?.type === 'basic' && (auth.username || auth.password)) {
+        const password = secretStore.resolve(auth.password ?? '');
+        const credentials = Buffer.from(`${auth.username ?? ''}:${password}`).toString('base64');
+        headers['Authorization'] = `Basic ${credentials}`;
+    }
+
+    return headers;
+}
+
 /**
  * Execute an HTTP request action and return the result.
  */
@@ -339,20 +846,36 @@ export async function executeHttpRequestAction(
         return { ...baseResult, error: `No URL found in token {{${sourceUrlToken}}}` };
     }
 
+    const method = action.method ?? 'GET';
+    const contentType = action.contentType ?? 'application/json';
+    const body = method !== 'GET' && action.bodyTemplate
+        ? replaceRequestTokens(action.bodyTemplate, context, getBodyValueEncoder(contentType))
+        : undefined;
+
     try {
-        logDebug(LogCategory.WORKFLOW, `Executing HTTP request action: ${action.name} -> ${url}`);
+        logDebug(LogCategory.WORKFLOW, `Executing HTTP request action: ${action.name} -> ${method} ${url}`);
 
-        const response = await requestUrl({
+        const response = await raceWithSignal(requestUrl({
             url: url.trim(),
-            method: 'GET'
-        });
+            method,
+            headers: buildRequestHeaders(action, context),
+            body,
+            contentType: body !== undefined ? contentType : undefined,
+            throw: false
+        }), context.signal);
 
         logInfo(LogCategory.WORKFLOW, `HTTP request completed: ${action.name} (status: ${response.status})`);
 
+        if ((response.status < 200 || response.status >= 300) && !action.allowErrorStatus) {
+            const detail = response.text.trim().substring(0, 200);
+            return { ...baseResult, error: `Request failed with status ${response.status}${detail ? `: ${detail}` : ''}` };
+        }
+
+        const tokens = createHttpRequestWorkflowTokens(url.trim(), response.status, response.text);
         return {
             ...baseResult,
             success: true,
-            tokens: createHttpRequestWorkflowTokens(url.trim(), response.status, response.text)
+            tokens: { ...tokens, ...createJsonExtractionTokens(action.jsonExtractions, response.text, tokens) }
         };
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,390 @@
+import { spawn } from 'child_process';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { Buffer } from 'buffer';
+import type { ModelProvider, TranscriptionOptions, TranscriptionResult, TranscriptionChunk } from '../providers';
+import type { TranscriptionWord } from './audio-processor';
+import { logDebug, logInfo, LogCategory } from '../logging';
+import { CancelledError, throwIfCancelled } from '../utils/abort-utils';
+
+/**
+ * Maximum upload size accepted by Whisper-style transcription APIs
+ */
+export const MAX_TRANSCRIPTION_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Chunks are re-encoded as mono speech-quality mp3 so their size is predictable
+const CHUNK_SAMPLE_RATE = 16000;
+const CHUNK_BITRATE_KBPS = 64;
+
+// Leave headroom below the upload limit for multipart overhead and bitrate variance
+const CHUNK_SIZE_SAFETY_FACTOR = 0.9;
+
+// Maximum number of words compared when removing duplicated text at chunk boundaries
+const MAX_TEXT_OVERLAP_WORDS = 50;
+
+/**
+ * Options for splitting and transcribing long audio
+ */
+export interface AudioChunkingOptions {
+    /** Directory containing ffmpeg/ffprobe (empty to use system PATH) */
+    ffmpegLocation?: string;
+    /** Maximum chunk duration in seconds */
+    maxChunkDurationSeconds: number;
+    /** Seconds of audio shared between consecutive chunks */
+    overlapSeconds: number;
+    /** Maximum number of chunks uploaded at the same time */
+    concurrency: number;
+    /** Maximum upload size in bytes (defaults to MAX_TRANSCRIPTION_UPLOAD_BYTES) */
+    maxChunkBytes?: number;
+}
+
+/**
+ * A chunk of a longer audio file, written to a temporary file
+ */
+export interface AudioChunk {
+    /** Path to the chunk's audio file */
+    filePath: string;
+    /** Position of the chunk's start in the original audio (seconds) */
+    startOffset: number;
+    /** Duration of the chunk including overlap (seconds) */
+    duration: number;
+}
+
+/**
+ * Result from splitting an audio file
+ */
+interface SplitAudioResult {
+    /** Temporary directory holding the chunk files */
+    directory: string;
+    chunks: AudioChunk[];
+}
+
+/**
+ * Resolve an ffmpeg-suite binary from the configured directory or system PATH.
+ */
+function getBinaryPath(name: 'ffmpeg' | 'ffprobe', location?: string): string {
+    return location ? path.join(location, name) : name;
+}
+
+/**
+ * Run an ffmpeg-suite binary and resolve with its stdout.
+ * The process is killed if the signal aborts.
+ */
+function runBinary(command: string, args: string[], signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+
+        const proc = spawn(command, args, {
+            shell: false,
+        });
+
+        let stdout = '';
+        let stderr = '';
+
+        const onAbort = () => {
+            proc.kill();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        proc.stdout.on('data', (data: Buffer) => {
+            stdout += data.toString();
+        });
+
+        proc.stderr.on('data', (data: Buffer) => {
+            stderr += data.toString();
+        });
+
+        proc.on('close', (code) => {
+            signal?.removeEventListener('abort', onAbort);
+            if (signal?.aborted) {
+                reject(new CancelledError());
+                return;
+            }
+
+            if (code === 0) {
+                resolve(stdout);
+            } else {
+                reject(new Error(`${path.basename(command)} exited with code ${code}: ${stderr}`));
+            }
+        });
+
+        proc.on('error', (err) => {
+            signal?.removeEventListener('abort', onAbort);
+            reject(new Error(`Failed to start ${path.basename(command)}: ${err.message}. Is FFmpeg installed?`));
+        });
+    });
+}
+
+/**
+ * Check whether an audio file is too large to upload in a single request.
+ */
+export function needsChunking(audioFilePath: string, maxBytes = MAX_TRANSCRIPTION_UPLOAD_BYTES): boolean {
+    return fs.statSync(audioFilePath).size > maxBytes;
+}
+
+/**
+ * Get the duration of an audio file in seconds using ffprobe.
+ */
+export async function getAudioDuration(audioFilePath: string, ffmpegLocation?: string, signal?: AbortSignal): Promise<number> {
+    const output = await runBinary(getBinaryPath('ffprobe', ffmpegLocation), [
+        '-v', 'error',
+        '-show_entries', 'format=duration',
+        '-of', 'default=noprint_wrappers=1:nokey=1',
+        audioFilePath,
+    ], signal);
+
+    const duration = parseFloat(output.trim());
+    if (isNaN(duration) || duration <= 0) {
+        throw new Error(`Could not determine audio duration for ${audioFilePath}`);
+    }
+    return duration;
+}
+
+/**
+ * Split an audio file into overlapping chunks that each fit under the upload limit.
+ * The chunk length is the smaller of the configured duration and the longest
+ * duration that fits in the size limit at the chunk bitrate.
+ *
+ * @returns The temporary directory and chunks; remove with cleanupAudioChunks
+ */
+async function splitAudio(audioFilePath: string, options: AudioChunkingOptions, signal?: AbortSignal): Promise<SplitAudioResult> {
+    const totalDuration = await getAudioDuration(audioFilePath, options.ffmpegLocation, signal);
+
+    const maxBytes = options.maxChunkBytes ?? MAX_TRANSCRIPTION_UPLOAD_BYTES;
+    const bytesPerSecond = (CHUNK_BITRATE_KBPS * 1000) / 8;
+    const maxDurationForSize = (maxBytes * CHUNK_SIZE_SAFETY_FACTOR) / bytesPerSecond;
+    const overlap = Math.max(0, options.overlapSeconds);
+    // Each chunk carries the overlap on top of its own span, so both must fit
+    const chunkSpan = Math.min(options.maxChunkDurationSeconds, maxDurationForSize) - overlap;
+    if (chunkSpan <= 0) {
+        throw new Error('Chunk overlap must be shorter than the chunk duration');
+    }
+
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ai-toolbox-chunks-'));
+    const chunks: AudioChunk[] = [];
+    const ffmpegPath = getBinaryPath('ffmpeg', options.ffmpegLocation);
+
+    try {
+        // Stop once the previous chunk's overlap already reaches the end of the audio
+        for (let start = 0, index = 0; index === 0 || start + overlap < totalDuration; start += chunkSpan, index++) {
+            const duration = Math.min(chunkSpan + overlap, totalDuration - start);
+            const filePath = path.join(directory, `chunk-${index.toString().padStart(3, '0')}.mp3`);
+
+            logDebug(LogCategory.TRANSCRIPTION, `Creating audio chunk ${index + 1} at ${start.toFixed(1)}s (${duration.toFixed(1)}s)`);
+            await runBinary(ffmpegPath, [
+                '-hide_banner',
+                '-loglevel', 'error',
+                '-y',
+                '-ss', start.toFixed(3),
+                '-t', duration.toFixed(3),
+                '-i', audioFilePath,
+                '-vn',
+                '-ac', '1',
+                '-ar', String(CHUNK_SAMPLE_RATE),
+                '-b:a', `${CHUNK_BITRATE_KBPS}k`,
+                filePath,
+            ], signal);
+
+            chunks.push({ filePath, startOffset: start, duration });
+        }
+    } catch (error) {
+        await cleanupAudioChunks(directory);
+        throw error;
+    }
+
+    return { directory, chunks };
+}
+
+/**
+ * Remove the temporary directory holding audio chunks.
+ */
+async function cleanupAudioChunks(directory: string): Promise<void> {
+    try {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    } catch (error) {
+        console.warn('Failed to remove audio chunks:', error);
+    }
+}
+
+/**
+ * Run tasks with at most `limit` in flight, preserving result order.
+ * Once a task fails no new tasks start, and the first error is thrown only after
+ * the tasks already in flight have settled (so their files can be cleaned up safely).
+ */
+async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+    const results: T[] = new Array<T>(tasks.length);
+    let nextIndex = 0;
+    const errors: unknown[] = [];
+
+    const worker = async () => {
+        while (errors.length === 0 && nextIndex < tasks.length) {
+            const index = nextIndex++;
+            const task = tasks[index];
+            if (task) {
+                try {
+                    results[index] = await task();
+                } catch (error) {
+                    errors.push(error);
+                }
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(Math.floor(limit), tasks.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+    if (errors.length > 0) {
+        throw errors[0];
+    }
+    return results;
+}
+
+/**
+ * Normalize a word for overlap comparison (case and punctuation insensitive).
+ */
+function normalizeWord(word: string): string {
+    return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Join two transcription texts, dropping words at the start of `next` that
+ * repeat the end of `previous` (the audio both chunks share).
+ */
+function mergeOverlappingText(previous: string, next: string): string {
+    const previousWords = previous.trim().split(/\s+/).filter(Boolean);
+    const nextWords = next.trim().split(/\s+/).filter(Boolean);
+    const maxOverlap = Math.min(MAX_TEXT_OVERLAP_WORDS, previousWords.length, nextWords.length);
+
+    let overlapWords = 0;
+    for (let length = maxOverlap; length > 0; length--) {
+        const tail = previousWords.slice(-length).map(normalizeWord);
+        const head = nextWords.slice(0, length).map(normalizeWord);
+        if (tail.every((word, i) => word === head[i])) {
+            overlapWords = length;
+            break;
+        }
+    }
+
+    const remaining = nextWords.slice(overlapWords).join(' ');
+    if (!previous.trim()) {
+        return remaining;
+    }
+    return remaining ? `${previous.trim()} ${remaining}` : previous.trim();
+}
+
+/**
+ * Combine chunk transcriptions into a single result.
+ * Timestamps are shifted by each chunk's offset. Within the shared audio
+ * between two chunks, the earlier chunk keeps everything before the midpoint
+ * and the later chunk everything after, so nothing is duplicated.
+ *
+ * @param results - Chunk transcriptions in chunk order
+ * @param chunks - The chunks the results came from
+ * @param overlapSeconds - Overlap used when splitting
+ * @param audioFilePath - Path of the original audio file
+ */
+export function stitchTranscriptionResults(
+    results: TranscriptionResult[],
+    chunks: AudioChunk[],
+    overlapSeconds: number,
+    audioFilePath: string
+): TranscriptionResult {
+    const stitchedChunks: TranscriptionChunk[] = [];
+    const stitchedWords: TranscriptionWord[] = [];
+    let text = '';
+    let hasWords = false;
+
+    results.forEach((result, index) => {
+        const chunk = chunks[index];
+        if (!chunk) {
+            return;
+        }
+
+        const nextChunk = chunks[index + 1];
+        const ownedStart = index === 0 ? 0 : chunk.startOffset + overlapSeconds / 2;
+        const ownedEnd = nextChunk ? nextChunk.startOffset + overlapSeconds / 2 : Infinity;
+        const isOwned = (start: number) => start >= ownedStart && start < ownedEnd;
+
+        const offsetChunks = result.chunks
+            .map(c => ({
+                text: c.text,
+                timestamp: [
+                    c.timestamp[0] + chunk.startOffset,
+                    c.timestamp[1] === null ? null : c.timestamp[1] + chunk.startOffset,
+                ] as [number, number | null],
+            }))
+            .filter(c => isOwned(c.timestamp[0]));
+        stitchedChunks.push(...offsetChunks);
+
+        if (result.words) {
+            hasWords = true;
+            stitchedWords.push(...result.words
+                .map(w => ({ ...w, start: w.start + chunk.startOffset, end: w.end + chunk.startOffset }))
+                .filter(w => isOwned(w.start)));
+        }
+
+        // Segments give exact boundaries; without them fall back to matching repeated words
+        if (result.chunks.length > 0) {
+            const chunkText = offsetChunks.map(c => c.text).join(' ');
+            text = text ? `${text} ${chunkText}`.trim() : chunkText;
+        } else {
+            text = mergeOverlappingText(text, result.text);
+        }
+    });
+
+    const stitched: TranscriptionResult = {
+        text,
+        chunks: stitchedChunks,
+        audioFilePath,
+    };
+    if (hasWords) {
+        stitched.words = stitchedWords;
+    }
+    return stitched;
+}
+
+/**
+ * Transcribe an audio file, splitting it into chunks first when it exceeds
+ * the upload limit. Chunks are created with ffmpeg, transcribed with bounded
+ * concurrency, and stitched back together with corrected timestamps.
+ * Temporary chunk files are always removed, including when cancelled.
+ *
+ * @param provider - Provider used for transcription
+ * @param audioFilePath - Path to the audio file
+ * @param options - Transcription options passed to each request
+ * @param chunkingOptions - How to split long audio
+ */
+export async function transcribeAudioFile(
+    provider: ModelProvider,
+    audioFilePath: string,
+    options: TranscriptionOptions,
+    chunkingOptions: AudioChunkingOptions
+): Promise<TranscriptionResult> {
+    if (!needsChunking(audioFilePath, chunkingOptions.maxChunkBytes)) {
+        return provider.transcribeAudio(audioFilePath, options);
+    }
+
+    logInfo(LogCategory.TRANSCRIPTION, 'Audio exceeds the upload limit, splitting into chunks...');
+    const { directory, chunks } = await splitAudio(audioFilePath, chunkingOptions, options.signal);
+
+    try {
+        logInfo(LogCategory.TRANSCRIPTION, `Transcribing ${chunks.length} audio chunks`);
+
+        let completed = 0;
+        const tasks = chunks.map(chunk => async () => {
+            throwIfCancelled(options.signal);
+            const result = await provider.transcribeAudio(chunk.filePath, options);
+            completed++;
+            logInfo(LogCategory.TRANSCRIPTION, `Transcribed chunk ${completed}/${chunks.length}`);
+            return result;
+        });
+
+        const results = await runWithConcurrency(tasks, chunkingOptions.concurrency);
+        return stitchTranscriptionResults(results, chunks, chunkingOptions.overlapSeconds, audioFilePath);
+    } finally {
+        await cleanupAudioChunks(directory);
+    }
+}
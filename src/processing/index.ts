@@ -21,9 +21,24 @@ export type {
     TestAudioData,
 } from './audio-processor';
 
+// Audio chunker - splitting long audio for transcription
+export {
+    MAX_TRANSCRIPTION_UPLOAD_BYTES,
+    needsChunking,
+    getAudioDuration,
+    stitchTranscriptionResults,
+    transcribeAudioFile,
+} from './audio-chunker';
+
+export type {
+    AudioChunkingOptions,
+    AudioChunk,
+} from './audio-chunker';
+
 // Video processor - yt-dlp related functionality
 export {
     getOutputDirectory,
+    removeTemporaryDirectory,
     runYtDlp,
     extractAudioFromUrl,
 } from './video-processor';
@@ -51,3 +66,26 @@ export {
     videoPlatformRegistry,
 } from './video-platforms';
 
+// Output template - rendering the workflow result and output note path from tokens
+export {
+    renderOutputTemplate,
+    resolveNoteTargetPath,
+    escapeYamlString,
+} from './output-template';
+
+export type {
+    OutputTemplateValues,
+    RenderedOutput,
+} from './output-template';
+
+// Workflow runs - tracking and cancelling in-flight workflows
+export {
+    startWorkflowRun,
+    finishWorkflowRun,
+    getActiveWorkflowRuns,
+    cancelWorkflowRun,
+} from './workflow-runs';
+
+export type {
+    WorkflowRun,
+} from './workflow-runs';
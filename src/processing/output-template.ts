@@ -0,0 +1,269 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { AppendToNoteConfig, FrontmatterProperty, OutputTemplate } from '../settings';
+import { ActionResultsMap, replaceActionTokens } from './action-executor';
+import { ContextTokenValues, replaceWorkflowContextTokens } from './workflow-chaining';
+import { FRONTMATTER_PATTERN } from '../utils/frontmatter';
+
+// Matches {{actionId.token}}, {{workflowId.token}} and {{workflow.*}} tokens
+const TEMPLATE_TOKEN_PATTERN = /\{\{(?:[a-zA-Z0-9_-]+\.[a-zA-Z0-9_]+|workflow\.[a-zA-Z.]+)\}\}/g;
+
+// Characters after which a quote starts a quoted YAML scalar (rather than being part of plain text)
+const YAML_VALUE_START_CHARACTERS = ':-[{,';
+
+// Property names that can be written as plain YAML keys
+const PLAIN_KEY_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
+
+// Matches a top-level YAML key (double-quoted, single-quoted or plain) at the start of a line
+const TOP_LEVEL_KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"-][^:#]*?)\s*:(?:\s|$)/;
+
+// Characters not allowed in note names, removed from token values in note paths
+const INVALID_NAME_CHARACTERS = /[\\:*?"<>|#^[\]]/g;
+
+/**
+ * Token values available to an output template
+ */
+export interface OutputTemplateValues {
+    /** Results of the workflow's actions */
+    actionResults: ActionResultsMap;
+    /** Results of dependency workflows, keyed by workflow ID */
+    dependencyResults: ActionResultsMap;
+    /** Context gathered at the start of the run */
+    workflowContext: ContextTokenValues;
+}
+
+/**
+ * Workflow result rendered with an output template
+ */
+export interface RenderedOutput {
+    /** The text to pass to the output handler */
+    text: string;
+    /** Whether the text starts with a frontmatter block generated by the template */
+    hasFrontmatter: boolean;
+}
+
+/**
+ * Escape a value as a double-quoted YAML string.
+ * JSON strings are valid YAML, and keep quotes, colons, `#` and line breaks from
+ * changing the meaning of the frontmatter.
+ */
+export function escapeYamlString(value: string): string {
+    return JSON.stringify(value);
+}
+
+/**
+ * Replace {{actionId.token}}, {{workflowId.token}} and {{workflow.*}} tokens.
+ * Tokens without a value are left as-is.
+ */
+function replaceTemplateTokens(
+    text: string,
+    values: OutputTemplateValues,
+    encode?: (value: string) => string
+): string {
+    let result = replaceActionTokens(text, values.actionResults, encode);
+    result = replaceActionTokens(result, values.dependencyResults, encode);
+    return replaceWorkflowContextTokens(result, values.workflowContext, encode);
+}
+
+/**
+ * Find whether the end of a partial YAML line is inside a double- or single-quoted string
+ */
+function getYamlQuoteContext(linePrefix: string): 'none' | 'double' | 'single' {
+    let context: 'none' | 'double' | 'single' = 'none';
+    let previous = '';
+    for (let index = 0; index < linePrefix.length; index++) {
+        const char = linePrefix.charAt(index);
+        if (context === 'double') {
+            if (char === '\\') {
+                index++;
+            } else if (char === '"') {
+                context = 'none';
+                previous = char;
+            }
+        } else if (context === 'single') {
+            if (char === '\'') {
+                if (linePrefix.charAt(index + 1) === '\'') {
+                    index++;
+                } else {
+                    context = 'none';
+                    previous = char;
+                }
+            }
+        } else if ((char === '"' || char === '\'') && (previous === '' || YAML_VALUE_START_CHARACTERS.includes(previous))) {
+            context = char === '"' ? 'double' : 'single';
+        } else if (char !== ' ' && char !== '\t') {
+            previous = char;
+        }
+    }
+    return context;
+}
+
+/**
+ * Replace tokens in a template's frontmatter block with values escaped for YAML.
+ * A token inside a quoted string has only its contents escaped for that quote style
+ * (line breaks become spaces in single-quoted strings); any other token is
+ * inserted as a double-quoted string.
+ */
+function replaceFrontmatterTokens(frontmatter: string, values: OutputTemplateValues): string {
+    return frontmatter.split('\n').map(line => line.replace(TEMPLATE_TOKEN_PATTERN, (token: string, offset: number) => {
+        const value = replaceTemplateTokens(token, values);
+        if (value === token) {
+            return token;
+        }
+        switch (getYamlQuoteContext(line.substring(0, offset))) {
+            case 'double':
+                return escapeYamlString(value).slice(1, -1);
+            case 'single':
+                return value.replace(/'/g, '\'\'').replace(/\r?\n/g, ' ');
+            default:
+                return escapeYamlString(value);
+        }
+    })).join('\n');
+}
+
+/**
+ * Read the name of the top-level key a frontmatter line starts, unquoting quoted keys
+ *
+ * @returns The key name, or null for indented lines, list items, comments and blank lines
+ */
+function getTopLevelKey(line: string): string | null {
+    const key = TOP_LEVEL_KEY_PATTERN.exec(line)?.[1];
+    if (key === undefined) {
+        return null;
+    }
+    if (key.startsWith('"')) {
+        try {
+            return JSON.parse(key) as string;
+        } catch {
+            return key.slice(1, -1);
+        }
+    }
+    if (key.startsWith('\'')) {
+        return key.slice(1, -1).replace(/''/g, '\'');
+    }
+    return key.trim();
+}
+
+/**
+ * Remove top-level keys, with their nested and list lines, from a frontmatter block
+ */
+function removeFrontmatterKeys(frontmatter: string, names: Set<string>): string {
+    let removing = false;
+    return frontmatter.split('\n').filter(line => {
+        const key = getTopLevelKey(line);
+        if (key !== null) {
+            removing = names.has(key);
+        }
+        return !removing;
+    }).join('\n');
+}
+
+/**
+ * Write a generated property as YAML: a quoted string, or a list of quoted
+ * strings split on commas.
+ */
+function formatProperty(property: FrontmatterProperty, values: OutputTemplateValues): string {
+    const name = property.name.trim();
+    const key = PLAIN_KEY_PATTERN.test(name) ? name : escapeYamlString(name);
+    const value = replaceTemplateTokens(property.value, values);
+
+    if (property.type === 'list') {
+        const items = value.split(',').map(item => item.trim()).filter(item => item !== '');
+        if (items.length === 0) {
+            return `${key}: []`;
+        }
+        return [`${key}:`, ...items.map(item => `  - ${escapeYamlString(item)}`)].join('\n');
+    }
+
+    return `${key}: ${escapeYamlString(value)}`;
+}
+
+/**
+ * Load the template body from its configured source.
+ *
+ * @throws Error if the template file is not set or can't be read
+ */
+async function loadTemplateBody(app: App, template: OutputTemplate): Promise<string> {
+    if (template.sourceType !== 'from-file') {
+        return template.text;
+    }
+
+    if (!template.filePath.trim()) {
+        throw new Error('No template file configured');
+    }
+    const file = app.vault.getAbstractFileByPath(normalizePath(template.filePath));
+    if (!(file instanceof TFile)) {
+        throw new Error(`Template file "${template.filePath}" not found`);
+    }
+    return app.vault.read(file);
+}
+
+/**
+ * Render the workflow result with an output template.
+ * Tokens in the template's own frontmatter block are escaped for YAML, whether or
+ * not they are written inside quotes; generated properties are added after them,
+ * replacing any key of the same name in the template's frontmatter. An empty
+ * template body keeps the workflow result as the body.
+ *
+ * @param outputText - The workflow result that would otherwise be output
+ * @returns The rendered text to pass to the output handler
+ * @throws Error if the template file can't be read
+ */
+export async function renderOutputTemplate(
+    app: App,
+    template: OutputTemplate,
+    outputText: string,
+    values: OutputTemplateValues
+): Promise<RenderedOutput> {
+    const templateBody = await loadTemplateBody(app, template);
+    const properties = template.properties.filter(property => property.name.trim());
+    // Duplicate keys make the YAML invalid, so generated properties win over the template's
+    const generatedNames = new Set(properties.map(property => property.name.trim()));
+
+    const frontmatterLines: string[] = [];
+    let body = outputText;
+    if (templateBody.trim()) {
+        const match = FRONTMATTER_PATTERN.exec(templateBody);
+        if (match) {
+            const frontmatter = removeFrontmatterKeys(match[1] ?? '', generatedNames);
+            if (frontmatter.trim()) {
+                frontmatterLines.push(replaceFrontmatterTokens(frontmatter, values));
+            }
+            body = replaceTemplateTokens(templateBody.substring(match[0].length), values);
+        } else {
+            body = replaceTemplateTokens(templateBody, values);
+        }
+    }
+
+    for (const property of properties) {
+        frontmatterLines.push(formatProperty(property, values));
+    }
+
+    if (frontmatterLines.length === 0) {
+        return { text: body, hasFrontmatter: false };
+    }
+    return { text: `---\n${frontmatterLines.join('\n')}\n---\n${body}`, hasFrontmatter: true };
+}
+
+/**
+ * Resolve the note the append-to-note output writes to.
+ * Token values in a token path have characters that aren't allowed in note names removed.
+ *
+ * @returns The note path, or undefined when the workflow didn't determine one
+ *          (no note was active, or no fixed path is set)
+ * @throws Error if a token in the path has no value
+ */
+export function resolveNoteTargetPath(target: AppendToNoteConfig, values: OutputTemplateValues): string | undefined {
+    switch (target.targetType) {
+        case 'active-note':
+            return values.workflowContext.filePath;
+        case 'fixed-path':
+            return target.path.trim() || undefined;
+        case 'token-path': {
+            const path = replaceTemplateTokens(target.path, values, value => value.replace(INVALID_NAME_CHARACTERS, '').trim()).trim();
+            if (path.includes('{{')) {
+                throw new Error(`Note path has tokens without a value: ${path}`);
+            }
+            return path || undefined;
+        }
+    }
+}
@@ -6,6 +6,7 @@ import { Buffer } from 'buffer';
 import { AIToolboxSettings } from '../settings';
 import { videoPlatformRegistry, VideoMetadata } from './video-platforms';
 import { logNotice, LogCategory } from '../logging';
+import { CancelledError, isCancelledError } from '../utils/abort-utils';
 
 /**
  * Configuration for video processing operations.
@@ -17,6 +18,8 @@ export interface VideoProcessorConfig {
     useBrowserCookies: boolean;
     keepVideo: boolean;
     outputDirectory?: string;
+    /** Kills yt-dlp when aborted */
+    signal?: AbortSignal;
 }
 
 /**
@@ -43,6 +46,8 @@ interface YtDlpInfoJson {
 
 /**
  * Determines the output directory for downloaded videos/audio.
+ * When videos aren't kept, each download gets its own temporary directory,
+ * removed once the audio has been transcribed or the download fails.
  */
 export function getOutputDirectory(config: VideoProcessorConfig): string {
     if (config.keepVideo) {
@@ -54,7 +59,18 @@ export function getOutputDirectory(config: VideoProcessorConfig): string {
         }
         return outputDir;
     }
-    return os.tmpdir();
+    return fs.mkdtempSync(path.join(os.tmpdir(), 'ai-toolbox-'));
+}
+
+/**
+ * Remove a temporary download directory and everything in it.
+ */
+export async function removeTemporaryDirectory(directory: string): Promise<void> {
+    try {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    } catch (error) {
+        console.warn('Failed to remove temporary directory:', error);
+    }
 }
 
 /**
@@ -87,6 +103,7 @@ export async function runYtDlp(
 
 /**
  * Spawns yt-dlp process and returns the audio file path.
+ * The process is killed if the config's signal aborts.
  */
 function spawnYtDlp(
     url: string,
@@ -94,6 +111,11 @@ function spawnYtDlp(
     config: VideoProcessorConfig
 ): Promise<string> {
     return new Promise((resolve, reject) => {
+        if (config.signal?.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+
         const args = [
             '-x',                    // Extract audio
             '--audio-format', 'mp3', // Convert to mp3
@@ -132,6 +154,11 @@ function spawnYtDlp(
         let stdout = '';
         let stderr = '';
 
+        const onAbort = () => {
+            proc.kill();
+        };
+        config.signal?.addEventListener('abort', onAbort, { once: true });
+
         proc.stdout.on('data', (data: Buffer) => {
             stdout += data.toString();
         });
@@ -141,6 +168,12 @@ function spawnYtDlp(
         });
 
         proc.on('close', (code) => {
+            config.signal?.removeEventListener('abort', onAbort);
+            if (config.signal?.aborted) {
+                reject(new CancelledError());
+                return;
+            }
+
             if (code === 0) {
                 const lines = stdout.trim().split('\n');
                 const audioFilePath = lines[lines.length - 1]?.trim();
@@ -156,6 +189,7 @@ function spawnYtDlp(
         });
 
         proc.on('error', (err) => {
+            config.signal?.removeEventListener('abort', onAbort);
             reject(new Error(`Failed to start yt-dlp: ${err.message}. Is yt-dlp installed?`));
         });
     });
@@ -200,6 +234,8 @@ export interface ExtractAudioResult {
     audioFilePath: string;
     sourceUrl: string;
     metadata?: VideoMetadata;
+    /** Temporary directory holding the audio (when videos aren't kept) */
+    temporaryDirectory?: string;
 }
 
 /**
@@ -214,7 +250,11 @@ export interface VideoExtractionSettings {
 /**
  * Converts AIToolboxSettings and extraction settings to VideoProcessorConfig.
  */
-function settingsToProcessorConfig(settings: AIToolboxSettings, extractionSettings: VideoExtractionSettings): VideoProcessorConfig {
+function settingsToProcessorConfig(
+    settings: AIToolboxSettings,
+    extractionSettings: VideoExtractionSettings,
+    signal?: AbortSignal
+): VideoProcessorConfig {
     return {
         ytdlpLocation: settings.ytdlpLocation,
         ffmpegLocation: settings.ffmpegLocation,
@@ -222,6 +262,7 @@ function settingsToProcessorConfig(settings: AIToolboxSettings, extractionSettin
         useBrowserCookies: extractionSettings.useBrowserCookies,
         keepVideo: settings.keepVideo,
         outputDirectory: settings.outputDirectory,
+        signal,
     };
 }
 
@@ -234,12 +275,16 @@ function settingsToProcessorConfig(settings: AIToolboxSettings, extractionSettin
  * @param url - The video URL to extract audio from
  * @param settings - Plugin settings for yt-dlp/ffmpeg paths
  * @param extractionSettings - Browser and cookie settings for video extraction
+ * @param signal - Kills the download when aborted
+ * @throws CancelledError if the signal aborts; temporary files are removed first
  */
 export async function extractAudioFromUrl(
     url: string,
     settings: AIToolboxSettings,
-    extractionSettings: VideoExtractionSettings
+    extractionSettings: VideoExtractionSettings,
+    signal?: AbortSignal
 ): Promise<ExtractAudioResult | null> {
+    let temporaryDirectory: string | undefined;
     try {
         if (!url || !url.trim()) {
             logNotice(LogCategory.TRANSCRIPTION, 'URL is empty');
@@ -260,8 +305,11 @@ export async function extractAudioFromUrl(
             ? handler.getYtDlpArgs().outputConfig.filenameTemplate
             : '%(title)s_%(id)s';
 
-        const config = settingsToProcessorConfig(settings, extractionSettings);
+        const config = settingsToProcessorConfig(settings, extractionSettings, signal);
         const outputDir = getOutputDirectory(config);
+        if (!config.keepVideo) {
+            temporaryDirectory = outputDir;
+        }
         const outputTemplate = path.join(outputDir, `${filenameTemplate}.%(ext)s`);
 
         const ytdlpResult = await runYtDlp(trimmedUrl, outputTemplate, config);
@@ -277,9 +325,16 @@ export async function extractAudioFromUrl(
                 description: ytdlpResult.description,
                 tags: ytdlpResult.tags,
             },
+            temporaryDirectory,
         };
 
     } catch (error) {
+        if (temporaryDirectory) {
+            await removeTemporaryDirectory(temporaryDirectory);
+        }
+        if (isCancelledError(error)) {
+            throw error;
+        }
         logNotice(LogCategory.TRANSCRIPTION, `Failed to extract audio for transcription: ${error instanceof Error ? error.message : String(error)}`, error);
         return null;
     }
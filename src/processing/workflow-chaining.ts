@@ -1,6 +1,9 @@
 import { App, MarkdownView } from 'obsidian';
-import { WorkflowConfig, AIToolboxSettings, TimestampGranularity } from '../settings';
+import { WorkflowConfig, AIToolboxSettings, TimestampGranularity, JsonExtraction } from '../settings';
 import { TranscriptionResult, TranscriptionChunk } from '../providers';
+import { evaluateJsonPath, parseJsonText, formatJsonValue } from '../utils/json-path';
+import { logWarn, LogCategory } from '../logging';
+import type { UsageTotals } from '../usage';
 
 /**
  * Result from executing a workflow, used for chaining
@@ -16,6 +19,8 @@ export interface WorkflowExecutionResult {
     error?: string;
     /** Token values produced by the workflow */
     tokens: Record<string, string>;
+    /** Provider usage and estimated cost of the workflow's actions */
+    usage?: UsageTotals;
 }
 
 /**
@@ -25,25 +30,64 @@ export type WorkflowResultsMap = Map<string, WorkflowExecutionResult>;
 
 /**
  * Detect circular dependencies in a workflow's dependency chain.
- * Currently workflows don't have cross-workflow dependencies (actions chain within a workflow).
- * This function is kept for potential future use.
+ * Walks dependencies depth-first; missing dependency workflows are ignored here
+ * and reported when the workflow runs.
+ *
+ * @param workflow - The workflow to check
+ * @param settings - Plugin settings containing all workflows
+ * @param visited - IDs of workflows already fully checked (no cycle through them)
+ * @param path - IDs of workflows on the current dependency path
+ * @returns Workflow names forming the cycle (first and last are the same), or an empty array
  */
 export function detectCircularDependency(
-    _workflow: WorkflowConfig,
-    _settings: AIToolboxSettings,
-    _visited: Set<string> = new Set(),
-    _path: string[] = []
+    workflow: WorkflowConfig,
+    settings: AIToolboxSettings,
+    visited: Set<string> = new Set(),
+    path: string[] = []
 ): string[] {
-    // No cross-workflow dependencies in current design
+    const cyclePath = findDependencyCycle(workflow, settings.workflows, visited, path);
+    return cyclePath.map(id => settings.workflows.find(w => w.id === id)?.name || id);
+}
+
+/**
+ * Depth-first search for a dependency cycle, returning the workflow IDs that form it.
+ */
+function findDependencyCycle(
+    workflow: WorkflowConfig,
+    workflows: WorkflowConfig[],
+    visited: Set<string>,
+    path: string[]
+): string[] {
+    const cycleStart = path.indexOf(workflow.id);
+    if (cycleStart !== -1) {
+        return [...path.slice(cycleStart), workflow.id];
+    }
+    if (visited.has(workflow.id)) {
+        return [];
+    }
+
+    path.push(workflow.id);
+    for (const depId of getDependencyWorkflowIds(workflow)) {
+        const depWorkflow = workflows.find(w => w.id === depId);
+        if (!depWorkflow) {
+            continue;
+        }
+        const cycle = findDependencyCycle(depWorkflow, workflows, visited, path);
+        if (cycle.length > 0) {
+            return cycle;
+        }
+    }
+    path.pop();
+    visited.add(workflow.id);
+
     return [];
 }
 
 /**
  * Check if a workflow has any workflow dependencies configured.
- * Currently workflows don't have cross-workflow dependencies.
  */
-export function hasWorkflowDependencies(_workflow: WorkflowConfig): boolean {
-    return false;
+export function hasWorkflowDependencies(workflow: WorkflowConfig): boolean {
+    return getDependencyWorkflowIds(workflow).length > 0;
 }
 
 /**
@@ -81,11 +125,15 @@ export function replaceWorkflowTokens(
  */
 export function createChatWorkflowTokens(
     promptText: string,
-    responseText: string
+    responseText: string,
+    providerName: string,
+    modelName: string
 ): Record<string, string> {
     return {
         prompt: promptText,
-        response: responseText
+        response: responseText,
+        provider: providerName,
+        model: modelName
     };
 }
 
@@ -166,11 +214,76 @@ export function createHttpRequestWorkflowTokens(
 }
 
 /**
- * Get ordered list of dependency workflow IDs for a workflow.
- * Currently workflows don't have cross-workflow dependencies.
+ * Create tokens for the top-level fields of a structured (schema-validated) response.
+ * Non-object responses produce no tokens.
  */
-export function getDependencyWorkflowIds(_workflow: WorkflowConfig): string[] {
-    return [];
+export function createStructuredOutputTokens(value: unknown): Record<string, string> {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return {};
+    }
+
+    const tokens: Record<string, string> = {};
+    for (const [name, fieldValue] of Object.entries(value)) {
+        tokens[name] = formatJsonValue(fieldValue);
+    }
+    return tokens;
+}
+
+/**
+ * Create tokens for values extracted from an action's JSON output.
+ *
+ * @param extractions - Named paths to extract
+ * @param text - The action output to parse as JSON
+ * @param builtInTokens - The action's own tokens; extraction names may not shadow them
+ * @throws Error with a readable message if the output is not JSON, or a name or path is invalid
+ */
+export function createJsonExtractionTokens(
+    extractions: JsonExtraction[] | undefined,
+    text: string,
+    builtInTokens: Record<string, string>
+): Record<string, string> {
+    if (!extractions || extractions.length === 0) {
+        return {};
+    }
+
+    let data: unknown;
+    try {
+        data = parseJsonText(text);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`JSON extraction failed: output is not valid JSON (${reason})`);
+    }
+
+    const tokens: Record<string, string> = {};
+    for (const extraction of extractions) {
+        if (!/^[a-zA-Z0-9_]+$/.test(extraction.name)) {
+            throw new Error(`JSON extraction failed: "${extraction.name}" is not a valid token name (use letters, numbers and underscores)`);
+        }
+        if (extraction.name in builtInTokens) {
+            throw new Error(`JSON extraction failed: "${extraction.name}" is already a built-in token`);
+        }
+
+        let value: unknown;
+        try {
+            value = evaluateJsonPath(data, extraction.path);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new Error(`JSON extraction failed for "${extraction.name}": ${reason}`);
+        }
+
+        if (value === undefined) {
+            logWarn(LogCategory.WORKFLOW, `JSON extraction "${extraction.name}" matched nothing at ${extraction.path}`);
+        }
+        tokens[extraction.name] = formatJsonValue(value);
+    }
+    return tokens;
+}
+
+/**
+ * Get ordered list of dependency workflow IDs for a workflow, without duplicates.
+ */
+export function getDependencyWorkflowIds(workflow: WorkflowConfig): string[] {
+    return [...new Set(workflow.dependencies ?? [])];
 }
 
 /**
@@ -232,28 +345,51 @@ export async function gatherContextValues(app: App): Promise<ContextTokenValues>
  * {{workflow.file.content}}, {{workflow.file.path}}.
  *
  * These tokens are gathered once at workflow start and shared across all actions.
+ *
+ * @param encode - Applied to each substituted value (e.g., to escape values inserted into JSON)
  */
 export function replaceWorkflowContextTokens(
     promptText: string,
-    values: ContextTokenValues
+    values: ContextTokenValues,
+    encode: (value: string) => string = value => value
 ): string {
     // Match workflow context tokens like {{workflow.selection}} or {{workflow.file.content}}
     const tokenPattern = /\{\{workflow\.([a-zA-Z.]+)\}\}/g;
 
     return promptText.replace(tokenPattern, (match, tokenName: string) => {
+        let value: string | undefined;
         switch (tokenName) {
             case 'selection':
-                return values.selection ?? match;
+                value = values.selection;
+                break;
             case 'file.content':
-                return values.fileContent ?? match;
+                value = values.fileContent;
+                break;
             case 'file.path':
-                return values.filePath ?? match;
+                value = values.filePath;
+                break;
             case 'clipboard':
-                return values.clipboard ?? match;
-            default:
-                // Unknown token - leave as-is
-                return match;
+                value = values.clipboard;
+                break;
         }
+        // Unknown or empty tokens are left as-is
+        return value === undefined ? match : encode(value);
     });
 }
 
+
+/**
+ * Replace chat context tokens in a prompt with values gathered by the action's
+ * context handlers. Handles bare tokens like {{selection}} or {{activeTabContent}};
+ * tokens without a gathered value are left as-is.
+ */
+export function replaceChatContextTokens(
+    promptText: string,
+    values: Record<string, string>
+): string {
+    const tokenPattern = /\{\{([a-zA-Z0-9_]+)\}\}/g;
+
+    return promptText.replace(tokenPattern, (match, tokenName: string) => {
+        return values[tokenName] ?? match;
+    });
+}
@@ -1,12 +1,14 @@
 import { App } from 'obsidian';
-import { WorkflowConfig, AIToolboxSettings } from '../settings';
+import { WorkflowConfig, WorkflowAction, AIToolboxSettings, generateId } from '../settings';
 import { videoPlatformRegistry } from './video-platforms';
 import { generateFilenameTimestamp } from '../utils/date-utils';
 import {
     OutputHandler,
     OutputContext,
+    StreamingOutput,
     NewNoteOutputHandler,
     AtCursorOutputHandler,
+    AppendToNoteOutputHandler,
     PopupOutputHandler
 } from '../handlers';
 import {
@@ -24,23 +26,66 @@ import {
     ActionExecutionContext,
     executeAction
 } from './action-executor';
+import { renderOutputTemplate, resolveNoteTargetPath, OutputTemplateValues } from './output-template';
+import { startWorkflowRun, finishWorkflowRun, cancelWorkflowRun } from './workflow-runs';
+import { WorkflowProgressNotice } from '../components/workflow-progress-notice';
+import { runHistory } from '../history/run-history';
+import { WorkflowRunRecord, ActionRunRecord } from '../history/types';
 import { logInfo, logNotice, LogCategory } from '../logging';
+import { UsageTotals, addUsage, emptyUsage, formatUsage } from '../usage';
 
 /**
  * Create an output handler based on the workflow's output type.
  */
-function createOutputHandler(outputType: string): OutputHandler {
+export function createOutputHandler(outputType: string): OutputHandler {
     switch (outputType) {
         case 'new-note':
             return new NewNoteOutputHandler();
         case 'at-cursor':
             return new AtCursorOutputHandler();
+        case 'append-to-note':
+            return new AppendToNoteOutputHandler();
         case 'popup':
         default:
             return new PopupOutputHandler();
     }
 }
 
+/**
+ * Lazily starts a streaming output on the first delta, so nothing is shown
+ * if the action fails before the model starts responding.
+ */
+interface StreamingOutputSink {
+    /** Forward a response delta to the output handler */
+    onDelta: (delta: string) => void;
+    /** The started streaming output, or null if none was started */
+    getOutput: () => StreamingOutput | null;
+}
+
+/**
+ * Create a streaming sink for an output handler that supports streaming.
+ * Returns null when the handler can only render the final text.
+ */
+function createStreamingOutputSink(handler: OutputHandler, context: OutputContext): StreamingOutputSink | null {
+    if (!handler.beginStream) {
+        return null;
+    }
+
+    let output: StreamingOutput | null = null;
+    let started = false;
+
+    return {
+        onDelta: (delta) => {
+            if (!started) {
+                started = true;
+                output = handler.beginStream?.(context) ?? null;
+            }
+            output?.append(delta);
+        },
+        getOutput: () => output
+    };
+}
+
 /**
  * Generate a note title based on the final action result.
  */
@@ -89,8 +134,67 @@ function getFinalOutputText(lastResult: ActionExecutionResult): string {
     }
 }
 
+/**
+ * Build the history record of an executed action.
+ */
+function toActionRunRecord(action: WorkflowAction, result: ActionExecutionResult, startedAt: number): ActionRunRecord {
+    return {
+        actionId: action.id,
+        actionName: action.name,
+        actionType: result.actionType,
+        success: result.success,
+        error: result.error,
+        resolvedPrompt: result.resolvedPrompt,
+        tokens: result.tokens,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        usage: result.usage
+    };
+}
+
+/**
+ * Total the usage of a run: its executed actions plus the dependency workflows it ran.
+ * Cached actions and reused dependency results cost nothing in this run.
+ */
+function getRunUsage(record: WorkflowRunRecord, includeDependencies: boolean): UsageTotals {
+    const usage = emptyUsage();
+    for (const action of record.actions) {
+        if (action.usage && !action.cached) {
+            addUsage(usage, action.usage);
+        }
+    }
+    if (includeDependencies) {
+        for (const result of record.dependencyResults ?? []) {
+            if (result.usage) {
+                addUsage(usage, result.usage);
+            }
+        }
+    }
+    return usage;
+}
+
+/**
+ * Convert dependency workflow results to action results, so their tokens
+ * resolve as {{workflowId.tokenName}} in prompts and token pickers.
+ */
+function toDependencyActionResults(results: WorkflowResultsMap): ActionResultsMap {
+    const actionResults: ActionResultsMap = new Map();
+    for (const [workflowId, result] of results) {
+        actionResults.set(workflowId, {
+            actionId: workflowId,
+            actionType: result.workflowType,
+            success: result.success,
+            error: result.error,
+            tokens: result.tokens
+        });
+    }
+    return actionResults;
+}
+
 /**
  * Recursively execute workflow dependencies and collect their results.
+ * Results are memoised in `results`, so a workflow that several others depend
+ * on runs only once per top-level run.
  * Handles circular dependency detection and proper execution order.
  */
 async function executeDependencies(
@@ -98,7 +202,9 @@ async function executeDependencies(
     settings: AIToolboxSettings,
     workflow: WorkflowConfig,
     results: WorkflowResultsMap,
-    executionStack: Set<string>
+    executionStack: Set<string>,
+    workflowContext: ContextTokenValues,
+    signal: AbortSignal
 ): Promise<boolean> {
     const dependencyIds = getDependencyWorkflowIds(workflow);
 
@@ -122,16 +228,20 @@ async function executeDependencies(
         executionStack.add(depId);
 
         if (hasWorkflowDependencies(depWorkflow)) {
-            const depSuccess = await executeDependencies(app, settings, depWorkflow, results, executionStack);
+            const depSuccess = await executeDependencies(app, settings, depWorkflow, results, executionStack, workflowContext, signal);
             if (!depSuccess) {
                 return false;
             }
         }
 
         logNotice(LogCategory.WORKFLOW, `Executing dependency: ${depWorkflow.name}...`);
-        const result = await executeWorkflowInternal(app, settings, depWorkflow, results);
+        const result = await executeWorkflowInternal(app, settings, depWorkflow, results, workflowContext, signal);
 
         if (!result.success) {
+            // A cancelled run is reported once by the top-level workflow
+            if (signal.aborted) {
+                return false;
+            }
             logNotice(LogCategory.WORKFLOW, `Dependency workflow "${depWorkflow.name}" failed: ${result.error}`);
             return false;
         }
@@ -143,18 +253,36 @@ async function executeDependencies(
     return true;
 }
 
+/**
+ * Options for replaying a workflow with the inputs of an earlier run
+ */
+export interface WorkflowReplayOptions {
+    /** Context snapshot used instead of reading the editor and clipboard */
+    workflowContext: ContextTokenValues;
+    /** Index of the first action to execute; earlier actions use cached results */
+    startActionIndex: number;
+    /** Results of earlier actions, keyed by action ID */
+    cachedResults: ActionResultsMap;
+    /** Dependency results to reuse instead of running dependencies again */
+    dependencyResults?: WorkflowResultsMap;
+}
+
 /**
  * Execute a workflow by running all its actions sequentially.
  * Each action receives the accumulated results from previous actions.
+ * The run is registered so it can be cancelled, and a progress notice with
+ * a cancel button stays open until the run finishes.
  *
  * @param app - Obsidian App instance
  * @param settings - Plugin settings
  * @param workflow - The workflow configuration to execute
+ * @param replay - Inputs and cached results of an earlier run to replay
  */
 export async function executeWorkflow(
     app: App,
     settings: AIToolboxSettings,
-    workflow: WorkflowConfig
+    workflow: WorkflowConfig,
+    replay?: WorkflowReplayOptions
 ): Promise<void> {
     logInfo(LogCategory.WORKFLOW, `Starting workflow: ${workflow.name}`, { id: workflow.id, actionCount: workflow.actions.length });
 
@@ -163,65 +291,218 @@ export async function executeWorkflow(
         return;
     }
 
+    const run = startWorkflowRun(workflow);
+    const progress = new WorkflowProgressNotice(workflow.name, () => cancelWorkflowRun(run));
+    const record: WorkflowRunRecord = {
+        id: generateId(),
+        workflowId: workflow.id,
+        workflowName: workflow.name,
+        startedAt: new Date(run.startedAt).toISOString(),
+        status: 'failed',
+        actions: []
+    };
+
+    try {
+        await runWorkflow(app, settings, workflow, run.controller.signal, progress, record, replay);
+    } catch (error) {
+        record.status = 'failed';
+        record.error = error instanceof Error ? error.message : String(error);
+        throw error;
+    } finally {
+        progress.hide();
+        finishWorkflowRun(run);
+
+        record.finishedAt = new Date().toISOString();
+        if (run.controller.signal.aborted) {
+            record.status = 'cancelled';
+        }
+        record.usage = getRunUsage(record, !replay?.dependencyResults);
+        const usageSummary = formatUsage(record.usage);
+        if (usageSummary) {
+            logInfo(LogCategory.WORKFLOW, `Workflow "${workflow.name}" used ${usageSummary}`, record.usage);
+        }
+        void runHistory.add(record);
+    }
+
+    if (run.controller.signal.aborted) {
+        logNotice(LogCategory.WORKFLOW, `Workflow "${workflow.name}" cancelled`);
+    }
+}
+
+/**
+ * Re-run a recorded workflow run with the same inputs.
+ * Replays the saved context snapshot; when restarting from a later action,
+ * earlier actions and dependencies reuse their recorded results instead of running again.
+ *
+ * @param record - The recorded run to replay
+ * @param startActionId - ID of the action to restart from (defaults to the first action)
+ */
+export async function replayWorkflowRun(
+    app: App,
+    settings: AIToolboxSettings,
+    record: WorkflowRunRecord,
+    startActionId?: string
+): Promise<void> {
+    const workflow = settings.workflows.find(w => w.id === record.workflowId);
+    if (!workflow) {
+        logNotice(LogCategory.WORKFLOW, `Workflow "${record.workflowName}" no longer exists.`);
+        return;
+    }
+
+    if (!record.context) {
+        logNotice(LogCategory.WORKFLOW, 'This run has no saved inputs to replay.');
+        return;
+    }
+
+    const startActionIndex = startActionId ? workflow.actions.findIndex(a => a.id === startActionId) : 0;
+    if (startActionIndex === -1) {
+        logNotice(LogCategory.WORKFLOW, `Action "${startActionId}" no longer exists in workflow "${workflow.name}".`);
+        return;
+    }
+
+    const cachedResults: ActionResultsMap = new Map();
+    for (const action of record.actions) {
+        if (action.success) {
+            cachedResults.set(action.actionId, {
+                actionId: action.actionId,
+                actionType: action.actionType,
+                success: true,
+                tokens: action.tokens,
+                resolvedPrompt: action.resolvedPrompt
+            });
+        }
+    }
+
+    // Dependencies only need to run again when the whole workflow is replayed
+    const dependencyResults: WorkflowResultsMap | undefined = startActionIndex > 0 && record.dependencyResults
+        ? new Map(record.dependencyResults.map(result => [result.workflowId, result]))
+        : undefined;
+
+    logInfo(LogCategory.WORKFLOW, `Replaying run of ${workflow.name} from action ${startActionIndex + 1}`, { runId: record.id });
+    await executeWorkflow(app, settings, workflow, {
+        workflowContext: record.context,
+        startActionIndex,
+        cachedResults,
+        dependencyResults
+    });
+}
+
+/**
+ * Run a workflow's dependencies and actions, then send the result to its output.
+ * Stops quietly when the signal aborts; the caller reports the cancellation.
+ * Actions, output and errors are filled into `record` as the run progresses.
+ */
+async function runWorkflow(
+    app: App,
+    settings: AIToolboxSettings,
+    workflow: WorkflowConfig,
+    signal: AbortSignal,
+    progress: WorkflowProgressNotice,
+    record: WorkflowRunRecord,
+    replay?: WorkflowReplayOptions
+): Promise<void> {
     // Check for circular dependencies before starting
     if (hasWorkflowDependencies(workflow)) {
         const cycle = detectCircularDependency(workflow, settings);
         if (cycle.length > 0) {
-            logNotice(LogCategory.WORKFLOW, `Circular dependency detected: ${cycle.join(' → ')}`);
+            record.error = `Circular dependency detected: ${cycle.join(' → ')}`;
+            logNotice(LogCategory.WORKFLOW, record.error);
             return;
         }
     }
 
+    // Gather workflow context values once at the start (clipboard, selection, etc.),
+    // or reuse the snapshot of the run being replayed
+    const workflowContext: ContextTokenValues = replay?.workflowContext ?? await gatherContextValues(app);
+    record.context = workflowContext;
+
     // Execute all dependencies first
-    const dependencyResults: WorkflowResultsMap = new Map();
-    if (hasWorkflowDependencies(workflow)) {
+    const dependencyResults: WorkflowResultsMap = new Map(replay?.dependencyResults);
+    if (hasWorkflowDependencies(workflow) && !replay?.dependencyResults) {
         const executionStack = new Set<string>();
         executionStack.add(workflow.id);
 
+        progress.setStatus('Running dependencies...');
         const dependenciesSuccess = await executeDependencies(
-            app, settings, workflow, dependencyResults, executionStack
+            app, settings, workflow, dependencyResults, executionStack, workflowContext, signal
         );
 
         if (!dependenciesSuccess) {
+            record.error = 'Dependency workflow failed';
             return;
         }
     }
+    record.dependencyResults = [...dependencyResults.values()];
 
     // Convert dependency results to ActionExecutionResult format
-    const dependencyActionResults: ActionResultsMap = new Map();
-    for (const [workflowId, result] of dependencyResults) {
-        dependencyActionResults.set(workflowId, {
-            actionId: workflowId,
-            actionType: result.workflowType,
-            success: result.success,
-            error: result.error,
-            tokens: result.tokens
-        });
-    }
+    const dependencyActionResults = toDependencyActionResults(dependencyResults);
 
-    // Gather workflow context values once at the start (clipboard, selection, etc.)
-    const workflowContext: ContextTokenValues = await gatherContextValues(app);
+    const outputType = workflow.outputType || 'popup';
+    const handler = createOutputHandler(outputType);
+    const outputContext: OutputContext = {
+        app,
+        workflow
+    };
 
     // Execute actions sequentially
     const actionResults: ActionResultsMap = new Map();
     let lastResult: ActionExecutionResult | null = null;
+    let streamingSink: StreamingOutputSink | null = null;
+    // Undo a streamed response that won't be completed
+    const failStreamingOutput = (message: string) => streamingSink?.getOutput()?.fail(message);
 
-    logNotice(LogCategory.WORKFLOW, `Executing workflow: ${workflow.name}...`);
+    logInfo(LogCategory.WORKFLOW, `Executing workflow: ${workflow.name}`);
+
+    for (const [index, action] of workflow.actions.entries()) {
+        if (signal.aborted) {
+            return;
+        }
+
+        // Reuse the earlier run's results for actions before the restart point
+        if (replay && index < replay.startActionIndex) {
+            const cached = replay.cachedResults.get(action.id);
+            if (!cached) {
+                record.error = `No saved result for action "${action.name}"`;
+                logNotice(LogCategory.WORKFLOW, `${record.error}. Re-run from an earlier action.`);
+                return;
+            }
+            actionResults.set(action.id, cached);
+            lastResult = cached;
+            record.actions.push({ ...toActionRunRecord(action, cached, Date.now()), cached: true });
+            continue;
+        }
+
+        progress.setStatus(`Running ${action.name} (${index + 1}/${workflow.actions.length})`);
 
-    for (const action of workflow.actions) {
         const context: ActionExecutionContext = {
             app,
             settings,
             previousResults: actionResults,
             dependencyResults: dependencyActionResults,
+            workflow,
             workflowName: workflow.name,
-            workflowContext
+            workflowContext,
+            signal
         };
 
+        // Stream the final chat response straight into the output when the handler supports it.
+        // A templated result is only known once the run ends, so it isn't streamed.
+        const isFinalAction = index === workflow.actions.length - 1;
+        if (isFinalAction && action.type === 'chat' && !workflow.outputTemplate) {
+            streamingSink = createStreamingOutputSink(handler, outputContext);
+            context.onChatDelta = streamingSink?.onDelta;
+        }
+
+        const actionStartedAt = Date.now();
         const result = await executeAction(action, context);
+        record.actions.push(toActionRunRecord(action, result, actionStartedAt));
 
         if (!result.success) {
-            logNotice(LogCategory.WORKFLOW, `Action "${action.name}" failed: ${result.error}`);
+            record.error = `Action "${action.name}" failed: ${result.error}`;
+            failStreamingOutput(signal.aborted ? 'Cancelled' : record.error);
+            if (!signal.aborted) {
+                logNotice(LogCategory.WORKFLOW, record.error);
+            }
             return;
         }
 
@@ -229,36 +510,76 @@ export async function executeWorkflow(
         lastResult = result;
     }
 
-    if (!lastResult) {
+    if (!lastResult || signal.aborted) {
+        failStreamingOutput('Cancelled');
         return;
     }
 
     logInfo(LogCategory.WORKFLOW, `Workflow completed: ${workflow.name}`);
 
     // Handle output
-    const outputText = getFinalOutputText(lastResult);
-    const noteTitle = generateNoteTitle(lastResult, workflow.name);
-
-    const outputType = workflow.outputType || 'popup';
-    const handler = createOutputHandler(outputType);
-    const context: OutputContext = {
-        app,
-        workflow,
-        noteTitle
+    const outputValues: OutputTemplateValues = {
+        actionResults,
+        dependencyResults: dependencyActionResults,
+        workflowContext
     };
+    let outputText = getFinalOutputText(lastResult);
+    let templateFrontmatter = false;
+    if (workflow.outputTemplate) {
+        try {
+            const rendered = await renderOutputTemplate(app, workflow.outputTemplate, outputText, outputValues);
+            outputText = rendered.text;
+            templateFrontmatter = rendered.hasFrontmatter;
+        } catch (error) {
+            record.error = `Output template failed: ${error instanceof Error ? error.message : String(error)}`;
+            logNotice(LogCategory.WORKFLOW, record.error);
+            failStreamingOutput(record.error);
+            return;
+        }
+    }
+
+    let targetPath: string | undefined;
+    if (outputType === 'append-to-note' && workflow.appendToNote) {
+        try {
+            targetPath = resolveNoteTargetPath(workflow.appendToNote, outputValues);
+        } catch (error) {
+            record.error = `Output note failed: ${error instanceof Error ? error.message : String(error)}`;
+            logNotice(LogCategory.WORKFLOW, record.error);
+            failStreamingOutput(record.error);
+            return;
+        }
+    }
+    const noteTitle = generateNoteTitle(lastResult, workflow.name);
+    record.output = outputText;
+    record.templateFrontmatter = templateFrontmatter;
+    record.noteTitle = noteTitle;
+    record.targetPath = targetPath;
+    record.status = 'success';
+    record.usage = getRunUsage(record, !replay?.dependencyResults);
+
+    const finalContext: OutputContext = { ...outputContext, noteTitle, targetPath, templateFrontmatter, usageSummary: formatUsage(record.usage) };
+    const streamingOutput = streamingSink?.getOutput();
+    if (streamingOutput) {
+        await streamingOutput.finish(outputText, finalContext);
+        return;
+    }
 
-    await handler.handleOutput(outputText, context);
+    await handler.handleOutput(outputText, finalContext);
 }
 
 /**
  * Internal workflow execution that returns a result for chaining.
- * Used when executing workflows as dependencies.
+ * Used when executing workflows as dependencies; the workflow's own
+ * dependencies must already be in `dependencyResults`, and the context
+ * snapshot is shared with the top-level run.
  */
 async function executeWorkflowInternal(
     app: App,
     settings: AIToolboxSettings,
     workflow: WorkflowConfig,
-    _dependencyResults: WorkflowResultsMap
+    dependencyResults: WorkflowResultsMap,
+    workflowContext: ContextTokenValues,
+    signal?: AbortSignal
 ): Promise<WorkflowExecutionResult> {
     const baseResult: WorkflowExecutionResult = {
         workflowId: workflow.id,
@@ -271,23 +592,32 @@ async function executeWorkflowInternal(
         return { ...baseResult, error: 'No actions configured' };
     }
 
-    // Gather workflow context values once at the start
-    const workflowContext: ContextTokenValues = await gatherContextValues(app);
+    const dependencyActionResults = toDependencyActionResults(dependencyResults);
 
     // Execute actions sequentially
     const actionResults: ActionResultsMap = new Map();
+    const usage = emptyUsage();
 
     for (const action of workflow.actions) {
+        if (signal?.aborted) {
+            return { ...baseResult, error: 'Cancelled' };
+        }
+
         const context: ActionExecutionContext = {
             app,
             settings,
             previousResults: actionResults,
-            dependencyResults: new Map(),
+            dependencyResults: dependencyActionResults,
+            workflow,
             workflowName: workflow.name,
-            workflowContext
+            workflowContext,
+            signal
         };
 
         const result = await executeAction(action, context);
+        if (result.usage) {
+            addUsage(usage, result.usage);
+        }
 
         if (!result.success) {
             return { ...baseResult, error: result.error };
@@ -311,6 +641,7 @@ async function executeWorkflowInternal(
         workflowId: workflow.id,
         workflowType: lastResult.actionType,
         success: true,
-        tokens: lastResult.tokens
+        tokens: lastResult.tokens,
+        usage
     };
 }
@@ -0,0 +1,59 @@
+import { WorkflowConfig } from '../settings';
+import { logInfo, LogCategory } from '../logging';
+
+/**
+ * A workflow run that is currently executing
+ */
+export interface WorkflowRun {
+    /** The workflow being executed */
+    workflow: WorkflowConfig;
+    /** Aborts the run's requests and child processes */
+    controller: AbortController;
+    /** When the run started (ms since epoch) */
+    startedAt: number;
+}
+
+// Runs in start order; a workflow can have several runs at once
+const activeRuns: WorkflowRun[] = [];
+
+/**
+ * Register a new run for a workflow.
+ */
+export function startWorkflowRun(workflow: WorkflowConfig): WorkflowRun {
+    const run: WorkflowRun = {
+        workflow,
+        controller: new AbortController(),
+        startedAt: Date.now()
+    };
+    activeRuns.push(run);
+    return run;
+}
+
+/**
+ * Remove a run from the active runs once it has finished, failed or been cancelled.
+ */
+export function finishWorkflowRun(run: WorkflowRun): void {
+    const index = activeRuns.indexOf(run);
+    if (index !== -1) {
+        activeRuns.splice(index, 1);
+    }
+}
+
+/**
+ * Get all runs that are currently executing, oldest first.
+ */
+export function getActiveWorkflowRuns(): WorkflowRun[] {
+    return [...activeRuns];
+}
+
+/**
+ * Cancel a run. In-flight requests are abandoned and child processes killed;
+ * the run stops before its next step.
+ */
+export function cancelWorkflowRun(run: WorkflowRun): void {
+    if (run.controller.signal.aborted) {
+        return;
+    }
+    logInfo(LogCategory.WORKFLOW, `Cancelling workflow: ${run.workflow.name}`);
+    run.controller.abort();
+}
@@ -0,0 +1,236 @@
+import { ModelProviderConfig, ChatMessage, ChatOptions, ChatResult, ChatStreamDelta, DiscoveredModel } from './types';
+import { AIProviderType, DEFAULT_ANTHROPIC_ENDPOINT } from '../settings/index';
+import { BaseProvider } from './base-provider';
+import { ServerSentEvent } from './sse-stream';
+
+/**
+ * Interface for the Anthropic Messages API response
+ */
+interface AnthropicMessagesResponse {
+	content: Array<{
+		type: string;
+		text?: string;
+		/** Tool arguments (tool_use blocks) */
+		input?: unknown;
+	}>;
+	stop_reason: string | null;
+	usage?: {
+		input_tokens: number;
+		output_tokens: number;
+	};
+}
+
+/**
+ * Interface for a Messages API streaming event (only the fields we read)
+ */
+interface AnthropicStreamEvent {
+	type: string;
+	message?: {
+		usage?: {
+			input_tokens: number;
+			output_tokens: number;
+		};
+	};
+	delta?: {
+		type?: string;
+		text?: string;
+		/** Partial tool arguments (input_json_delta) */
+		partial_json?: string;
+	};
+	usage?: {
+		output_tokens: number;
+	};
+	error?: {
+		message: string;
+	};
+}
+
+/**
+ * Anthropic model provider implementation.
+ * Supports chat through the Messages API. Anthropic has no transcription endpoint.
+ */
+export class AnthropicModelProvider extends BaseProvider {
+	readonly type: AIProviderType = 'anthropic';
+	private static readonly API_VERSION = '2023-06-01';
+	// The Messages API requires max_tokens, so use a generous default when none is given
+	private static readonly DEFAULT_MAX_TOKENS = 4096;
+
+	// Input token count from message_start, combined with output tokens from message_delta
+	private streamInputTokens = 0;
+
+	constructor(config: ModelProviderConfig) {
+		// Apply default endpoint before calling super
+		const configWithDefaults: ModelProviderConfig = {
+			...config,
+			endpoint: config.endpoint || DEFAULT_ANTHROPIC_ENDPOINT,
+		};
+		super(configWithDefaults);
+	}
+
+	/**
+	 * Anthropic does not offer audio transcription, regardless of model settings
+	 */
+	override supportsTranscription(): boolean {
+		return false;
+	}
+
+	protected buildTranscriptionUrl(): string {
+		throw new Error('Anthropic does not support audio transcription.');
+	}
+
+	protected buildChatUrl(): string {
+		const endpoint = this.endpoint.replace(/\/$/, '');
+		return `${endpoint}/messages`;
+	}
+
+	/**
+	 * Anthropic models are all chat models, whatever their ID
+	 */
+	protected override parseModelsResponse(json: unknown): DiscoveredModel[] {
+		return super.parseModelsResponse(json).map(model => ({
+			...model,
+			supportsChat: true,
+			supportsTranscription: false,
+		}));
+	}
+
+	protected getAuthHeaders(): Record<string, string> {
+		return {
+			'x-api-key': this.apiKey,
+			'anthropic-version': AnthropicModelProvider.API_VERSION,
+		};
+	}
+
+	protected validateTranscriptionConfig(): void {
+		throw new Error('Anthropic does not support audio transcription. Select a different provider for transcription actions.');
+	}
+
+	protected validateChatConfig(): void {
+		if (!this.apiKey) {
+			throw new Error('Anthropic API key is not configured.');
+		}
+		if (!this.modelId) {
+			throw new Error('Anthropic model ID is not configured.');
+		}
+	}
+
+	protected buildChatRequestBody(messages: ChatMessage[], options: ChatOptions): Record<string, unknown> {
+		// System messages go in the top-level system field rather than the messages array
+		const systemPrompt = messages
+			.filter(m => m.role === 'system')
+			.map(m => m.content)
+			.join('\n\n');
+
+		const body: Record<string, unknown> = {
+			model: this.modelId,
+			messages: messages
+				.filter(m => m.role !== 'system')
+				.map(m => ({ role: m.role, content: m.content })),
+			max_tokens: options.maxTokens ?? AnthropicModelProvider.DEFAULT_MAX_TOKENS,
+		};
+
+		if (systemPrompt) {
+			body.system = systemPrompt;
+		}
+		if (options.temperature !== undefined) {
+			body.temperature = options.temperature;
+		}
+		if (options.topP !== undefined) {
+			body.top_p = options.topP;
+		}
+		if (options.stopSequences && options.stopSequences.length > 0) {
+			body.stop_sequences = options.stopSequences;
+		}
+		if (options.responseFormat) {
+			// Anthropic has no JSON mode; forcing a tool call makes the model reply with
+			// arguments that match the tool's input schema
+			body.tools = [{
+				name: options.responseFormat.name,
+				description: 'Respond with data matching this schema',
+				input_schema: options.responseFormat.schema,
+			}];
+			body.tool_choice = { type: 'tool', name: options.responseFormat.name };
+		}
+
+		return body;
+	}
+
+	/**
+	 * The Messages API always reports usage in its stream events and rejects stream_options
+	 */
+	protected override getStreamingRequestFields(): Record<string, unknown> {
+		return { stream: true };
+	}
+
+	/**
+	 * Parse the Messages API response, joining all text content blocks.
+	 * A forced tool call (structured output) is returned as its JSON arguments.
+	 */
+	protected override parseChatResponse(json: unknown): ChatResult {
+		const response = json as AnthropicMessagesResponse;
+		if (!response.content || response.content.length === 0) {
+			throw new Error('No response from chat API');
+		}
+
+		const toolUse = response.content.find(block => block.type === 'tool_use');
+		const result: ChatResult = {
+			content: toolUse
+				? JSON.stringify(toolUse.input ?? {})
+				: response.content
+					.filter(block => block.type === 'text')
+					.map(block => block.text ?? '')
+					.join(''),
+		};
+
+		if (response.usage) {
+			result.usage = {
+				promptTokens: response.usage.input_tokens,
+				completionTokens: response.usage.output_tokens,
+				totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+			};
+		}
+
+		return result;
+	}
+
+	/**
+	 * Parse a Messages API streaming event.
+	 * Text (or tool arguments, for structured output) arrives in content_block_delta
+	 * events; usage is split between message_start (input tokens) and message_delta (output tokens).
+	 */
+	protected override parseChatStreamEvent(event: ServerSentEvent): ChatStreamDelta | null {
+		const data = JSON.parse(event.data) as AnthropicStreamEvent;
+
+		switch (data.type) {
+			case 'message_start':
+				this.streamInputTokens = data.message?.usage?.input_tokens ?? 0;
+				return null;
+			case 'content_block_delta':
+				if (data.delta?.type === 'text_delta' && data.delta.text) {
+					return { content: data.delta.text };
+				}
+				if (data.delta?.type === 'input_json_delta' && data.delta.partial_json) {
+					return { content: data.delta.partial_json };
+				}
+				return null;
+			case 'message_delta': {
+				if (!data.usage) {
+					return null;
+				}
+				const completionTokens = data.usage.output_tokens;
+				return {
+					content: '',
+					usage: {
+						promptTokens: this.streamInputTokens,
+						completionTokens,
+						totalTokens: this.streamInputTokens + completionTokens,
+					},
+				};
+			}
+			case 'error':
+				throw new Error(data.error?.message ?? 'Unknown streaming error');
+			default:
+				return null;
+		}
+	}
+}
@@ -1,6 +1,6 @@
-import { ModelProviderConfig, ChatMessage, ChatOptions } from './types';
+import { ModelProviderConfig, ChatMessage, ChatOptions, DiscoveredModel } from './types';
 import { AIProviderType } from '../settings';
-import { BaseProvider } from './base-provider';
+import { BaseProvider, ModelListApiResponse, inferModelCapabilities } from './base-provider';
 
 /**
  * Azure OpenAI model provider implementation.
@@ -8,8 +8,11 @@ import { BaseProvider } from './base-provider';
  */
 export class AzureOpenAIModelProvider extends BaseProvider {
 	readonly type: AIProviderType = 'azure-openai';
-	private static readonly CHAT_API_VERSION = '2024-06-01';
+	// First GA version with json_schema response formats and streamed usage
+	private static readonly CHAT_API_VERSION = '2024-10-21';
 	private static readonly TRANSCRIPTION_API_VERSION = '2024-06-01';
+	// Last data-plane API version that can list deployments
+	private static readonly DEPLOYMENTS_API_VERSION = '2022-12-01';
 
 	constructor(config: ModelProviderConfig) {
 		super(config);
@@ -25,6 +28,30 @@ export class AzureOpenAIModelProvider extends BaseProvider {
 		return `${endpoint}/openai/deployments/${this.deploymentName}/chat/completions?api-version=${AzureOpenAIModelProvider.CHAT_API_VERSION}`;
 	}
 
+	/**
+	 * List the resource's deployments rather than the base models
+	 */
+	protected override buildModelsUrl(): string {
+		const endpoint = this.endpoint.replace(/\/$/, '');
+		return `${endpoint}/openai/deployments?api-version=${AzureOpenAIModelProvider.DEPLOYMENTS_API_VERSION}`;
+	}
+
+	/**
+	 * Each deployment's ID is its name; capabilities come from the model it runs
+	 */
+	protected override parseModelsResponse(json: unknown): DiscoveredModel[] {
+		const response = json as ModelListApiResponse;
+		return (response.data ?? []).map(deployment => {
+			const modelId = deployment.model ?? deployment.id;
+			return {
+				modelId,
+				deploymentName: deployment.id,
+				displayName: deployment.id,
+				...inferModelCapabilities(modelId),
+			};
+		});
+	}
+
 	protected getAuthHeaders(): Record<string, string> {
 		return {
 			'api-key': this.apiKey,
@@ -67,6 +94,15 @@ export class AzureOpenAIModelProvider extends BaseProvider {
 		if (options.temperature !== undefined) {
 			body.temperature = options.temperature;
 		}
+		if (options.topP !== undefined) {
+			body.top_p = options.topP;
+		}
+		if (options.stopSequences && options.stopSequences.length > 0) {
+			body.stop = options.stopSequences;
+		}
+		if (options.responseFormat) {
+			body.response_format = this.buildResponseFormatField(options.responseFormat);
+		}
 
 		return body;
 	}
@@ -1,7 +1,55 @@
-import { Notice, requestUrl } from 'obsidian';
-import { ModelProvider, ModelProviderConfig, TranscriptionOptions, TranscriptionResult, ChatMessage, ChatOptions, ChatResult, TestAudioData, TranscriptionWord } from './types';
-import { AIProviderType, TimestampGranularity } from '../settings';
+import { Notice, requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { ModelProvider, ModelProviderConfig, TranscriptionOptions, TranscriptionResult, ChatMessage, ChatOptions, ChatResponseFormat, ChatResult, ChatStreamDelta, DiscoveredModel, TestAudioData, TranscriptionWord } from './types';
+import { AIProviderType, TimestampGranularity, RetryPolicyConfig, DEFAULT_RETRY_POLICY } from '../settings';
 import { prepareAudioFormData, TranscriptionApiResponse, FormField, buildMultipartFormData, generateFormBoundary } from '../processing/audio-processor';
+import { openEventStream, EventStreamResponse, ServerSentEvent } from './sse-stream';
+import { ProviderRequestError, withRetry, parseRetryAfter } from './retry-policy';
+import { CancelledError, isCancelledError, raceWithSignal } from '../utils/abort-utils';
+
+/**
+ * Prefix an error's message while preserving its class (e.g., ProviderRequestError status).
+ * Cancellation errors are returned unchanged.
+ */
+function prefixErrorMessage(error: unknown, prefix: string): Error {
+	if (isCancelledError(error)) {
+		return error as CancelledError;
+	}
+	if (error instanceof Error) {
+		error.message = `${prefix}: ${error.message}`;
+		return error;
+	}
+	return new Error(`${prefix}: ${String(error)}`);
+}
+
+// Model IDs that are neither chat nor transcription models (embeddings, speech, images, moderation)
+const NON_CHAT_MODEL_PATTERN = /embed|tts|dall-e|image|moderation|davinci|babbage|realtime|sora/i;
+
+// Model IDs of speech-to-text models
+const TRANSCRIPTION_MODEL_PATTERN = /whisper|transcribe/i;
+
+/**
+ * Infer a model's capabilities from its ID.
+ * Speech-to-text models (whisper, *-transcribe) are transcription models; other
+ * models are treated as chat models unless they are known non-chat models.
+ */
+export function inferModelCapabilities(modelId: string): Pick<DiscoveredModel, 'supportsChat' | 'supportsTranscription'> {
+	if (TRANSCRIPTION_MODEL_PATTERN.test(modelId)) {
+		return { supportsChat: false, supportsTranscription: true };
+	}
+	return { supportsChat: !NON_CHAT_MODEL_PATTERN.test(modelId), supportsTranscription: false };
+}
+
+/**
+ * Interface for a model listing response (OpenAI-compatible `GET /models` format)
+ */
+export interface ModelListApiResponse {
+	data?: Array<{
+		id: string;
+		display_name?: string;
+		/** Model an Azure deployment runs */
+		model?: string;
+	}>;
+}
 
 /**
  * Abstract base class for AI model providers.
@@ -26,6 +74,23 @@ export interface ChatApiResponse {
 	};
 }
 
+/**
+ * Interface for a streamed chat completion chunk (OpenAI-compatible format)
+ */
+export interface ChatStreamApiChunk {
+	choices?: Array<{
+		delta?: {
+			content?: string | null;
+		};
+		finish_reason?: string | null;
+	}>;
+	usage?: {
+		prompt_tokens: number;
+		completion_tokens: number;
+		total_tokens: number;
+	} | null;
+}
+
 /**
  * Abstract base class for AI model providers.
  * Contains shared implementation for transcription and other capabilities.
@@ -40,6 +105,7 @@ export abstract class BaseProvider implements ModelProvider {
 	protected readonly modelId: string;
 	protected readonly deploymentName: string;
 	protected readonly modelDisplayName: string;
+	protected readonly retryPolicy: RetryPolicyConfig;
 	private readonly _supportsTranscription: boolean;
 	private readonly _supportsChat: boolean;
 
@@ -52,6 +118,7 @@ export abstract class BaseProvider implements ModelProvider {
 		this.deploymentName = config.deploymentName || config.modelId;
 		this._supportsTranscription = config.supportsTranscription ?? false;
 		this._supportsChat = config.supportsChat ?? false;
+		this.retryPolicy = config.retryPolicy ?? DEFAULT_RETRY_POLICY;
 	}
 
 	supportsTranscription(): boolean {
@@ -69,26 +136,64 @@ export abstract class BaseProvider implements ModelProvider {
 			const apiUrl = this.buildChatUrl();
 			const requestBody = this.buildChatRequestBody(messages, options);
 
-			const response = await requestUrl({
-				url: apiUrl,
-				method: 'POST',
-				headers: {
-					...this.getAuthHeaders(),
-					'Content-Type': 'application/json',
-				},
-				body: JSON.stringify(requestBody),
-			});
+			const response = await withRetry(
+				() => this.sendRequest({
+					url: apiUrl,
+					method: 'POST',
+					headers: {
+						...this.getAuthHeaders(),
+						'Content-Type': 'application/json',
+					},
+					body: JSON.stringify(requestBody),
+				}, options.signal),
+				this.retryPolicy,
+				`${this.getProviderDisplayName()} chat`,
+				options.signal
+			);
+
+			return this.parseChatResponse(response.json);
+		} catch (error) {
+			console.error('Chat error:', error);
+			throw prefixErrorMessage(error, 'Chat failed');
+		}
+	}
 
-			if (response.status !== 200) {
-				throw new Error(`${this.getProviderDisplayName()} API error: ${response.status} - ${response.text}`);
-			}
+	async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncGenerator<ChatStreamDelta, void, undefined> {
+		if (!this.supportsStreaming()) {
+			const result = await this.sendChat(messages, options);
+			yield { content: result.content, usage: result.usage };
+			return;
+		}
 
-			const result = response.json as ChatApiResponse;
-			return this.parseChatResponse(result);
+		this.validateChatConfig();
+
+		try {
+			const requestBody = {
+				...this.buildChatRequestBody(messages, options),
+				...this.getStreamingRequestFields(),
+			};
+
+			// Only opening the stream is retried; once deltas flow, a failure can't be replayed
+			const stream = await withRetry(
+				() => this.openStream(this.buildChatUrl(), JSON.stringify(requestBody), options.signal),
+				this.retryPolicy,
+				`${this.getProviderDisplayName()} chat stream`,
+				options.signal
+			);
+
+			for await (const event of stream.events()) {
+				const delta = this.parseChatStreamEvent(event);
+				if (delta) {
+					yield delta;
+				}
+			}
 		} catch (error) {
-			console.error('Chat error:', error);
-			const errorMessage = error instanceof Error ? error.message : String(error);
-			throw new Error(`Chat failed: ${errorMessage}`);
+			// A destroyed connection surfaces as a stream error; report it as the cancellation it is
+			if (options.signal?.aborted) {
+				throw new CancelledError();
+			}
+			console.error('Chat stream error:', error);
+			throw prefixErrorMessage(error, 'Chat failed');
 		}
 	}
 
@@ -107,11 +212,14 @@ export abstract class BaseProvider implements ModelProvider {
 				additionalFields: this.getAdditionalFormFields(),
 			});
 
-			const result = await this.sendTranscriptionRequest(boundary, formData);
+			const result = await this.sendTranscriptionRequest(boundary, formData, options.signal);
 			new Notice('Transcription complete!');
 
 			return this.parseTranscriptionResponse(result, audioFilePath, timestampGranularity);
 		} catch (error) {
+			if (isCancelledError(error)) {
+				throw error;
+			}
 			console.error('Transcription error:', error);
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			new Notice(`Transcription failed: ${errorMessage}`);
@@ -135,23 +243,109 @@ export abstract class BaseProvider implements ModelProvider {
 		return result.text;
 	}
 
-	private async sendTranscriptionRequest(boundary: string, formData: ArrayBuffer): Promise<TranscriptionApiResponse> {
+	private async sendTranscriptionRequest(boundary: string, formData: ArrayBuffer, signal?: AbortSignal): Promise<TranscriptionApiResponse> {
 		const apiUrl = this.buildTranscriptionUrl();
-		const response = await requestUrl({
-			url: apiUrl,
-			method: 'POST',
-			headers: {
-				...this.getAuthHeaders(),
-				'Content-Type': `multipart/form-data; boundary=${boundary}`,
-			},
-			body: formData,
-		});
+		const response = await withRetry(
+			() => this.sendRequest({
+				url: apiUrl,
+				method: 'POST',
+				headers: {
+					...this.getAuthHeaders(),
+					'Content-Type': `multipart/form-data; boundary=${boundary}`,
+				},
+				body: formData,
+			}, signal),
+			this.retryPolicy,
+			`${this.getProviderDisplayName()} transcription`,
+			signal
+		);
+
+		return response.json as TranscriptionApiResponse;
+	}
 
-		if (response.status !== 200) {
-			throw new Error(`${this.getProviderDisplayName()} API error: ${response.status} - ${response.text}`);
+	async listModels(signal?: AbortSignal): Promise<DiscoveredModel[]> {
+		try {
+			const response = await withRetry(
+				() => this.sendRequest({
+					url: this.buildModelsUrl(),
+					method: 'GET',
+					headers: this.getAuthHeaders(),
+				}, signal),
+				this.retryPolicy,
+				`${this.getProviderDisplayName()} model listing`,
+				signal
+			);
+
+			return this.parseModelsResponse(response.json)
+				.sort((a, b) => a.modelId.localeCompare(b.modelId));
+		} catch (error) {
+			throw prefixErrorMessage(error, 'Fetching models failed');
 		}
+	}
 
-		return response.json as TranscriptionApiResponse;
+	/**
+	 * Send a single request, converting network failures and non-2xx responses
+	 * into ProviderRequestError so the retry policy can classify them.
+	 * requestUrl can't be aborted, so on cancellation its response is ignored.
+	 */
+	private async sendRequest(request: RequestUrlParam, signal?: AbortSignal): Promise<RequestUrlResponse> {
+		let response: RequestUrlResponse;
+		try {
+			response = await raceWithSignal(requestUrl({ ...request, throw: false }), signal);
+		} catch (error) {
+			if (isCancelledError(error)) {
+				throw error;
+			}
+			throw this.createNetworkError(error);
+		}
+
+		if (response.status < 200 || response.status >= 300) {
+			throw this.createStatusError(response.status, response.headers, response.text);
+		}
+
+		return response;
+	}
+
+	/**
+	 * Open a streaming request, converting failures the same way as sendRequest.
+	 */
+	private async openStream(url: string, body: string, signal?: AbortSignal): Promise<EventStreamResponse> {
+		let stream: EventStreamResponse;
+		try {
+			stream = await openEventStream({
+				url,
+				headers: {
+					...this.getAuthHeaders(),
+					'Content-Type': 'application/json',
+				},
+				body,
+				signal,
+			});
+		} catch (error) {
+			if (isCancelledError(error)) {
+				throw error;
+			}
+			throw this.createNetworkError(error);
+		}
+
+		if (stream.status < 200 || stream.status >= 300) {
+			throw this.createStatusError(stream.status, stream.headers, await stream.text());
+		}
+
+		return stream;
+	}
+
+	private createStatusError(status: number, headers: Record<string, string>, text: string): ProviderRequestError {
+		return new ProviderRequestError(
+			`${this.getProviderDisplayName()} API error: ${status} - ${text}`,
+			status,
+			parseRetryAfter(headers)
+		);
+	}
+
+	private createNetworkError(error: unknown): ProviderRequestError {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		return new ProviderRequestError(`${this.getProviderDisplayName()} request failed: ${errorMessage}`, 0);
 	}
 
 	/**
@@ -191,6 +385,64 @@ export abstract class BaseProvider implements ModelProvider {
 	 */
 	protected abstract buildChatRequestBody(messages: ChatMessage[], options: ChatOptions): Record<string, unknown>;
 
+	/**
+	 * Whether this provider can stream chat responses.
+	 * When false, streamChat falls back to sendChat and yields a single delta.
+	 */
+	protected supportsStreaming(): boolean {
+		return true;
+	}
+
+	/**
+	 * Get extra request body fields that enable streaming and ask for token usage
+	 * in the final streamed chunk
+	 */
+	protected getStreamingRequestFields(): Record<string, unknown> {
+		return {
+			stream: true,
+			stream_options: { include_usage: true },
+		};
+	}
+
+	/**
+	 * Build the OpenAI-style `response_format` field that requests JSON matching a schema
+	 */
+	protected buildResponseFormatField(format: ChatResponseFormat): Record<string, unknown> {
+		return {
+			type: 'json_schema',
+			json_schema: {
+				name: format.name,
+				schema: format.schema,
+			},
+		};
+	}
+
+	/**
+	 * Parse a single streamed event into a delta.
+	 * Defaults to the OpenAI-compatible chunk shape; returns null for events with nothing to report.
+	 */
+	protected parseChatStreamEvent(event: ServerSentEvent): ChatStreamDelta | null {
+		if (event.data === '[DONE]') {
+			return null;
+		}
+
+		const chunk = JSON.parse(event.data) as ChatStreamApiChunk;
+		const content = chunk.choices?.[0]?.delta?.content ?? '';
+
+		if (chunk.usage) {
+			return {
+				content,
+				usage: {
+					promptTokens: chunk.usage.prompt_tokens,
+					completionTokens: chunk.usage.completion_tokens,
+					totalTokens: chunk.usage.total_tokens,
+				},
+			};
+		}
+
+		return content ? { content } : null;
+	}
+
 	/**
 	 * Get additional form fields for the multipart request (e.g., model field for OpenAI)
 	 */
@@ -199,9 +451,35 @@ export abstract class BaseProvider implements ModelProvider {
 	}
 
 	/**
-	 * Parse the chat API response into a ChatResult
+	 * Build the URL that lists available models.
+	 * Defaults to the OpenAI-compatible `GET /models` route.
+	 */
+	protected buildModelsUrl(): string {
+		const endpoint = this.endpoint.replace(/\/$/, '');
+		return `${endpoint}/models`;
+	}
+
+	/**
+	 * Parse the model listing response.
+	 * Defaults to the OpenAI-compatible `data[].id` shape.
+	 */
+	protected parseModelsResponse(json: unknown): DiscoveredModel[] {
+		const response = json as ModelListApiResponse;
+		return (response.data ?? []).map(model => ({
+			modelId: model.id,
+			deploymentName: model.id,
+			displayName: model.display_name,
+			...inferModelCapabilities(model.id),
+		}));
+	}
+
+	/**
+	 * Parse the chat API response into a ChatResult.
+	 * Defaults to the OpenAI-compatible `choices[]` shape; providers with a
+	 * different response format override this.
 	 */
-	protected parseChatResponse(response: ChatApiResponse): ChatResult {
+	protected parseChatResponse(json: unknown): ChatResult {
+		const response = json as ChatApiResponse;
 		const choice = response.choices[0];
 		if (!choice) {
 			throw new Error('No response from chat API');
@@ -9,7 +9,10 @@ export type {
 	ChatMessage,
 	ChatMessageRole,
 	ChatOptions,
+	ChatResponseFormat,
 	ChatResult,
+	ChatStreamDelta,
+	DiscoveredModel,
 } from './types';
 
 // Base class (for extending)
@@ -18,12 +21,23 @@ export { BaseProvider } from './base-provider';
 // Model provider implementations
 export { AzureOpenAIModelProvider } from './azure-openai-provider';
 export { OpenAIModelProvider } from './openai-provider';
+export { AnthropicModelProvider } from './anthropic-provider';
+export { OpenAICompatibleModelProvider } from './openai-compatible-provider';
 
 // Factory functions
 export {
+	buildProviderConfig,
 	createModelProvider,
 	createWorkflowProvider,
+	createProviderFromSelection,
 	createActionProvider,
 	ProviderCreationError,
 } from './provider-factory';
 
+
+// Retry handling
+export {
+	ProviderRequestError,
+	isRetryableError,
+	withRetry,
+} from './retry-policy';
@@ -0,0 +1,92 @@
+import { ModelProviderConfig, ChatMessage, ChatOptions } from './types';
+import { AIProviderType } from '../settings/index';
+import { BaseProvider } from './base-provider';
+import { FormField } from '../processing/audio-processor';
+
+/**
+ * Generic provider for servers that implement the OpenAI API shape
+ * (Ollama, LM Studio, llama.cpp, vLLM, self-hosted Whisper servers, etc.).
+ * The API key is optional and custom headers are sent with every request.
+ */
+export class OpenAICompatibleModelProvider extends BaseProvider {
+	readonly type: AIProviderType = 'openai-compatible';
+
+	private readonly customHeaders: Record<string, string>;
+	private readonly omitModelField: boolean;
+
+	constructor(config: ModelProviderConfig) {
+		super(config);
+		this.customHeaders = config.customHeaders ?? {};
+		this.omitModelField = config.omitModelField ?? false;
+	}
+
+	protected buildTranscriptionUrl(): string {
+		const endpoint = this.endpoint.replace(/\/$/, '');
+		return `${endpoint}/audio/transcriptions`;
+	}
+
+	protected buildChatUrl(): string {
+		const endpoint = this.endpoint.replace(/\/$/, '');
+		return `${endpoint}/chat/completions`;
+	}
+
+	protected getAuthHeaders(): Record<string, string> {
+		const headers: Record<string, string> = { ...this.customHeaders };
+		// Local servers usually don't need a key, so only send one when configured
+		if (this.apiKey) {
+			headers['Authorization'] = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	protected validateTranscriptionConfig(): void {
+		if (!this.endpoint) {
+			throw new Error('OpenAI-compatible endpoint is not configured.');
+		}
+	}
+
+	protected validateChatConfig(): void {
+		if (!this.endpoint) {
+			throw new Error('OpenAI-compatible endpoint is not configured.');
+		}
+	}
+
+	protected buildChatRequestBody(messages: ChatMessage[], options: ChatOptions): Record<string, unknown> {
+		const body: Record<string, unknown> = {
+			messages: messages.map(m => ({ role: m.role, content: m.content })),
+		};
+
+		if (this.modelId) {
+			body.model = this.modelId;
+		}
+		if (options.maxTokens !== undefined) {
+			body.max_tokens = options.maxTokens;
+		}
+		if (options.temperature !== undefined) {
+			body.temperature = options.temperature;
+		}
+		if (options.topP !== undefined) {
+			body.top_p = options.topP;
+		}
+		if (options.stopSequences && options.stopSequences.length > 0) {
+			body.stop = options.stopSequences;
+		}
+		if (options.responseFormat) {
+			body.response_format = this.buildResponseFormatField(options.responseFormat);
+		}
+
+		return body;
+	}
+
+	/**
+	 * Include the model field unless the server rejects it or no model ID is set
+	 */
+	protected override getAdditionalFormFields(): FormField[] {
+		if (this.omitModelField || !this.modelId) {
+			return [];
+		}
+		return [
+			{ name: 'model', value: this.modelId },
+		];
+	}
+}
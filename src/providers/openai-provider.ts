@@ -59,6 +59,15 @@ export class OpenAIModelProvider extends BaseProvider {
 		if (options.temperature !== undefined) {
 			body.temperature = options.temperature;
 		}
+		if (options.topP !== undefined) {
+			body.top_p = options.topP;
+		}
+		if (options.stopSequences && options.stopSequences.length > 0) {
+			body.stop = options.stopSequences;
+		}
+		if (options.responseFormat) {
+			body.response_format = this.buildResponseFormatField(options.responseFormat);
+		}
 
 		return body;
 	}
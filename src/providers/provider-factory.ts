@@ -1,7 +1,10 @@
-import { AIToolboxSettings, AIProviderConfig, AIModelConfig, DEFAULT_OPENAI_ENDPOINT, WorkflowConfig, ProviderModelSelection, WorkflowAction } from '../settings/index';
+import { AIToolboxSettings, AIProviderConfig, AIModelConfig, getDefaultEndpoint, WorkflowConfig, ProviderModelSelection, WorkflowAction } from '../settings/index';
 import { ModelProvider, ModelProviderConfig } from './types';
+import { secretStore } from '../secrets';
 import { AzureOpenAIModelProvider } from './azure-openai-provider';
 import { OpenAIModelProvider } from './openai-provider';
+import { AnthropicModelProvider } from './anthropic-provider';
+import { OpenAICompatibleModelProvider } from './openai-compatible-provider';
 
 /**
  * Error thrown when a model provider cannot be created
@@ -15,10 +18,13 @@ export class ProviderCreationError extends Error {
 
 /**
  * Build a ModelProviderConfig from provider and model settings.
+ * The API key reference (environment variable, secret storage or encrypted value) is resolved here.
+ *
+ * @throws SecretUnavailableError if the API key can't be read on this device
  */
-function buildProviderConfig(provider: AIProviderConfig, model: AIModelConfig): ModelProviderConfig {
-	// Use default OpenAI endpoint if not configured
-	const endpoint = provider.endpoint || (provider.type === 'openai' ? DEFAULT_OPENAI_ENDPOINT : '');
+export function buildProviderConfig(provider: AIProviderConfig, model: AIModelConfig): ModelProviderConfig {
+	// Use the provider type's default endpoint if not configured
+	const endpoint = provider.endpoint || getDefaultEndpoint(provider.type);
 
 	return {
 		id: provider.id,
@@ -26,11 +32,14 @@ function buildProviderConfig(provider: AIProviderConfig, model: AIModelConfig):
 		modelDisplayName: model.name,
 		type: provider.type,
 		endpoint: endpoint,
-		apiKey: provider.apiKey,
+		apiKey: secretStore.resolve(provider.apiKey),
 		modelId: model.modelId,
 		deploymentName: model.deploymentName || model.modelId,
 		supportsChat: model.supportsChat,
 		supportsTranscription: model.supportsTranscription,
+		customHeaders: provider.customHeaders,
+		omitModelField: provider.omitModelField,
+		retryPolicy: provider.retryPolicy,
 	};
 }
 
@@ -48,7 +57,9 @@ export function createModelProvider(config: ModelProviderConfig): ModelProvider
 		case 'openai':
 			return new OpenAIModelProvider(config);
 		case 'anthropic':
-			throw new ProviderCreationError(`Anthropic model provider is not yet implemented.`);
+			return new AnthropicModelProvider(config);
+		case 'openai-compatible':
+			return new OpenAICompatibleModelProvider(config);
 		default:
 			throw new ProviderCreationError(`Unknown provider type: ${config.type as string}`);
 	}
@@ -62,7 +73,7 @@ export function createModelProvider(config: ModelProviderConfig): ModelProvider
  * @returns A configured ModelProvider, or null if not found
  * @throws ProviderCreationError if the provider cannot be created
  */
-function createProviderFromSelection(settings: AIToolboxSettings, selection: ProviderModelSelection): ModelProvider | null {
+export function createProviderFromSelection(settings: AIToolboxSettings, selection: ProviderModelSelection): ModelProvider | null {
 	const provider = settings.providers.find(p => p.id === selection.providerId);
 	if (!provider) {
 		return null;
@@ -0,0 +1,130 @@
+import { RetryPolicyConfig } from '../settings';
+import { logDebug, logWarn, LogCategory } from '../logging';
+import { sleep, throwIfCancelled } from '../utils/abort-utils';
+
+// Upper bound for any single wait, including server-requested Retry-After delays
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Error thrown when a provider request fails, carrying the HTTP status so
+ * callers can decide whether the failure is transient.
+ */
+export class ProviderRequestError extends Error {
+	/** HTTP status code, or 0 when the request never reached the server */
+	readonly status: number;
+	/** Server-requested delay from the Retry-After header, if any */
+	readonly retryAfterMs?: number;
+
+	constructor(message: string, status: number, retryAfterMs?: number) {
+		super(message);
+		this.name = 'ProviderRequestError';
+		this.status = status;
+		this.retryAfterMs = retryAfterMs;
+	}
+}
+
+/**
+ * Check whether an error is transient and safe to retry.
+ * Only network failures, request timeouts, rate limits and server errors qualify;
+ * client errors (bad key, bad request) and configuration errors fail immediately.
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (!(error instanceof ProviderRequestError)) {
+		return false;
+	}
+	const { status } = error;
+	return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse the server-requested retry delay from response headers.
+ * Supports `retry-after-ms` (used by OpenAI and Azure) and `retry-after`
+ * in either delay-seconds or HTTP-date form.
+ */
+export function parseRetryAfter(headers: Record<string, string>): number | undefined {
+	const lookup = (name: string): string | undefined => {
+		const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+		return key ? headers[key] : undefined;
+	};
+
+	const retryAfterMs = lookup('retry-after-ms');
+	if (retryAfterMs !== undefined) {
+		const ms = parseFloat(retryAfterMs);
+		if (!isNaN(ms) && ms >= 0) {
+			return ms;
+		}
+	}
+
+	const retryAfter = lookup('retry-after');
+	if (retryAfter === undefined) {
+		return undefined;
+	}
+
+	const seconds = parseFloat(retryAfter);
+	if (!isNaN(seconds) && seconds >= 0) {
+		return seconds * 1000;
+	}
+
+	const date = Date.parse(retryAfter);
+	if (!isNaN(date)) {
+		return Math.max(0, date - Date.now());
+	}
+
+	return undefined;
+}
+
+/**
+ * Compute the delay before the next attempt.
+ * Uses exponential backoff with jitter, or the server's Retry-After when allowed.
+ */
+function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicyConfig): number {
+	if (policy.respectRetryAfter && error instanceof ProviderRequestError && error.retryAfterMs !== undefined) {
+		return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS);
+	}
+
+	const exponential = policy.baseDelayMs * Math.pow(2, attempt - 1);
+	const jitter = Math.random() * policy.baseDelayMs;
+	return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Run an operation, retrying transient failures according to the retry policy.
+ * Each attempt and retry is logged under the provider category.
+ *
+ * @param operation - The request to run; called once per attempt
+ * @param policy - Retry policy (attempt count, base delay, Retry-After handling)
+ * @param label - Description of the request for log messages
+ * @param signal - Stops further attempts and waits when aborted
+ * @returns The operation's result from the first successful attempt
+ * @throws The last error if all attempts fail or the error is not retryable
+ */
+export async function withRetry<T>(
+	operation: () => Promise<T>,
+	policy: RetryPolicyConfig,
+	label: string,
+	signal?: AbortSignal
+): Promise<T> {
+	const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+
+	for (let attempt = 1; ; attempt++) {
+		throwIfCancelled(signal);
+		logDebug(LogCategory.PROVIDER, `${label}: attempt ${attempt}/${maxAttempts}`);
+
+		try {
+			return await operation();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+
+			if (attempt >= maxAttempts || !isRetryableError(error)) {
+				if (attempt > 1) {
+					logWarn(LogCategory.PROVIDER, `${label}: giving up after ${attempt} attempts: ${errorMessage}`);
+				}
+				throw error;
+			}
+
+			const delay = getRetryDelay(error, attempt, policy);
+			logWarn(LogCategory.PROVIDER, `${label}: attempt ${attempt}/${maxAttempts} failed (${errorMessage}). Retrying in ${(delay / 1000).toFixed(1)}s`);
+			await sleep(delay, signal);
+		}
+	}
+}
@@ -0,0 +1,174 @@
+import * as http from 'http';
+import * as https from 'https';
+import { Buffer } from 'buffer';
+import { CancelledError } from '../utils/abort-utils';
+
+/**
+ * A single server-sent event parsed from a streaming response
+ */
+export interface ServerSentEvent {
+	/** Event type from the `event:` field ('message' when not specified) */
+	event: string;
+	/** Event payload from the `data:` field(s), joined with newlines */
+	data: string;
+}
+
+/**
+ * Options for opening a server-sent events stream
+ */
+export interface StreamRequestOptions {
+	url: string;
+	headers: Record<string, string>;
+	body: string;
+	/** Destroys the connection when aborted */
+	signal?: AbortSignal;
+}
+
+/**
+ * An opened event stream response. The body is not consumed until
+ * `events()` or `text()` is called, so callers can check the status first.
+ */
+export interface EventStreamResponse {
+	/** HTTP status code */
+	status: number;
+	/** Response headers (lowercase names) */
+	headers: Record<string, string>;
+	/** Read the whole body as text (for error responses) */
+	text(): Promise<string>;
+	/** Yield server-sent events as they arrive */
+	events(): AsyncGenerator<ServerSentEvent, void, undefined>;
+}
+
+/**
+ * Send a POST request and resolve once the response headers arrive.
+ * Uses Node's http/https modules since requestUrl buffers the whole response.
+ * The signal stays attached until the connection closes, so aborting also stops
+ * reading the body.
+ */
+function openResponse(options: StreamRequestOptions): Promise<http.IncomingMessage> {
+	const { signal } = options;
+	if (signal?.aborted) {
+		return Promise.reject(new CancelledError());
+	}
+
+	return new Promise((resolve, reject) => {
+		const url = new URL(options.url);
+		const transport = url.protocol === 'http:' ? http : https;
+
+		const request = transport.request(url, {
+			method: 'POST',
+			headers: {
+				...options.headers,
+				'Accept': 'text/event-stream',
+				'Content-Length': Buffer.byteLength(options.body),
+			},
+		}, resolve);
+
+		request.on('error', reject);
+		if (signal) {
+			const onAbort = () => request.destroy(new CancelledError());
+			signal.addEventListener('abort', onAbort, { once: true });
+			request.on('close', () => signal.removeEventListener('abort', onAbort));
+		}
+		request.end(options.body);
+	});
+}
+
+/**
+ * Read the full response body as text (used for error responses)
+ */
+async function readResponseText(response: http.IncomingMessage): Promise<string> {
+	response.setEncoding('utf8');
+	let text = '';
+	for await (const chunk of response as AsyncIterable<string>) {
+		text += chunk;
+	}
+	return text;
+}
+
+/**
+ * Parse one blank-line-delimited block of an event stream.
+ * Returns null for blocks without data (comments, keep-alives).
+ */
+function parseEventBlock(block: string): ServerSentEvent | null {
+	let event = 'message';
+	const dataLines: string[] = [];
+
+	for (const line of block.split(/\r?\n/)) {
+		if (!line || line.startsWith(':')) {
+			continue;
+		}
+
+		const separatorIndex = line.indexOf(':');
+		const field = separatorIndex === -1 ? line : line.substring(0, separatorIndex);
+		let value = separatorIndex === -1 ? '' : line.substring(separatorIndex + 1);
+		if (value.startsWith(' ')) {
+			value = value.substring(1);
+		}
+
+		if (field === 'event') {
+			event = value;
+		} else if (field === 'data') {
+			dataLines.push(value);
+		}
+	}
+
+	if (dataLines.length === 0) {
+		return null;
+	}
+
+	return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Yield server-sent events from a response body as chunks arrive.
+ */
+async function* readServerSentEvents(response: http.IncomingMessage): AsyncGenerator<ServerSentEvent, void, undefined> {
+	response.setEncoding('utf8');
+	const blockSeparator = /\r?\n\r?\n/;
+	let buffer = '';
+
+	for await (const chunk of response as AsyncIterable<string>) {
+		buffer += chunk;
+
+		let match = blockSeparator.exec(buffer);
+		while (match) {
+			const parsed = parseEventBlock(buffer.substring(0, match.index));
+			buffer = buffer.substring(match.index + match[0].length);
+			if (parsed) {
+				yield parsed;
+			}
+			match = blockSeparator.exec(buffer);
+		}
+	}
+
+	// Flush a final event that wasn't followed by a blank line
+	const parsed = parseEventBlock(buffer);
+	if (parsed) {
+		yield parsed;
+	}
+}
+
+/**
+ * POST a request and resolve with the event stream once response headers arrive.
+ *
+ * @param options - Request URL, headers and JSON body
+ * @throws Error if the request cannot be sent (network failure)
+ */
+export async function openEventStream(options: StreamRequestOptions): Promise<EventStreamResponse> {
+	const response = await openResponse(options);
+
+	const headers: Record<string, string> = {};
+	for (const [name, value] of Object.entries(response.headers)) {
+		if (value !== undefined) {
+			headers[name] = Array.isArray(value) ? value.join(', ') : value;
+		}
+	}
+
+	return {
+		status: response.statusCode ?? 0,
+		headers,
+		text: () => readResponseText(response),
+		events: () => readServerSentEvents(response),
+	};
+}
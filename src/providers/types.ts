@@ -1,4 +1,4 @@
-import { AIProviderType, TimestampGranularity } from '../settings';
+import { AIProviderType, RetryPolicyConfig, TimestampGranularity } from '../settings';
 import { TestAudioData, TranscriptionWord, TranscriptionSegment } from '../processing/audio-processor';
 
 // Re-export types for consumers of this module
@@ -10,6 +10,8 @@ export type { TestAudioData, TranscriptionWord, TranscriptionSegment };
 export interface TranscriptionOptions {
 	timestampGranularity?: TimestampGranularity;
 	language?: string;
+	/** Cancels the request when aborted */
+	signal?: AbortSignal;
 }
 
 /**
@@ -48,6 +50,16 @@ export interface ChatMessage {
 	content: string;
 }
 
+/**
+ * Structured output format for a chat response
+ */
+export interface ChatResponseFormat {
+	/** Name for the schema (sent to providers that require one) */
+	name: string;
+	/** JSON schema the response must match */
+	schema: Record<string, unknown>;
+}
+
 /**
  * Options for chat completion requests
  */
@@ -56,6 +68,14 @@ export interface ChatOptions {
 	maxTokens?: number;
 	/** Temperature for response randomness (0-2) */
 	temperature?: number;
+	/** Nucleus sampling probability mass (0-1) */
+	topP?: number;
+	/** Sequences that stop generation when produced */
+	stopSequences?: string[];
+	/** Ask the model for JSON matching a schema */
+	responseFormat?: ChatResponseFormat;
+	/** Cancels the request when aborted */
+	signal?: AbortSignal;
 }
 
 /**
@@ -72,6 +92,32 @@ export interface ChatResult {
 	};
 }
 
+/**
+ * A single increment of a streamed chat completion
+ */
+export interface ChatStreamDelta {
+	/** Newly generated text (may be empty for usage-only events) */
+	content: string;
+	/** Token usage so far, when the provider reports it during the stream */
+	usage?: ChatResult['usage'];
+}
+
+/**
+ * A model offered by a provider's API, with capabilities inferred from its ID
+ */
+export interface DiscoveredModel {
+	/** Model ID sent in requests */
+	modelId: string;
+	/** Azure deployment name (same as the model ID for other providers) */
+	deploymentName: string;
+	/** Human-readable name, when the API provides one */
+	displayName?: string;
+	/** Whether the model looks like a chat model */
+	supportsChat: boolean;
+	/** Whether the model looks like a transcription model */
+	supportsTranscription: boolean;
+}
+
 /**
  * Configuration for creating a model provider instance
  */
@@ -82,7 +128,7 @@ export interface ModelProviderConfig {
 	name: string;
 	/** Human-readable name for the model */
 	modelDisplayName: string;
-	/** The type of provider (azure-openai, openai, anthropic) */
+	/** The type of provider (azure-openai, openai, anthropic, openai-compatible) */
 	type: AIProviderType;
 	/** API endpoint URL */
 	endpoint: string;
@@ -96,6 +142,12 @@ export interface ModelProviderConfig {
 	supportsChat?: boolean;
 	/** Whether this model supports audio transcription */
 	supportsTranscription?: boolean;
+	/** Extra HTTP headers sent with every request */
+	customHeaders?: Record<string, string>;
+	/** Whether to omit the model form field from transcription requests */
+	omitModelField?: boolean;
+	/** Retry policy for transient failures */
+	retryPolicy?: RetryPolicyConfig;
 }
 
 /**
@@ -148,11 +200,32 @@ export interface ModelProvider {
 	 */
 	sendChat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResult>;
 
+	/**
+	 * Send a chat completion request and stream the response as it is generated.
+	 * Providers without streaming support yield the full response as a single delta.
+	 *
+	 * @param messages - Array of chat messages forming the conversation
+	 * @param options - Optional chat options (max tokens, temperature, etc.)
+	 * @returns Async iterable of response deltas
+	 * @throws Error if chat fails or is not supported by this provider
+	 */
+	streamChat(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatStreamDelta>;
+
 	/**
 	 * Check if this provider supports chat/conversation.
 	 *
 	 * @returns true if sendChat() is available
 	 */
 	supportsChat(): boolean;
+
+	/**
+	 * List the models (or Azure deployments) available from the provider's API.
+	 * Only the provider's endpoint and credentials are used; the model settings are ignored.
+	 *
+	 * @param signal - Cancels the request when aborted
+	 * @returns Promise resolving to the available models, sorted by ID
+	 * @throws Error if the provider can't list models or the request fails
+	 */
+	listModels(signal?: AbortSignal): Promise<DiscoveredModel[]>;
 }
 
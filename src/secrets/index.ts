@@ -0,0 +1,20 @@
+// Re-export secret store
+export {
+    secretStore,
+    SecretUnavailableError,
+    isEnvironmentReference,
+    isPlaintextSecret
+} from './secret-store';
+
+// Re-export secret field helpers
+export type { SecretSettings, SecretField } from './secret-fields';
+export {
+    getProviderSecretId,
+    getHttpAuthSecretId,
+    getSecretFields,
+    migratePlaintextSecrets,
+    readSecrets,
+    writeSecrets,
+    copySecretValues,
+    redactSecrets
+} from './secret-fields';
@@ -0,0 +1,153 @@
+import { AIToolboxSettings, SecretStorageMode } from '../settings';
+import { isEnvironmentReference, isPlaintextSecret, secretStore } from './secret-store';
+
+/**
+ * Settings that can hold secrets
+ */
+export type SecretSettings = Pick<AIToolboxSettings, 'providers' | 'workflows'>;
+
+/**
+ * A settings field holding a secret or a reference to one
+ */
+export interface SecretField {
+    /** Stable ID used as the secret's name in Obsidian's secret storage */
+    id: string;
+    get(): string;
+    set(value: string): void;
+}
+
+/**
+ * Secret ID of a provider's API key
+ */
+export function getProviderSecretId(providerId: string): string {
+    return `provider-${providerId}-api-key`;
+}
+
+/**
+ * Secret ID of an HTTP request action's bearer token or password
+ */
+export function getHttpAuthSecretId(actionId: string, field: 'bearer-token' | 'password'): string {
+    return `action-${actionId}-${field}`;
+}
+
+/**
+ * List every field in the settings that holds a secret: provider API keys
+ * and the credentials of HTTP request actions.
+ */
+export function getSecretFields(settings: SecretSettings): SecretField[] {
+    const fields: SecretField[] = [];
+
+    for (const provider of settings.providers) {
+        fields.push({
+            id: getProviderSecretId(provider.id),
+            get: () => provider.apiKey,
+            set: (value) => { provider.apiKey = value; }
+        });
+    }
+
+    for (const workflow of settings.workflows) {
+        for (const action of workflow.actions) {
+            if (action.type !== 'http-request' || !action.auth) {
+                continue;
+            }
+            const auth = action.auth;
+            fields.push({
+                id: getHttpAuthSecretId(action.id, 'bearer-token'),
+                get: () => auth.bearerToken ?? '',
+                set: (value) => { auth.bearerToken = value || undefined; }
+            });
+            fields.push({
+                id: getHttpAuthSecretId(action.id, 'password'),
+                get: () => auth.password ?? '',
+                set: (value) => { auth.password = value || undefined; }
+            });
+        }
+    }
+
+    return fields;
+}
+
+/**
+ * Move secrets saved in plain text into the configured storage.
+ * Used for keys saved before secure storage existed, and for keys entered
+ * while passphrase-encrypted storage was locked.
+ *
+ * @returns Number of secrets moved
+ */
+export function migratePlaintextSecrets(settings: AIToolboxSettings): number {
+    const mode = settings.secretStorage ?? 'plaintext';
+    if (mode === 'plaintext' || (mode === 'passphrase' && !secretStore.isUnlocked())) {
+        return 0;
+    }
+
+    let moved = 0;
+    for (const field of getSecretFields(settings)) {
+        const value = field.get();
+        if (isPlaintextSecret(value)) {
+            field.set(secretStore.store(mode, field.id, value));
+            moved++;
+        }
+    }
+    return moved;
+}
+
+/**
+ * Read every secret so they can be stored again in another mode.
+ *
+ * @returns Resolved secrets by field ID (environment variable references are kept)
+ * @throws SecretUnavailableError if any secret can't be read
+ */
+export function readSecrets(settings: SecretSettings): Map<string, string> {
+    const values = new Map<string, string>();
+    for (const field of getSecretFields(settings)) {
+        const value = field.get();
+        values.set(field.id, isEnvironmentReference(value) ? value : secretStore.resolve(value));
+    }
+    return values;
+}
+
+/**
+ * Store secrets read with readSecrets in the given mode and update the settings
+ * to point at them.
+ *
+ * @returns The replaced values; clear them with secretStore.remove once the new settings are kept
+ * @throws SecretUnavailableError if the storage isn't usable
+ */
+export function writeSecrets(settings: SecretSettings, mode: SecretStorageMode, values: Map<string, string>): string[] {
+    const replaced: string[] = [];
+    for (const field of getSecretFields(settings)) {
+        const previous = field.get();
+        const updated = secretStore.store(mode, field.id, values.get(field.id) ?? '');
+        if (previous !== updated) {
+            replaced.push(previous);
+        }
+        field.set(updated);
+    }
+    return replaced;
+}
+
+/**
+ * Copy every secret field's value between two copies of the same settings
+ */
+export function copySecretValues(from: SecretSettings, to: SecretSettings): void {
+    const values = new Map(getSecretFields(from).map(field => [field.id, field.get()]));
+    for (const field of getSecretFields(to)) {
+        const value = values.get(field.id);
+        if (value !== undefined) {
+            field.set(value);
+        }
+    }
+}
+
+/**
+ * Copy settings with every secret removed, for exporting or sharing.
+ * Environment variable references are kept since they contain no secret.
+ */
+export function redactSecrets<T extends SecretSettings>(settings: T): T {
+    const copy = JSON.parse(JSON.stringify(settings)) as T;
+    for (const field of getSecretFields(copy)) {
+        const value = field.get();
+        field.set(isEnvironmentReference(value) ? value : '');
+    }
+    return copy;
+}
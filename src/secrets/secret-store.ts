@@ -0,0 +1,264 @@
+import { App } from 'obsidian';
+import * as crypto from 'crypto';
+import { Buffer } from 'buffer';
+import { env } from 'process';
+import { SecretEncryptionConfig, SecretStorageMode } from '../settings';
+
+// Prefix of a reference to an environment variable, e.g. `env:OPENAI_API_KEY`
+const ENV_PREFIX = 'env:';
+
+// Prefix of a reference to an entry in Obsidian's secret storage
+const OBSIDIAN_PREFIX = 'secret:';
+
+// Prefix of a passphrase-encrypted value
+const ENCRYPTED_PREFIX = 'enc:';
+
+// Prefix for this plugin's entries in Obsidian's secret storage
+const SECRET_ID_PREFIX = 'ai-toolbox-';
+
+// Known value encrypted with the key to verify the passphrase on unlock
+const PASSPHRASE_CHECK_VALUE = 'ai-toolbox';
+
+// PBKDF2 iterations for deriving the encryption key from the passphrase
+const KEY_ITERATIONS = 210000;
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Obsidian's secret storage (1.11.4+), which keeps values outside the vault.
+ * Not in the typings this plugin builds against, so it's detected at runtime.
+ */
+interface ObsidianSecretStorage {
+    getSecret(id: string): string | null;
+    setSecret(id: string, secret: string): void;
+}
+
+/**
+ * Error thrown when a stored secret can't be read on this device
+ */
+export class SecretUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SecretUnavailableError';
+    }
+}
+
+/**
+ * Check whether a value is an environment variable reference (`env:NAME`).
+ * These are kept as-is in every storage mode and are safe to export.
+ */
+export function isEnvironmentReference(value: string): boolean {
+    return value.startsWith(ENV_PREFIX);
+}
+
+/**
+ * Check whether a value is a raw secret rather than a reference to one
+ */
+export function isPlaintextSecret(value: string): boolean {
+    return value !== ''
+        && !value.startsWith(ENV_PREFIX)
+        && !value.startsWith(OBSIDIAN_PREFIX)
+        && !value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Resolves and stores API keys and credentials.
+ * Settings hold either the raw value (plain text mode) or a reference:
+ * `env:NAME`, `secret:<id>` for Obsidian's secret storage, or `enc:<data>`
+ * for a value encrypted with the session's passphrase.
+ */
+class SecretStore {
+    private secretStorage: ObsidianSecretStorage | null = null;
+    // Key derived from the passphrase; held in memory only until locked
+    private key: Buffer | null = null;
+
+    /**
+     * Detect Obsidian's secret storage. Must be called before secrets are resolved.
+     */
+    init(app: App): void {
+        const storage = (app as App & { secretStorage?: Partial<ObsidianSecretStorage> }).secretStorage;
+        this.secretStorage = typeof storage?.getSecret === 'function' && typeof storage.setSecret === 'function'
+            ? storage as ObsidianSecretStorage
+            : null;
+    }
+
+    /**
+     * Whether this version of Obsidian provides secret storage
+     */
+    isObsidianStorageAvailable(): boolean {
+        return this.secretStorage !== null;
+    }
+
+    /**
+     * Whether the passphrase has been entered this session
+     */
+    isUnlocked(): boolean {
+        return this.key !== null;
+    }
+
+    /**
+     * Set up encryption with a new passphrase and unlock with it.
+     *
+     * @returns The key derivation data to save in settings
+     */
+    createEncryption(passphrase: string): SecretEncryptionConfig {
+        const salt = crypto.randomBytes(16);
+        this.key = this.deriveKey(passphrase, salt);
+        return {
+            salt: salt.toString('base64'),
+            check: this.encrypt(PASSPHRASE_CHECK_VALUE, this.key)
+        };
+    }
+
+    /**
+     * Unlock encrypted secrets for this session.
+     *
+     * @returns False if the passphrase is wrong
+     */
+    unlock(passphrase: string, config: SecretEncryptionConfig): boolean {
+        const key = this.deriveKey(passphrase, Buffer.from(config.salt, 'base64'));
+        try {
+            if (this.decrypt(config.check, key) !== PASSPHRASE_CHECK_VALUE) {
+                return false;
+            }
+        } catch {
+            return false;
+        }
+        this.key = key;
+        return true;
+    }
+
+    /**
+     * Forget the passphrase-derived key
+     */
+    lock(): void {
+        this.key = null;
+    }
+
+    /**
+     * Resolve a stored value to the secret it refers to.
+     *
+     * @param value - Raw secret or reference from settings
+     * @returns The secret, or an empty string when none is set
+     * @throws SecretUnavailableError if the reference can't be resolved on this device
+     */
+    resolve(value: string): string {
+        if (value.startsWith(ENV_PREFIX)) {
+            const name = value.substring(ENV_PREFIX.length).trim();
+            const resolved = env[name];
+            if (resolved === undefined) {
+                throw new SecretUnavailableError(`Environment variable ${name} is not set`);
+            }
+            return resolved;
+        }
+
+        if (value.startsWith(OBSIDIAN_PREFIX)) {
+            const id = value.substring(OBSIDIAN_PREFIX.length);
+            const resolved = this.secretStorage?.getSecret(id);
+            if (!resolved) {
+                throw new SecretUnavailableError(`Secret "${id}" is not in Obsidian's secret storage on this device. Enter it again in settings.`);
+            }
+            return resolved;
+        }
+
+        if (value.startsWith(ENCRYPTED_PREFIX)) {
+            if (!this.key) {
+                throw new SecretUnavailableError('API keys are locked. Run the "Unlock API keys" command first.');
+            }
+            return this.decrypt(value.substring(ENCRYPTED_PREFIX.length), this.key);
+        }
+
+        return value;
+    }
+
+    /**
+     * Get the value to show in a settings field: the secret itself, or the
+     * reference for environment variables. Unreadable secrets show as empty.
+     */
+    reveal(value: string): string {
+        if (isEnvironmentReference(value)) {
+            return value;
+        }
+        try {
+            return this.resolve(value);
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Store a secret and get the value to save in settings.
+     * Empty values and environment variable references are saved as-is.
+     *
+     * @param mode - Storage mode from settings
+     * @param id - Stable ID of the secret (e.g., provider-<id>-api-key)
+     * @param secret - The secret entered by the user
+     * @throws SecretUnavailableError if the storage isn't usable
+     */
+    store(mode: SecretStorageMode, id: string, secret: string): string {
+        if (!secret || isEnvironmentReference(secret)) {
+            return secret.trim();
+        }
+
+        if (mode === 'obsidian') {
+            if (!this.secretStorage) {
+                throw new SecretUnavailableError('Obsidian\'s secret storage is not available in this version of Obsidian');
+            }
+            const secretId = `${SECRET_ID_PREFIX}${id}`;
+            this.secretStorage.setSecret(secretId, secret);
+            return `${OBSIDIAN_PREFIX}${secretId}`;
+        }
+
+        if (mode === 'passphrase') {
+            if (!this.key) {
+                throw new SecretUnavailableError('API keys are locked. Run the "Unlock API keys" command first.');
+            }
+            return `${ENCRYPTED_PREFIX}${this.encrypt(secret, this.key)}`;
+        }
+
+        return secret;
+    }
+
+    /**
+     * Clear a secret from Obsidian's secret storage when its reference is replaced
+     */
+    remove(value: string): void {
+        if (value.startsWith(OBSIDIAN_PREFIX)) {
+            this.secretStorage?.setSecret(value.substring(OBSIDIAN_PREFIX.length), '');
+        }
+    }
+
+    private deriveKey(passphrase: string, salt: Buffer): Buffer {
+        return crypto.pbkdf2Sync(passphrase, salt, KEY_ITERATIONS, 32, 'sha256');
+    }
+
+    /**
+     * Encrypt a value as base64 of IV, auth tag and ciphertext
+     */
+    private encrypt(value: string, key: Buffer): string {
+        const iv = crypto.randomBytes(IV_LENGTH);
+        const cipher = crypto.createCipheriv(CIPHER, key, iv);
+        const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+        return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+    }
+
+    private decrypt(data: string, key: Buffer): string {
+        const bytes = Buffer.from(data, 'base64');
+        const iv = bytes.subarray(0, IV_LENGTH);
+        const tag = bytes.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+        const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+        decipher.setAuthTag(tag);
+        try {
+            return Buffer.concat([decipher.update(bytes.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+        } catch {
+            throw new SecretUnavailableError('An encrypted API key could not be decrypted with this passphrase');
+        }
+    }
+}
+
+/**
+ * Shared secret store instance
+ */
+export const secretStore = new SecretStore();
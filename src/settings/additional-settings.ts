@@ -1,5 +1,31 @@
 import { Setting } from "obsidian";
 import AIToolboxPlugin from "../main";
+import { createPathPicker } from "../components/path-picker";
+import { usageTracker, UsageGrouping, formatAudioMinutes, formatCost } from "../usage";
+import { formatLocalDay } from "../utils/date-utils";
+
+/**
+ * Periods the usage summary can cover, in days (0 for all recorded usage)
+ */
+const USAGE_PERIODS: Record<string, string> = {
+	'1': 'Today',
+	'7': 'Last 7 days',
+	'30': 'Last 30 days',
+	'0': 'All time'
+};
+
+const USAGE_GROUPINGS: Record<UsageGrouping, string> = {
+	'provider': 'By provider',
+	'model': 'By model',
+	'workflow': 'By workflow',
+	'day': 'By day'
+};
+
+// Usage summary view options, kept across settings re-renders
+const usageSummaryState: { grouping: UsageGrouping; periodDays: string } = {
+	grouping: 'model',
+	periodDays: '30'
+};
 
 /**
  * Callbacks for the additional settings tab to communicate with the main settings tab
@@ -52,5 +78,166 @@ export function displayAdditionalSettings(
 	if (showAdvanced) {
 		ffmpegPathSetting.nameEl.addClass('settings-advanced-name');
 	}
+
+	// Transcription section header
+	const transcriptionHeading = new Setting(containerEl)
+		.setName('Transcription')
+		.setHeading();
+	transcriptionHeading.settingEl.addClass('additional-settings-heading');
+	transcriptionHeading.settingEl.toggleClass('settings-advanced-hidden', !showAdvanced);
+
+	const chunkSettings: Setting[] = [];
+
+	chunkSettings.push(new Setting(containerEl)
+		.setName('Chunk length (minutes)')
+		.setDesc('Audio over the 25 MB upload limit is split into chunks of at most this length. Requires FFmpeg.') // eslint-disable-line obsidianmd/ui/sentence-case -- proper noun
+		.addText(text => {
+			text.inputEl.type = 'number';
+			text.inputEl.min = '1';
+			text.setValue(String(plugin.settings.transcriptionChunkMinutes))
+				.onChange(async (value) => {
+					const minutes = parseFloat(value);
+					if (!isNaN(minutes) && minutes > 0) {
+						plugin.settings.transcriptionChunkMinutes = minutes;
+						await plugin.saveSettings();
+					}
+				});
+		}));
+
+	chunkSettings.push(new Setting(containerEl)
+		.setName('Chunk overlap (seconds)')
+		.setDesc('Audio shared between consecutive chunks so words at the boundary are not cut off')
+		.addText(text => {
+			text.inputEl.type = 'number';
+			text.inputEl.min = '0';
+			text.setValue(String(plugin.settings.transcriptionChunkOverlapSeconds))
+				.onChange(async (value) => {
+					const seconds = parseFloat(value);
+					if (!isNaN(seconds) && seconds >= 0) {
+						plugin.settings.transcriptionChunkOverlapSeconds = seconds;
+						await plugin.saveSettings();
+					}
+				});
+		}));
+
+	chunkSettings.push(new Setting(containerEl)
+		.setName('Parallel chunk uploads')
+		.setDesc('Maximum number of chunks transcribed at the same time. Set to 1 to transcribe in sequence.')
+		.addText(text => {
+			text.inputEl.type = 'number';
+			text.inputEl.min = '1';
+			text.setValue(String(plugin.settings.transcriptionChunkConcurrency))
+				.onChange(async (value) => {
+					const concurrency = parseInt(value, 10);
+					if (!isNaN(concurrency) && concurrency >= 1) {
+						plugin.settings.transcriptionChunkConcurrency = concurrency;
+						await plugin.saveSettings();
+					}
+				});
+		}));
+
+	for (const setting of chunkSettings) {
+		setting.settingEl.toggleClass('settings-advanced-hidden', !showAdvanced);
+		if (showAdvanced) {
+			setting.nameEl.addClass('settings-advanced-name');
+		}
+	}
+
+	// Chat section header
+	const chatHeading = new Setting(containerEl)
+		.setName('Chat')
+		.setHeading();
+	chatHeading.settingEl.addClass('additional-settings-heading');
+
+	createPathPicker({
+		containerEl,
+		app: plugin.app,
+		name: 'Conversation folder',
+		description: 'Folder where conversations from the chat view are saved',
+		initialPath: plugin.settings.conversationFolder,
+		allowFiles: false,
+		onChange: (path: string) => {
+			plugin.settings.conversationFolder = path;
+			void plugin.saveSettings();
+		}
+	});
+
+	displayUsageSummary(containerEl);
+}
+
+/**
+ * Display recorded token usage and estimated cost, grouped by provider, model, workflow or day
+ */
+function displayUsageSummary(containerEl: HTMLElement): void {
+	const usageHeading = new Setting(containerEl)
+		.setName('Usage')
+		.setHeading();
+	usageHeading.settingEl.addClass('additional-settings-heading');
+
+	const renderTable = () => {
+		tableContainer.empty();
+
+		const periodDays = parseInt(usageSummaryState.periodDays, 10);
+		let sinceDay: string | undefined;
+		if (periodDays > 0) {
+			const since = new Date();
+			since.setDate(since.getDate() - (periodDays - 1));
+			sinceDay = formatLocalDay(since);
+		}
+
+		const rows = usageTracker.summarize(usageSummaryState.grouping, sinceDay);
+		if (rows.length === 0) {
+			tableContainer.createDiv({ cls: 'usage-summary-empty', text: 'No usage recorded for this period.' });
+			return;
+		}
+
+		const table = tableContainer.createEl('table', { cls: 'usage-summary-table' });
+		const headerRow = table.createEl('thead').createEl('tr');
+		for (const heading of ['', 'Requests', 'Input tokens', 'Output tokens', 'Audio', 'Estimated cost']) {
+			headerRow.createEl('th', { text: heading });
+		}
+
+		const body = table.createEl('tbody');
+		for (const row of rows) {
+			const tr = body.createEl('tr');
+			tr.createEl('td', { text: row.label });
+			tr.createEl('td', { text: row.requests.toLocaleString() });
+			tr.createEl('td', { text: row.promptTokens.toLocaleString() });
+			tr.createEl('td', { text: row.completionTokens.toLocaleString() });
+			tr.createEl('td', { text: row.audioSeconds > 0 ? formatAudioMinutes(row.audioSeconds) : '' });
+			const costCell = tr.createEl('td', { text: row.unpricedRequests === row.requests ? '-' : formatCost(row.cost) });
+			if (row.unpricedRequests > 0) {
+				costCell.setAttr('title', `${row.unpricedRequests} requests used a model without prices and are not included`);
+			}
+		}
+	};
+
+	new Setting(containerEl)
+		.setName('Usage summary')
+		.setDesc('Tokens and audio used by workflows and the chat view. Costs are estimated from the model prices in provider settings.')
+		.addDropdown(dropdown => dropdown
+			.addOptions(USAGE_GROUPINGS)
+			.setValue(usageSummaryState.grouping)
+			.onChange((value) => {
+				usageSummaryState.grouping = value as UsageGrouping;
+				renderTable();
+			}))
+		.addDropdown(dropdown => dropdown
+			.addOptions(USAGE_PERIODS)
+			.setValue(usageSummaryState.periodDays)
+			.onChange((value) => {
+				usageSummaryState.periodDays = value;
+				renderTable();
+			}))
+		.addButton(button => button
+			.setButtonText('Reset')
+			.setWarning()
+			.onClick(async () => {
+				await usageTracker.clear();
+				renderTable();
+			}));
+
+	const tableContainer = containerEl.createDiv({ cls: 'usage-summary' });
+	renderTable();
 }
 
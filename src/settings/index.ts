@@ -8,20 +8,38 @@ import { displayAdditionalSettings, AdditionalSettingsCallbacks } from "./additi
 // Re-export all types and constants from types.ts
 export {
 	DEFAULT_OPENAI_ENDPOINT,
+	DEFAULT_ANTHROPIC_ENDPOINT,
+	getDefaultEndpoint,
+	DEFAULT_RETRY_POLICY,
 	generateId,
 	DEFAULT_SETTINGS,
 	DEFAULT_WORKFLOW_CONFIG,
 	DEFAULT_CHAT_ACTION,
 	DEFAULT_TRANSCRIPTION_ACTION,
-	DEFAULT_HTTP_REQUEST_ACTION
+	DEFAULT_HTTP_REQUEST_ACTION,
+	DEFAULT_OUTPUT_TEMPLATE,
+	DEFAULT_APPEND_TO_NOTE_CONFIG,
+	CURRENT_SETTINGS_VERSION
 } from "./types";
+export { migrateSettings, validateWorkflow, logSettingsRepairReport } from "./migrations";
+export type { SettingsRepairReport, SettingsMigrationResult } from "./migrations";
 export type {
 	AIProviderType,
 	AIModelConfig,
+	ModelPricing,
 	AIProviderConfig,
+	RetryPolicyConfig,
+	BudgetExceededAction,
+	BudgetLimitConfig,
 	ProviderModelSelection,
 	WorkflowConfig,
 	WorkflowOutputType,
+	NoteTargetType,
+	NoteInsertPosition,
+	AppendToNoteConfig,
+	OutputTemplate,
+	FrontmatterProperty,
+	FrontmatterPropertyType,
 	WorkflowType,
 	PromptSourceType,
 	TranscriptionMediaType,
@@ -29,12 +47,19 @@ export type {
 	TimestampGranularity,
 	ChatContextType,
 	ChatContextConfig,
+	JsonExtraction,
 	ActionType,
 	BaseAction,
 	ChatAction,
 	TranscriptionAction,
 	HttpRequestAction,
+	HttpMethod,
+	HttpContentType,
+	HttpAuthType,
+	HttpRequestAuthConfig,
 	WorkflowAction,
+	SecretStorageMode,
+	SecretEncryptionConfig,
 	AIToolboxSettings,
 	SettingsTabType,
 	ExpandOnNextRenderState
@@ -128,7 +153,8 @@ export class AIToolboxSettingTab extends PluginSettingTab {
 		const callbacks: ProviderSettingsCallbacks = {
 			getExpandState: () => this.expandOnNextRender,
 			setExpandState: (state) => { this.expandOnNextRender = state; },
-			refresh: () => this.display()
+			refresh: () => this.display(),
+			isAdvancedVisible: () => this.showAdvancedSettings
 		};
 		displayProvidersSettings(containerEl, this.plugin, callbacks);
 	}
@@ -0,0 +1,508 @@
+import {
+	AIProviderConfig,
+	AIToolboxSettings,
+	CURRENT_SETTINGS_VERSION,
+	DEFAULT_SETTINGS,
+	DEFAULT_TRANSCRIPTION_ACTION,
+	ProviderModelSelection,
+	WorkflowAction,
+	WorkflowConfig,
+	generateId
+} from "./types";
+import { logInfo, logWarn, LogCategory } from "../logging";
+
+/**
+ * Entries changed while loading settings, reported in the log
+ */
+export interface SettingsRepairReport {
+	/** Entries fixed in place (a default filled in, an invalid value replaced) */
+	repaired: string[];
+	/** Entries removed because they couldn't be repaired */
+	dropped: string[];
+}
+
+/**
+ * Result of migrating and validating loaded settings
+ */
+export interface SettingsMigrationResult {
+	settings: AIToolboxSettings;
+	report: SettingsRepairReport;
+	/** Whether the settings differ from what was loaded and should be saved */
+	changed: boolean;
+}
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * A step that upgrades raw settings data from the previous version
+ */
+interface SettingsMigration {
+	/** Version the settings have after this migration */
+	version: number;
+	description: string;
+	migrate: (data: RawObject, report: SettingsRepairReport) => void;
+}
+
+// Fields single-step workflows kept on the workflow itself before actions existed
+const LEGACY_STEP_FIELDS = [
+	'provider',
+	'promptText',
+	'promptSourceType',
+	'promptFilePath',
+	'contexts',
+	'transcriptionContext',
+	'language',
+	'timestampGranularity'
+];
+
+function isObject(value: unknown): value is RawObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getWorkflowLabel(workflow: RawObject, index: number): string {
+	return typeof workflow.name === 'string' && workflow.name ? `workflow "${workflow.name}"` : `workflow ${index + 1}`;
+}
+
+function getActionLabel(action: RawObject, index: number, workflowLabel: string): string {
+	const name = typeof action.name === 'string' && action.name ? `action "${action.name}"` : `action ${index + 1}`;
+	return `${name} in ${workflowLabel}`;
+}
+
+/**
+ * Ordered migrations; each runs once for settings saved before its version
+ */
+const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+	{
+		version: 1,
+		description: 'Move single-step workflows into an actions list',
+		migrate: (data, report) => {
+			const workflows = Array.isArray(data.workflows) ? data.workflows : [];
+			workflows.forEach((workflow: unknown, index) => {
+				if (!isObject(workflow) || Array.isArray(workflow.actions)) {
+					return;
+				}
+				// Workflows from before actions existed kept a single step's fields on the workflow
+				const { type } = workflow;
+				if (type === 'chat' || type === 'transcription') {
+					const action: RawObject = {
+						id: generateId(),
+						name: type === 'chat' ? 'Chat' : 'Transcription',
+						type
+					};
+					for (const key of LEGACY_STEP_FIELDS) {
+						if (workflow[key] !== undefined) {
+							action[key] = workflow[key];
+						}
+						delete workflow[key];
+					}
+					delete workflow.type;
+					workflow.actions = [action];
+					report.repaired.push(`${getWorkflowLabel(workflow, index)}: converted to a workflow with one ${type} action`);
+				}
+			});
+		}
+	},
+	{
+		version: 2,
+		description: 'Fill in action settings that older versions left unset',
+		migrate: (data) => {
+			const workflows = Array.isArray(data.workflows) ? data.workflows : [];
+			for (const workflow of workflows) {
+				if (!isObject(workflow) || !Array.isArray(workflow.actions)) {
+					continue;
+				}
+				for (const action of workflow.actions) {
+					if (!isObject(action)) {
+						continue;
+					}
+					if (action.type === 'transcription' && action.transcriptionContext === undefined) {
+						action.transcriptionContext = { ...DEFAULT_TRANSCRIPTION_ACTION.transcriptionContext };
+					}
+					if (action.type === 'http-request') {
+						action.method = action.method ?? 'GET';
+						action.contentType = action.contentType ?? 'application/json';
+					}
+				}
+			}
+		}
+	}
+];
+
+/**
+ * Collects repairs for one settings entry
+ */
+class EntryValidator {
+	constructor(
+		private readonly entry: RawObject,
+		private readonly label: string,
+		private readonly report: SettingsRepairReport
+	) {}
+
+	private repair(key: string, value: unknown, reason: string): void {
+		this.entry[key] = value;
+		this.report.repaired.push(`${this.label}: ${reason}`);
+	}
+
+	/** Require a string, replacing a missing or invalid value with the fallback */
+	string(key: string, fallback: string): void {
+		if (typeof this.entry[key] !== 'string') {
+			this.repair(key, fallback, `${key} was ${this.entry[key] === undefined ? 'missing' : 'invalid'}`);
+		}
+	}
+
+	/** Require a non-empty ID, generating one when missing */
+	id(key = 'id'): void {
+		if (typeof this.entry[key] !== 'string' || !this.entry[key]) {
+			this.repair(key, generateId(), `${key} was missing, a new one was generated`);
+		}
+	}
+
+	/** Require a finite number, replacing a missing or invalid value with the fallback */
+	number(key: string, fallback: number): void {
+		const value = this.entry[key];
+		if (typeof value !== 'number' || !Number.isFinite(value)) {
+			this.repair(key, fallback, `${key} was ${value === undefined ? 'missing' : 'invalid'}`);
+		}
+	}
+
+	/** Require a boolean, replacing a missing or invalid value with the fallback */
+	boolean(key: string, fallback: boolean): void {
+		if (typeof this.entry[key] !== 'boolean') {
+			this.repair(key, fallback, `${key} was ${this.entry[key] === undefined ? 'missing' : 'invalid'}`);
+		}
+	}
+
+	/** Require one of the allowed values; optional fields may also be unset */
+	oneOf(key: string, allowed: readonly string[], fallback: string | undefined): void {
+		const value = this.entry[key];
+		if (value === undefined && fallback === undefined) {
+			return;
+		}
+		if (typeof value !== 'string' || !allowed.includes(value)) {
+			if (fallback === undefined) {
+				delete this.entry[key];
+				this.report.repaired.push(`${this.label}: removed invalid ${key}`);
+			} else {
+				this.repair(key, fallback, `${key} was ${value === undefined ? 'missing' : `invalid (${JSON.stringify(value)})`}, set to ${fallback}`);
+			}
+		}
+	}
+
+	/** Remove an optional value of the wrong type */
+	optional(key: string, type: 'string' | 'number' | 'boolean'): void {
+		const value = this.entry[key];
+		if (value !== undefined && (typeof value !== type || (type === 'number' && !Number.isFinite(value)))) {
+			delete this.entry[key];
+			this.report.repaired.push(`${this.label}: removed invalid ${key}`);
+		}
+	}
+
+	/** Require an optional record of string values */
+	stringRecord(key: string): void {
+		const value = this.entry[key];
+		if (value === undefined) {
+			return;
+		}
+		if (!isObject(value) || Object.values(value).some(v => typeof v !== 'string')) {
+			delete this.entry[key];
+			this.report.repaired.push(`${this.label}: removed invalid ${key}`);
+		}
+	}
+
+	/**
+	 * Keep the array items that pass validation (or are repaired by it).
+	 *
+	 * @param required - Whether a missing array is replaced with an empty one
+	 * @param validate - Returns the item to keep, or null to drop it
+	 * @param reportsDrops - Whether validate reports dropped items itself
+	 */
+	array<T>(key: string, required: boolean, validate: (item: unknown, index: number) => T | null, reportsDrops = false): void {
+		const value = this.entry[key];
+		if (value === undefined && !required) {
+			return;
+		}
+		if (!Array.isArray(value)) {
+			this.repair(key, [], `${key} was ${value === undefined ? 'missing' : 'invalid'}, reset to an empty list`);
+			return;
+		}
+		const kept: T[] = [];
+		value.forEach((item: unknown, index) => {
+			const validated = validate(item, index);
+			if (validated !== null) {
+				kept.push(validated);
+			} else if (!reportsDrops) {
+				this.report.dropped.push(`${this.label}: ${key} entry ${index + 1} was invalid`);
+			}
+		});
+		this.entry[key] = kept;
+	}
+}
+
+/**
+ * Check a provider/model selection, returning null if it's malformed
+ */
+function validateSelection(value: unknown): ProviderModelSelection | null {
+	if (isObject(value) && typeof value.providerId === 'string' && typeof value.modelId === 'string') {
+		return { providerId: value.providerId, modelId: value.modelId };
+	}
+	return null;
+}
+
+/**
+ * Check a JSON extraction entry, returning null if it's malformed
+ */
+function validateJsonExtraction(value: unknown): unknown {
+	if (isObject(value) && typeof value.name === 'string' && typeof value.path === 'string') {
+		return { ...value, id: typeof value.id === 'string' && value.id ? value.id : generateId() };
+	}
+	return null;
+}
+
+/**
+ * Check a frontmatter property of an output template, returning null if it's malformed
+ */
+function validateFrontmatterProperty(value: unknown): unknown {
+	if (isObject(value) && typeof value.name === 'string' && typeof value.value === 'string') {
+		return {
+			...value,
+			id: typeof value.id === 'string' && value.id ? value.id : generateId(),
+			type: value.type === 'list' ? 'list' : 'text'
+		};
+	}
+	return null;
+}
+
+/**
+ * Validate one workflow action, repairing what can be repaired.
+ *
+ * @returns The action, or null if it must be dropped (not an object or an unknown type)
+ */
+function validateAction(value: unknown, label: string, report: SettingsRepairReport): WorkflowAction | null {
+	if (!isObject(value)) {
+		report.dropped.push(`${label}: not an action`);
+		return null;
+	}
+	if (value.type !== 'chat' && value.type !== 'transcription' && value.type !== 'http-request') {
+		report.dropped.push(`${label}: unknown action type ${String(value.type)}`);
+		return null;
+	}
+
+	const validator = new EntryValidator(value, label, report);
+	validator.id();
+	validator.string('name', value.type === 'http-request' ? 'HTTP request' : value.type === 'chat' ? 'Chat' : 'Transcription');
+	if (value.provider !== null && validateSelection(value.provider) === null) {
+		report.repaired.push(`${label}: provider ${value.provider === undefined ? 'was missing' : 'selection was invalid and was cleared'}`);
+		value.provider = null;
+	}
+
+	if (value.type === 'chat') {
+		validator.string('promptText', '');
+		validator.oneOf('promptSourceType', ['inline', 'from-file'], 'inline');
+		validator.string('promptFilePath', '');
+		validator.oneOf('systemPromptSourceType', ['inline', 'from-file'], undefined);
+		validator.optional('systemPromptText', 'string');
+		validator.optional('systemPromptFilePath', 'string');
+		validator.optional('temperature', 'number');
+		validator.optional('maxTokens', 'number');
+		validator.optional('topP', 'number');
+		validator.optional('includeContextsAsPreamble', 'boolean');
+		validator.optional('responseSchema', 'string');
+		validator.array('stopSequences', false, (item) => typeof item === 'string' ? item : null);
+		validator.array('contexts', false, (item) => isObject(item) && ['selection', 'active-tab', 'clipboard'].includes(item.type as string)
+			? { ...item, id: typeof item.id === 'string' && item.id ? item.id : generateId() }
+			: null);
+		validator.array('jsonExtractions', false, validateJsonExtraction);
+		validator.array('fallbackProviders', false, validateSelection);
+	} else if (value.type === 'transcription') {
+		if (!isObject(value.transcriptionContext)) {
+			value.transcriptionContext = { ...DEFAULT_TRANSCRIPTION_ACTION.transcriptionContext };
+			report.repaired.push(`${label}: transcription source was missing, reset to the clipboard video URL`);
+		} else {
+			const contextValidator = new EntryValidator(value.transcriptionContext, label, report);
+			contextValidator.oneOf('mediaType', ['video-url', 'audio-file'], 'video-url');
+			contextValidator.optional('sourceUrlToken', 'string');
+			contextValidator.optional('impersonateBrowser', 'string');
+			contextValidator.optional('useBrowserCookies', 'boolean');
+		}
+		validator.optional('language', 'string');
+		validator.oneOf('timestampGranularity', ['disabled', 'segment', 'word'], undefined);
+	} else {
+		validator.string('sourceUrlToken', 'workflow.clipboard');
+		validator.oneOf('method', ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], 'GET');
+		validator.oneOf('contentType', ['application/json', 'text/plain', 'application/x-www-form-urlencoded'], 'application/json');
+		validator.stringRecord('headers');
+		validator.optional('bodyTemplate', 'string');
+		validator.optional('allowErrorStatus', 'boolean');
+		if (value.auth !== undefined) {
+			if (isObject(value.auth)) {
+				const authValidator = new EntryValidator(value.auth, label, report);
+				authValidator.oneOf('type', ['none', 'bearer', 'basic'], 'none');
+				authValidator.optional('bearerToken', 'string');
+				authValidator.optional('username', 'string');
+				authValidator.optional('password', 'string');
+			} else {
+				delete value.auth;
+				report.repaired.push(`${label}: removed invalid authentication settings`);
+			}
+		}
+		validator.array('jsonExtractions', false, validateJsonExtraction);
+	}
+
+	return value as unknown as WorkflowAction;
+}
+
+/**
+ * Validate a workflow and each of its actions, repairing what can be repaired.
+ * Also used for workflows imported from shared files.
+ *
+ * @param label - How the workflow is described in the report
+ * @returns The workflow, or null if it isn't a workflow at all
+ */
+export function validateWorkflow(value: unknown, label: string, report: SettingsRepairReport): WorkflowConfig | null {
+	if (!isObject(value)) {
+		report.dropped.push(`${label}: not a workflow`);
+		return null;
+	}
+
+	const validator = new EntryValidator(value, label, report);
+	validator.id();
+	validator.string('name', 'Unnamed workflow');
+	validator.oneOf('outputType', ['popup', 'new-note', 'at-cursor', 'append-to-note'], 'popup');
+	validator.string('outputFolder', '');
+	validator.boolean('showInCommandPalette', false);
+	validator.array('dependencies', false, (item) => typeof item === 'string' ? item : null);
+	if (value.appendToNote !== undefined) {
+		if (isObject(value.appendToNote)) {
+			const targetValidator = new EntryValidator(value.appendToNote, label, report);
+			targetValidator.oneOf('targetType', ['fixed-path', 'token-path', 'active-note'], 'active-note');
+			targetValidator.string('path', '');
+			targetValidator.string('heading', '');
+			targetValidator.oneOf('position', ['append', 'prepend'], 'append');
+		} else {
+			delete value.appendToNote;
+			report.repaired.push(`${label}: removed invalid output note settings`);
+		}
+	}
+	if (value.outputTemplate !== undefined) {
+		if (isObject(value.outputTemplate)) {
+			const templateValidator = new EntryValidator(value.outputTemplate, label, report);
+			templateValidator.oneOf('sourceType', ['inline', 'from-file'], 'inline');
+			templateValidator.string('text', '');
+			templateValidator.string('filePath', '');
+			templateValidator.array('properties', true, validateFrontmatterProperty);
+		} else {
+			delete value.outputTemplate;
+			report.repaired.push(`${label}: removed invalid output template`);
+		}
+	}
+	validator.array('actions', true, (item, index) => validateAction(
+		item,
+		isObject(item) ? getActionLabel(item, index, label) : `action ${index + 1} in ${label}`,
+		report
+	), true);
+
+	return value as unknown as WorkflowConfig;
+}
+
+/**
+ * Validate a provider and its models, repairing what can be repaired.
+ */
+function validateProvider(value: unknown, label: string, report: SettingsRepairReport): AIProviderConfig | null {
+	if (!isObject(value)) {
+		report.dropped.push(`${label}: not a provider`);
+		return null;
+	}
+	if (!['azure-openai', 'openai', 'anthropic', 'openai-compatible'].includes(value.type as string)) {
+		report.dropped.push(`${label}: unknown provider type ${String(value.type)}`);
+		return null;
+	}
+
+	const validator = new EntryValidator(value, label, report);
+	validator.id();
+	validator.string('name', 'Unnamed provider');
+	validator.string('endpoint', '');
+	validator.string('apiKey', '');
+	validator.stringRecord('customHeaders');
+	validator.array('models', true, (item, index) => {
+		if (!isObject(item)) {
+			return null;
+		}
+		const modelLabel = typeof item.name === 'string' && item.name ? `model "${item.name}"` : `model ${index + 1}`;
+		const modelValidator = new EntryValidator(item, `${modelLabel} of ${label}`, report);
+		modelValidator.id();
+		modelValidator.string('name', 'Unnamed model');
+		modelValidator.string('deploymentName', '');
+		modelValidator.string('modelId', '');
+		return item;
+	});
+
+	return value as unknown as AIProviderConfig;
+}
+
+/**
+ * Upgrade settings loaded from disk to the current format and validate them.
+ * Migrations run in version order for settings saved by older versions; then
+ * every provider, workflow and action is validated. Anything repaired or
+ * dropped is logged.
+ *
+ * @param data - Raw data from loadData (null on first run)
+ */
+export function migrateSettings(data: unknown): SettingsMigrationResult {
+	const report: SettingsRepairReport = { repaired: [], dropped: [] };
+	const raw: RawObject = isObject(data) ? JSON.parse(JSON.stringify(data)) as RawObject : {};
+
+	// Settings without a version predate versioning; nothing saved means a fresh install
+	const loadedVersion = typeof raw.settingsVersion === 'number'
+		? raw.settingsVersion
+		: isObject(data) ? 0 : CURRENT_SETTINGS_VERSION;
+
+	for (const migration of SETTINGS_MIGRATIONS) {
+		if (migration.version > loadedVersion) {
+			migration.migrate(raw, report);
+			logInfo(LogCategory.PLUGIN, `Settings migrated to version ${migration.version}: ${migration.description}`);
+		}
+	}
+
+	const settings = Object.assign({}, DEFAULT_SETTINGS, raw, { settingsVersion: CURRENT_SETTINGS_VERSION }) as AIToolboxSettings & RawObject;
+
+	const validator = new EntryValidator(settings, 'settings', report);
+	validator.string('ytdlpLocation', DEFAULT_SETTINGS.ytdlpLocation);
+	validator.string('ffmpegLocation', DEFAULT_SETTINGS.ffmpegLocation);
+	validator.string('outputDirectory', DEFAULT_SETTINGS.outputDirectory);
+	validator.boolean('keepVideo', DEFAULT_SETTINGS.keepVideo);
+	validator.number('transcriptionChunkMinutes', DEFAULT_SETTINGS.transcriptionChunkMinutes);
+	validator.number('transcriptionChunkOverlapSeconds', DEFAULT_SETTINGS.transcriptionChunkOverlapSeconds);
+	validator.number('transcriptionChunkConcurrency', DEFAULT_SETTINGS.transcriptionChunkConcurrency);
+	validator.string('conversationFolder', DEFAULT_SETTINGS.conversationFolder);
+	validator.oneOf('secretStorage', ['plaintext', 'obsidian', 'passphrase'], undefined);
+	validator.array('providers', true, (item, index) => validateProvider(
+		item,
+		isObject(item) && typeof item.name === 'string' && item.name ? `provider "${item.name}"` : `provider ${index + 1}`,
+		report
+	), true);
+	validator.array('workflows', true, (item, index) => validateWorkflow(
+		item,
+		isObject(item) ? getWorkflowLabel(item, index) : `workflow ${index + 1}`,
+		report
+	), true);
+
+	logSettingsRepairReport(report);
+
+	return {
+		settings,
+		report,
+		changed: loadedVersion < CURRENT_SETTINGS_VERSION || report.repaired.length > 0 || report.dropped.length > 0
+	};
+}
+
+/**
+ * Log each repaired and dropped entry
+ */
+export function logSettingsRepairReport(report: SettingsRepairReport): void {
+	for (const entry of report.repaired) {
+		logWarn(LogCategory.PLUGIN, `Settings repaired: ${entry}`);
+	}
+	for (const entry of report.dropped) {
+		logWarn(LogCategory.PLUGIN, `Settings entry dropped: ${entry}`);
+	}
+}
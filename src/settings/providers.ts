@@ -4,16 +4,26 @@ import {
 	AIProviderConfig,
 	AIProviderType,
 	AIModelConfig,
+	ModelPricing,
 	ExpandOnNextRenderState,
 	generateId,
-	DEFAULT_OPENAI_ENDPOINT
+	getDefaultEndpoint,
+	RetryPolicyConfig,
+	DEFAULT_RETRY_POLICY,
+	BudgetLimitConfig,
+	BudgetExceededAction,
+	SecretStorageMode,
+	SecretEncryptionConfig
 } from "./types";
-import { createModelProvider, ModelProviderConfig } from "../providers";
+import { createModelProvider, buildProviderConfig, DiscoveredModel } from "../providers";
 import { createCollapsibleSection } from "../components/collapsible-section";
 import { createTestAudioBuffer } from "../processing/audio-processor";
 import { globalDeleteModeManager, nestedDeleteModeManager } from "../components/delete-mode-manager";
 import { createEntityListHeader } from "../components/entity-list-header";
 import { createMoveHandlers } from "../components/ordered-list-utils";
+import { ModelPickerModal } from "../components/model-picker-modal";
+import { promptPassphrase } from "../components/passphrase-modal";
+import { secretStore, getProviderSecretId, readSecrets, writeSecrets, copySecretValues, SecretSettings } from "../secrets";
 
 /**
  * Callbacks for the provider settings tab to communicate with the main settings tab
@@ -22,6 +32,7 @@ export interface ProviderSettingsCallbacks {
 	getExpandState: () => ExpandOnNextRenderState;
 	setExpandState: (state: ExpandOnNextRenderState) => void;
 	refresh: () => void;
+	isAdvancedVisible: () => boolean;
 }
 
 /**
@@ -38,13 +49,18 @@ function isModelConfigComplete(provider: AIProviderConfig, model: AIModelConfig)
 		return false;
 	}
 
-	// Must have API key
-	if (!provider.apiKey) {
+	// Must have API key (optional for OpenAI-compatible servers)
+	if (!provider.apiKey && provider.type !== 'openai-compatible') {
 		return false;
 	}
 
-	// Must have model ID
-	if (!model.modelId) {
+	// OpenAI-compatible servers have no default endpoint
+	if (provider.type === 'openai-compatible' && !provider.endpoint) {
+		return false;
+	}
+
+	// Must have model ID (some OpenAI-compatible servers serve a single model)
+	if (!model.modelId && provider.type !== 'openai-compatible') {
 		return false;
 	}
 
@@ -61,25 +77,6 @@ function isModelConfigComplete(provider: AIProviderConfig, model: AIModelConfig)
 	return true;
 }
 
-/**
- * Build a ModelProviderConfig from provider and model settings
- */
-function buildProviderConfig(provider: AIProviderConfig, model: AIModelConfig): ModelProviderConfig {
-	const endpoint = provider.endpoint || (provider.type === 'openai' ? DEFAULT_OPENAI_ENDPOINT : '');
-	return {
-		id: provider.id,
-		name: provider.name,
-		modelDisplayName: model.name,
-		type: provider.type,
-		endpoint: endpoint,
-		apiKey: provider.apiKey,
-		modelId: model.modelId,
-		deploymentName: model.deploymentName || model.modelId,
-		supportsChat: model.supportsChat,
-		supportsTranscription: model.supportsTranscription,
-	};
-}
-
 /**
  * Test a model's chat capability
  */
@@ -121,6 +118,42 @@ async function testModelTranscription(provider: AIProviderConfig, model: AIModel
 	}
 }
 
+/**
+ * Fetch the models available from a provider's API.
+ * Uses a placeholder model since listing only needs the endpoint and credentials.
+ */
+async function fetchProviderModels(provider: AIProviderConfig): Promise<DiscoveredModel[]> {
+	const config = buildProviderConfig(provider, {
+		id: '',
+		name: '',
+		deploymentName: '',
+		modelId: '',
+	});
+	return createModelProvider(config).listModels();
+}
+
+/**
+ * Add discovered models to a provider, skipping deployments that already exist
+ */
+function addDiscoveredModels(provider: AIProviderConfig, models: DiscoveredModel[]): number {
+	const existing = new Set(provider.models.map(m => m.deploymentName));
+	let added = 0;
+	for (const model of models) {
+		if (existing.has(model.deploymentName)) continue;
+		existing.add(model.deploymentName);
+		provider.models.push({
+			id: generateId(),
+			name: model.displayName ?? model.deploymentName,
+			deploymentName: model.deploymentName,
+			modelId: model.modelId,
+			supportsChat: model.supportsChat,
+			supportsTranscription: model.supportsTranscription,
+		});
+		added++;
+	}
+	return added;
+}
+
 /**
  * Test a model based on its enabled capabilities
  */
@@ -154,6 +187,160 @@ async function testModel(provider: AIProviderConfig, model: AIModelConfig): Prom
 	}
 }
 
+/**
+ * Parse custom headers from "Name: value" lines, skipping malformed lines
+ */
+export function parseCustomHeaders(text: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const line of text.split('\n')) {
+		const separatorIndex = line.indexOf(':');
+		if (separatorIndex <= 0) continue;
+		const name = line.substring(0, separatorIndex).trim();
+		const value = line.substring(separatorIndex + 1).trim();
+		if (name) {
+			headers[name] = value;
+		}
+	}
+	return headers;
+}
+
+/**
+ * Format custom headers as "Name: value" lines for editing
+ */
+export function formatCustomHeaders(headers: Record<string, string> | undefined): string {
+	return Object.entries(headers ?? {})
+		.map(([name, value]) => `${name}: ${value}`)
+		.join('\n');
+}
+
+/**
+ * Store a secret entered in settings and get the value to save in its field.
+ * Shows a notice and keeps the previous value if the secret can't be stored.
+ *
+ * @param id - Stable secret ID (see getProviderSecretId and getHttpAuthSecretId)
+ * @param previous - Value currently saved in the field
+ * @param value - Secret or `env:NAME` reference entered by the user
+ */
+export function storeSecretSetting(plugin: AIToolboxPlugin, id: string, previous: string, value: string): string {
+	try {
+		const updated = secretStore.store(plugin.settings.secretStorage ?? 'plaintext', id, value);
+		if (updated !== previous) {
+			secretStore.remove(previous);
+		}
+		return updated;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		new Notice(`✗ ${errorMessage}`, 5000);
+		return previous;
+	}
+}
+
+const SECRET_STORAGE_OPTIONS: Record<SecretStorageMode, string> = {
+	'plaintext': 'Plain text in plugin settings',
+	'obsidian': 'Obsidian secret storage',
+	'passphrase': 'Encrypted with a passphrase'
+};
+
+/**
+ * Move every API key and credential to another storage mode.
+ * Switching away from passphrase encryption needs the current passphrase;
+ * switching to it asks for a new one.
+ */
+async function changeSecretStorage(plugin: AIToolboxPlugin, mode: SecretStorageMode): Promise<void> {
+	const settings = plugin.settings;
+	const previousMode = settings.secretStorage ?? 'plaintext';
+	if (mode === previousMode) {
+		return;
+	}
+	if (plugin.isSecretStorageLocked() && !await plugin.unlockSecrets()) {
+		return;
+	}
+
+	let encryption: SecretEncryptionConfig | undefined;
+	let replaced: string[];
+	try {
+		// Read everything with the current storage before switching
+		const values = readSecrets(settings);
+
+		if (mode === 'passphrase') {
+			const passphrase = await promptPassphrase(plugin.app, {
+				title: 'Encrypt API keys',
+				description: 'Choose a passphrase. You will be asked for it once per session. It cannot be recovered if forgotten.',
+				confirm: true,
+				submitText: 'Encrypt'
+			});
+			if (passphrase === null) {
+				return;
+			}
+			encryption = secretStore.createEncryption(passphrase);
+		}
+
+		// Write to a copy so the current storage is untouched if a secret can't be stored
+		const updated = JSON.parse(JSON.stringify({ providers: settings.providers, workflows: settings.workflows })) as SecretSettings;
+		replaced = writeSecrets(updated, mode, values);
+		copySecretValues(updated, settings);
+	} catch (error) {
+		if (encryption) {
+			secretStore.lock();
+		}
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		new Notice(`✗ could not move API keys: ${errorMessage}`, 5000);
+		return;
+	}
+
+	settings.secretStorage = mode;
+	settings.secretEncryption = encryption;
+	if (mode !== 'passphrase') {
+		secretStore.lock();
+	}
+	for (const value of replaced) {
+		secretStore.remove(value);
+	}
+
+	await plugin.saveSettings();
+	new Notice('API key storage updated');
+}
+
+/**
+ * Display where API keys are stored, with a lock control for passphrase encryption
+ */
+function displaySecretStorageSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	callbacks: ProviderSettingsCallbacks
+): void {
+	const mode = plugin.settings.secretStorage ?? 'plaintext';
+	const options: Record<string, string> = { ...SECRET_STORAGE_OPTIONS };
+	if (!secretStore.isObsidianStorageAvailable() && mode !== 'obsidian') {
+		delete options.obsidian;
+	}
+
+	const setting = new Setting(containerEl)
+		.setName('API key storage')
+		.setDesc('Where API keys and request credentials are kept. In any mode, enter env: followed by a variable name to read a key from the environment.')
+		.addDropdown(dropdown => dropdown
+			.addOptions(options)
+			.setValue(mode)
+			.onChange(async (value) => {
+				await changeSecretStorage(plugin, value as SecretStorageMode);
+				callbacks.refresh();
+			}));
+
+	if (mode === 'passphrase') {
+		const locked = plugin.isSecretStorageLocked();
+		setting.addButton(button => button
+			.setButtonText(locked ? 'Unlock' : 'Lock')
+			.onClick(async () => {
+				if (locked) {
+					await plugin.unlockSecrets();
+				} else {
+					secretStore.lock();
+				}
+				callbacks.refresh();
+			}));
+	}
+}
+
 // Key for provider-level delete mode in the global manager
 const PROVIDERS_DELETE_MODE_KEY = '__providers__';
 
@@ -167,6 +354,8 @@ export function displayProvidersSettings(
 ): void {
 	const isProviderDeleteMode = globalDeleteModeManager.get(PROVIDERS_DELETE_MODE_KEY);
 
+	displaySecretStorageSettings(containerEl, plugin, callbacks);
+
 	// Add provider header with delete mode toggle and add button
 	createEntityListHeader({
 		containerEl,
@@ -240,6 +429,7 @@ function displayProviderSettings(
 		// Show delete button only when in delete mode
 		onDelete: isProviderDeleteMode ? async () => {
 			plugin.settings.providers.splice(index, 1);
+			secretStore.remove(provider.apiKey);
 			await plugin.saveSettings();
 			callbacks.refresh();
 		} : undefined,
@@ -264,6 +454,8 @@ function displayProviderSettings(
 		.addDropdown(dropdown => dropdown
 			.addOption('openai', 'OpenAI') // eslint-disable-line obsidianmd/ui/sentence-case -- proper noun
 			.addOption('azure-openai', 'Azure OpenAI') // eslint-disable-line obsidianmd/ui/sentence-case -- proper noun
+			.addOption('anthropic', 'Anthropic')
+			.addOption('openai-compatible', 'OpenAI-compatible (local server)') // eslint-disable-line obsidianmd/ui/sentence-case -- proper noun
 			.setValue(provider.type)
 			.onChange(async (value) => {
 				provider.type = value as AIProviderType;
@@ -273,38 +465,80 @@ function displayProviderSettings(
 				callbacks.refresh();
 			}));
 
-	// API Key
+	const isOpenAICompatible = provider.type === 'openai-compatible';
+
+	// API Key (optional for OpenAI-compatible servers)
+	const keysLocked = plugin.isSecretStorageLocked();
 	new Setting(contentContainer)
-		.setName('API key')
-		.setDesc('Your API key for this provider')
+		.setName(isOpenAICompatible ? 'API key (optional)' : 'API key')
+		.setDesc(isOpenAICompatible ? 'Sent as a bearer token when set. Most local servers do not need one.' : 'Your API key for this provider, or env: followed by an environment variable name')
 		.addText(text => {
 			text.inputEl.type = 'password';
-			text.setPlaceholder('Enter your API key')
-				.setValue(provider.apiKey)
+			text.setPlaceholder(keysLocked ? 'Unlock API keys to edit' : 'Enter your API key')
+				.setValue(secretStore.reveal(provider.apiKey))
+				.setDisabled(keysLocked)
 				.onChange(async (value) => {
-					provider.apiKey = value;
+					provider.apiKey = storeSecretSetting(plugin, getProviderSecretId(provider.id), provider.apiKey, value);
 					await plugin.saveSettings();
 				});
 		});
 
-	// Endpoint (optional for OpenAI)
-	const isOpenAI = provider.type === 'openai';
+	// Endpoint (optional for providers with a default endpoint)
+	const defaultEndpoint = getDefaultEndpoint(provider.type);
 	const endpointDesc = provider.type === 'azure-openai'
 		? 'Your Azure OpenAI resource endpoint (e.g., https://your-resource.openai.azure.com)'
-		: isOpenAI
-			? 'API endpoint URL (optional, defaults to https://api.openai.com/v1)'
-			: 'API endpoint URL';
+		: isOpenAICompatible
+			? 'Base URL of the server, including the version path (e.g., http://localhost:11434/v1)'
+			: defaultEndpoint
+				? `API endpoint URL (optional, defaults to ${defaultEndpoint})`
+				: 'API endpoint URL';
+	const endpointPlaceholder = provider.type === 'azure-openai'
+		? 'https://your-resource.openai.azure.com'
+		: isOpenAICompatible
+			? 'http://localhost:11434/v1'
+			: defaultEndpoint;
 	new Setting(contentContainer)
-		.setName(isOpenAI ? 'Endpoint (optional)' : 'Endpoint')
+		.setName(defaultEndpoint ? 'Endpoint (optional)' : 'Endpoint')
 		.setDesc(endpointDesc)
 		.addText(text => text
-			.setPlaceholder(provider.type === 'azure-openai' ? 'https://your-resource.openai.azure.com' : 'https://api.openai.com/v1')
+			.setPlaceholder(endpointPlaceholder)
 			.setValue(provider.endpoint)
 			.onChange(async (value) => {
 				provider.endpoint = value;
 				await plugin.saveSettings();
 			}));
 
+	// OpenAI-compatible servers can need extra headers and may reject the model form field
+	if (isOpenAICompatible) {
+		new Setting(contentContainer)
+			.setName('Custom headers')
+			.setDesc('Extra headers sent with every request, one "name: value" pair per line')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('X-Custom-Header: value')
+					.setValue(formatCustomHeaders(provider.customHeaders))
+					.onChange(async (value) => {
+						provider.customHeaders = parseCustomHeaders(value);
+						await plugin.saveSettings();
+					});
+				textArea.inputEl.rows = 3;
+				textArea.inputEl.addClass('workflow-textarea');
+			});
+
+		new Setting(contentContainer)
+			.setName('Send model field for transcription')
+			.setDesc('Include the model ID in transcription requests. Turn off for servers that reject it.')
+			.addToggle(toggle => toggle
+				.setValue(!provider.omitModelField)
+				.onChange(async (value) => {
+					provider.omitModelField = !value;
+					await plugin.saveSettings();
+				}));
+	}
+
+	displayRetryPolicySettings(contentContainer, plugin, provider, callbacks.isAdvancedVisible());
+	displayBudgetSettings(contentContainer, plugin, provider, callbacks.isAdvancedVisible());
+
 	// Get model delete mode state for this provider from the nested manager
 	const isModelDeleteMode = nestedDeleteModeManager.get(provider.id);
 
@@ -337,6 +571,37 @@ function displayProviderSettings(
 		}
 	});
 
+	// Fetch models from the provider's API and pick which to add
+	new Setting(contentContainer)
+		.setName('Fetch models')
+		.setDesc(provider.type === 'azure-openai'
+			? 'List the deployments on this resource and add the ones you select'
+			: 'List the models available from this endpoint and add the ones you select')
+		.addButton(button => button
+			.setButtonText('Fetch models')
+			.onClick(async () => {
+				button.setDisabled(true);
+				button.setButtonText('Fetching...');
+				try {
+					const models = await fetchProviderModels(provider);
+					const existing = new Set(provider.models.map(m => m.deploymentName));
+					new ModelPickerModal(plugin.app, provider.name, models, existing, async (selected) => {
+						const added = addDiscoveredModels(provider, selected);
+						new Notice(`Added ${added} model${added === 1 ? '' : 's'} to ${provider.name}`);
+						callbacks.setExpandState({ providerId: provider.id });
+						await plugin.saveSettings();
+						callbacks.refresh();
+					}).open();
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error);
+					new Notice(`✗ ${errorMessage}`, 5000);
+					console.error('Fetching models failed:', errorMessage);
+				} finally {
+					button.setDisabled(false);
+					button.setButtonText('Fetch models');
+				}
+			}));
+
 	// Display models
 	for (let i = 0; i < provider.models.length; i++) {
 		const model = provider.models[i];
@@ -350,6 +615,141 @@ function displayProviderSettings(
 	}
 }
 
+/**
+ * Display retry policy settings for a provider (advanced)
+ */
+function displayRetryPolicySettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	provider: AIProviderConfig,
+	showAdvanced: boolean
+): void {
+	const policy = provider.retryPolicy ?? DEFAULT_RETRY_POLICY;
+	const updatePolicy = async (changes: Partial<RetryPolicyConfig>) => {
+		provider.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...provider.retryPolicy, ...changes };
+		await plugin.saveSettings();
+	};
+
+	const settings: Setting[] = [];
+
+	settings.push(new Setting(containerEl)
+		.setName('Max attempts')
+		.setDesc('Total attempts for a request that fails with a network error, rate limit or server error. Set to 1 to disable retries.')
+		.addText(text => {
+			text.inputEl.type = 'number';
+			text.inputEl.min = '1';
+			text.setValue(String(policy.maxAttempts))
+				.onChange(async (value) => {
+					const attempts = parseInt(value, 10);
+					if (!isNaN(attempts) && attempts >= 1) {
+						await updatePolicy({ maxAttempts: attempts });
+					}
+				});
+		}));
+
+	settings.push(new Setting(containerEl)
+		.setName('Retry base delay (ms)')
+		.setDesc('Delay before the first retry. Doubles on each following attempt.')
+		.addText(text => {
+			text.inputEl.type = 'number';
+			text.inputEl.min = '0';
+			text.setValue(String(policy.baseDelayMs))
+				.onChange(async (value) => {
+					const delay = parseInt(value, 10);
+					if (!isNaN(delay) && delay >= 0) {
+						await updatePolicy({ baseDelayMs: delay });
+					}
+				});
+		}));
+
+	settings.push(new Setting(containerEl)
+		.setName('Respect retry-after')
+		.setDesc('Wait for the delay requested by the server on rate limit responses instead of the backoff delay')
+		.addToggle(toggle => toggle
+			.setValue(policy.respectRetryAfter)
+			.onChange(async (value) => {
+				await updatePolicy({ respectRetryAfter: value });
+			})));
+
+	for (const setting of settings) {
+		setting.settingEl.toggleClass('settings-advanced-hidden', !showAdvanced);
+		if (showAdvanced) {
+			setting.nameEl.addClass('settings-advanced-name');
+		}
+	}
+}
+
+/**
+ * Display budget limit settings for a provider (advanced)
+ */
+function displayBudgetSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	provider: AIProviderConfig,
+	showAdvanced: boolean
+): void {
+	const updateBudget = async (changes: Partial<BudgetLimitConfig>) => {
+		const budget: BudgetLimitConfig = { ...provider.budget, ...changes };
+		for (const key of Object.keys(budget) as (keyof BudgetLimitConfig)[]) {
+			if (budget[key] === undefined) {
+				delete budget[key];
+			}
+		}
+		provider.budget = Object.keys(budget).length > 0 ? budget : undefined;
+		await plugin.saveSettings();
+	};
+
+	const settings: Setting[] = [];
+
+	const addLimitSetting = (name: string, desc: string, key: 'dailyCost' | 'monthlyCost' | 'dailyTokens' | 'monthlyTokens') => {
+		settings.push(new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text.inputEl.step = 'any';
+				text.setPlaceholder('No limit')
+					.setValue(provider.budget?.[key] !== undefined ? String(provider.budget[key]) : '')
+					.onChange(async (value) => {
+						if (value.trim() === '') {
+							await updateBudget({ [key]: undefined });
+							return;
+						}
+						const limit = parseFloat(value);
+						if (!isNaN(limit) && limit >= 0) {
+							await updateBudget({ [key]: limit });
+						}
+					});
+			}));
+	};
+
+	addLimitSetting('Daily spend limit', 'Maximum estimated spend per day in USD. Only usage of models with prices set is counted.', 'dailyCost');
+	addLimitSetting('Monthly spend limit', 'Maximum estimated spend per calendar month in USD', 'monthlyCost');
+	addLimitSetting('Daily token limit', 'Maximum input and output tokens per day', 'dailyTokens');
+	addLimitSetting('Monthly token limit', 'Maximum input and output tokens per calendar month', 'monthlyTokens');
+
+	settings.push(new Setting(containerEl)
+		.setName('When a limit is reached')
+		.setDesc('Checked before each request, including requests from chained workflows')
+		.addDropdown(dropdown => dropdown
+			.addOptions({
+				'block': 'Fail the request',
+				'confirm': 'Ask before sending'
+			})
+			.setValue(provider.budget?.onExceeded ?? 'block')
+			.onChange(async (value) => {
+				await updateBudget({ onExceeded: value as BudgetExceededAction });
+			})));
+
+	for (const setting of settings) {
+		setting.settingEl.toggleClass('settings-advanced-hidden', !showAdvanced);
+		if (showAdvanced) {
+			setting.nameEl.addClass('settings-advanced-name');
+		}
+	}
+}
+
 function displayModelSettings(
 	containerEl: HTMLElement,
 	plugin: AIToolboxPlugin,
@@ -509,20 +909,22 @@ function displayModelSettings(
 	setIcon(chatIcon, 'message-circle');
 	chatNameEl.appendText(' Chat');
 
-	// Transcription capability toggle
-	const transcriptionSetting = new Setting(capabilitiesContainer)
-		.addToggle(toggle => toggle
-			.setValue(model.supportsTranscription ?? false)
-			.onChange(async (value) => {
-				model.supportsTranscription = value;
-				await plugin.saveSettings();
-				// Update test button state when capability changes
-				updateTestButton();
-			}));
-	const transcriptionNameEl = transcriptionSetting.nameEl;
-	const transcriptionIcon = transcriptionNameEl.createSpan({ cls: 'model-capability-icon' });
-	setIcon(transcriptionIcon, 'audio-lines');
-	transcriptionNameEl.appendText(' Transcription');
+	// Transcription capability toggle (Anthropic has no transcription API)
+	if (provider.type !== 'anthropic') {
+		const transcriptionSetting = new Setting(capabilitiesContainer)
+			.addToggle(toggle => toggle
+				.setValue(model.supportsTranscription ?? false)
+				.onChange(async (value) => {
+					model.supportsTranscription = value;
+					await plugin.saveSettings();
+					// Update test button state when capability changes
+					updateTestButton();
+				}));
+		const transcriptionNameEl = transcriptionSetting.nameEl;
+		const transcriptionIcon = transcriptionNameEl.createSpan({ cls: 'model-capability-icon' });
+		setIcon(transcriptionIcon, 'audio-lines');
+		transcriptionNameEl.appendText(' Transcription');
+	}
 
 	// Test button (inline with capabilities)
 	new Setting(capabilitiesContainer)
@@ -559,5 +961,59 @@ function displayModelSettings(
 			// Initial state
 			updateTestButton();
 		});
+
+	displayModelPricingSettings(contentContainer, plugin, provider, model, callbacks.isAdvancedVisible());
+}
+
+/**
+ * Display the model's price table used for usage cost estimates (advanced)
+ */
+function displayModelPricingSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	provider: AIProviderConfig,
+	model: AIModelConfig,
+	showAdvanced: boolean
+): void {
+	const settings: Setting[] = [];
+
+	const addPriceSetting = (name: string, desc: string, key: keyof ModelPricing) => {
+		settings.push(new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.inputEl.min = '0';
+				text.inputEl.step = 'any';
+				text.setPlaceholder('Not set')
+					.setValue(model.pricing?.[key] !== undefined ? String(model.pricing[key]) : '')
+					.onChange(async (value) => {
+						const price = parseFloat(value);
+						const pricing: ModelPricing = { ...model.pricing };
+						if (value.trim() === '') {
+							delete pricing[key];
+						} else if (!isNaN(price) && price >= 0) {
+							pricing[key] = price;
+						} else {
+							return;
+						}
+						model.pricing = Object.keys(pricing).length > 0 ? pricing : undefined;
+						await plugin.saveSettings();
+					});
+			}));
+	};
+
+	addPriceSetting('Input price', 'USD per million prompt tokens, used to estimate usage cost. Leave empty if unknown.', 'inputPerMillionTokens');
+	addPriceSetting('Output price', 'USD per million completion tokens', 'outputPerMillionTokens');
+	if (provider.type !== 'anthropic') {
+		addPriceSetting('Transcription price', 'USD per minute of transcribed audio', 'perAudioMinute');
+	}
+
+	for (const setting of settings) {
+		setting.settingEl.toggleClass('settings-advanced-hidden', !showAdvanced);
+		if (showAdvanced) {
+			setting.nameEl.addClass('settings-advanced-name');
+		}
+	}
 }
 
@@ -3,10 +3,43 @@
  */
 export const DEFAULT_OPENAI_ENDPOINT = 'https://api.openai.com/v1';
 
+/**
+ * Default Anthropic API endpoint
+ */
+export const DEFAULT_ANTHROPIC_ENDPOINT = 'https://api.anthropic.com/v1';
+
 /**
  * Supported AI provider types
  */
-export type AIProviderType = 'azure-openai' | 'openai' | 'anthropic';
+export type AIProviderType = 'azure-openai' | 'openai' | 'anthropic' | 'openai-compatible';
+
+/**
+ * Get the endpoint to use when a provider has none configured.
+ * Azure and OpenAI-compatible servers have no default since every
+ * resource or local server has its own endpoint.
+ */
+export function getDefaultEndpoint(type: AIProviderType): string {
+	switch (type) {
+		case 'openai':
+			return DEFAULT_OPENAI_ENDPOINT;
+		case 'anthropic':
+			return DEFAULT_ANTHROPIC_ENDPOINT;
+		default:
+			return '';
+	}
+}
+
+/**
+ * Prices used to estimate the cost of a model's usage (USD)
+ */
+export interface ModelPricing {
+	/** Price per million input (prompt) tokens */
+	inputPerMillionTokens?: number;
+	/** Price per million output (completion) tokens */
+	outputPerMillionTokens?: number;
+	/** Price per minute of transcribed audio */
+	perAudioMinute?: number;
+}
 
 /**
  * Model configuration for a provider
@@ -18,8 +51,30 @@ export interface AIModelConfig {
 	modelId: string;
 	supportsChat?: boolean; // Whether this model supports chat/conversation
 	supportsTranscription?: boolean; // Whether this model supports audio transcription
+	pricing?: ModelPricing; // Prices for usage cost estimates; usage without a price is counted but not costed
 }
 
+/**
+ * Retry policy for transient provider failures (network errors, 408, 429, 5xx)
+ */
+export interface RetryPolicyConfig {
+	/** Total number of attempts, including the first request (1 disables retries) */
+	maxAttempts: number;
+	/** Delay before the first retry in milliseconds; doubles on each subsequent retry */
+	baseDelayMs: number;
+	/** Whether to wait for the server's Retry-After header when present */
+	respectRetryAfter: boolean;
+}
+
+/**
+ * Default retry policy for providers without one configured
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicyConfig = {
+	maxAttempts: 3,
+	baseDelayMs: 1000,
+	respectRetryAfter: true
+};
+
 /**
  * AI Provider configuration
  */
@@ -28,8 +83,39 @@ export interface AIProviderConfig {
 	name: string;
 	type: AIProviderType;
 	endpoint: string;
+	/** API key, or a reference to it (`env:NAME`, or an entry in the configured secret store) */
 	apiKey: string;
 	models: AIModelConfig[];
+	/** Extra HTTP headers sent with every request (OpenAI-compatible only) */
+	customHeaders?: Record<string, string>;
+	/** Whether to omit the model form field from transcription requests (OpenAI-compatible only) */
+	omitModelField?: boolean;
+	/** Retry policy for transient failures (defaults to DEFAULT_RETRY_POLICY) */
+	retryPolicy?: RetryPolicyConfig;
+	/** Spend and token caps checked before each request (no limits when unset) */
+	budget?: BudgetLimitConfig;
+}
+
+/**
+ * What happens when a request would exceed a budget limit
+ */
+export type BudgetExceededAction = 'block' | 'confirm';
+
+/**
+ * Daily and monthly spend or token caps for a provider.
+ * Spend is estimated from model prices, so spend caps only count priced usage.
+ */
+export interface BudgetLimitConfig {
+	/** Maximum estimated spend per day (USD) */
+	dailyCost?: number;
+	/** Maximum estimated spend per calendar month (USD) */
+	monthlyCost?: number;
+	/** Maximum input plus output tokens per day */
+	dailyTokens?: number;
+	/** Maximum input plus output tokens per calendar month */
+	monthlyTokens?: number;
+	/** Fail the request, or ask whether to continue (defaults to 'block') */
+	onExceeded?: BudgetExceededAction;
 }
 
 /**
@@ -43,7 +129,42 @@ export interface ProviderModelSelection {
 /**
  * Output type options for workflow execution
  */
-export type WorkflowOutputType = 'popup' | 'new-note' | 'at-cursor';
+export type WorkflowOutputType = 'popup' | 'new-note' | 'at-cursor' | 'append-to-note';
+
+/**
+ * Which note the append-to-note output writes to
+ * - fixed-path: a note chosen in settings
+ * - token-path: a path built from tokens when the workflow finishes
+ * - active-note: the note that was active when the workflow started
+ */
+export type NoteTargetType = 'fixed-path' | 'token-path' | 'active-note';
+
+/**
+ * Where the output goes in the target note (or under its heading)
+ */
+export type NoteInsertPosition = 'append' | 'prepend';
+
+/**
+ * Target of the append-to-note output type
+ */
+export interface AppendToNoteConfig {
+	targetType: NoteTargetType;
+	/** Note path (fixed-path), or a path with {{actionId.token}} and {{workflow.*}} tokens (token-path) */
+	path: string;
+	/** Heading to insert under, e.g. '## AI Notes'; empty inserts into the whole note. Added at the end when missing. */
+	heading: string;
+	position: NoteInsertPosition;
+}
+
+/**
+ * Default target for the append-to-note output type
+ */
+export const DEFAULT_APPEND_TO_NOTE_CONFIG: AppendToNoteConfig = {
+	targetType: 'active-note',
+	path: '',
+	heading: '',
+	position: 'append'
+};
 
 /**
  * Prompt source type options for workflows
@@ -119,6 +240,17 @@ export interface BaseAction {
 	provider: ProviderModelSelection | null;
 }
 
+/**
+ * A named value extracted from an action's JSON output, exposed as {{actionId.name}}
+ */
+export interface JsonExtraction {
+	id: string;
+	/** Token name (letters, numbers and underscores) */
+	name: string;
+	/** JSONPath or dot-path to the value (e.g., 'items[0].title' or '$.items[0].title') */
+	path: string;
+}
+
 /**
  * Chat action configuration - sends a prompt to an AI model
  */
@@ -130,8 +262,30 @@ export interface ChatAction extends BaseAction {
 	promptSourceType: PromptSourceType;
 	/** Path to prompt file (when promptSourceType is 'from-file') */
 	promptFilePath: string;
+	/** Where the system prompt comes from (defaults to 'inline') */
+	systemPromptSourceType?: PromptSourceType;
+	/** Optional system prompt text (when systemPromptSourceType is 'inline') */
+	systemPromptText?: string;
+	/** Path to system prompt file (when systemPromptSourceType is 'from-file') */
+	systemPromptFilePath?: string;
+	/** Temperature for response randomness (provider default when unset) */
+	temperature?: number;
+	/** Maximum tokens to generate (provider default when unset) */
+	maxTokens?: number;
+	/** Nucleus sampling probability mass (provider default when unset) */
+	topP?: number;
+	/** Sequences that stop generation when produced */
+	stopSequences?: string[];
 	/** Context sources for this chat action */
 	contexts?: ChatContextConfig[];
+	/** Send gathered context content as a message before the prompt */
+	includeContextsAsPreamble?: boolean;
+	/** JSON schema the response must match; empty for free-form text */
+	responseSchema?: string;
+	/** Values extracted from a JSON response as extra tokens */
+	jsonExtractions?: JsonExtraction[];
+	/** Models tried in order when the provider fails with a network error, rate limit or server error */
+	fallbackProviders?: ProviderModelSelection[];
 }
 
 /**
@@ -140,7 +294,7 @@ export interface ChatAction extends BaseAction {
 export interface TranscriptionAction extends BaseAction {
 	type: 'transcription';
 	/** Transcription context (media type and source) */
-	transcriptionContext?: TranscriptionContextConfig;
+	transcriptionContext: TranscriptionContextConfig;
 	/** Language for transcription */
 	language?: string;
 	/** Timestamp granularity setting */
@@ -148,12 +302,54 @@ export interface TranscriptionAction extends BaseAction {
 }
 
 /**
- * HTTP request action configuration - makes a GET request to a URL
+ * HTTP methods supported by the HTTP request action
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Content types for HTTP request bodies
+ */
+export type HttpContentType = 'application/json' | 'text/plain' | 'application/x-www-form-urlencoded';
+
+/**
+ * Authentication options for HTTP requests
+ */
+export type HttpAuthType = 'none' | 'bearer' | 'basic';
+
+/**
+ * Credentials for an HTTP request action (stored like provider API keys)
+ */
+export interface HttpRequestAuthConfig {
+	type: HttpAuthType;
+	/** Token sent as `Authorization: Bearer <token>` */
+	bearerToken?: string;
+	/** Username for basic auth */
+	username?: string;
+	/** Password for basic auth */
+	password?: string;
+}
+
+/**
+ * HTTP request action configuration - sends a request to a URL
  */
 export interface HttpRequestAction extends BaseAction {
 	type: 'http-request';
 	/** Token name to resolve for the source URL (e.g., 'workflow.clipboard', 'action1.response') */
 	sourceUrlToken: string;
+	/** HTTP method (defaults to 'GET') */
+	method?: HttpMethod;
+	/** Request headers; values support {{token}} substitution */
+	headers?: Record<string, string>;
+	/** Request body template with {{token}} substitution (ignored for GET) */
+	bodyTemplate?: string;
+	/** Content type of the body (defaults to 'application/json') */
+	contentType?: HttpContentType;
+	/** Authentication for the request */
+	auth?: HttpRequestAuthConfig;
+	/** Treat non-2xx responses as successful instead of failing the action */
+	allowErrorStatus?: boolean;
+	/** Values extracted from a JSON response body as extra tokens */
+	jsonExtractions?: JsonExtraction[];
 }
 
 /**
@@ -198,7 +394,53 @@ export const DEFAULT_HTTP_REQUEST_ACTION: Omit<HttpRequestAction, 'id'> = {
 	type: 'http-request',
 	name: 'HTTP request',
 	provider: null,
-	sourceUrlToken: 'workflow.clipboard'
+	sourceUrlToken: 'workflow.clipboard',
+	method: 'GET',
+	contentType: 'application/json'
+};
+
+/**
+ * How a frontmatter property value is written
+ * - text: a single quoted string
+ * - list: a YAML list, split on commas (e.g., for tags)
+ */
+export type FrontmatterPropertyType = 'text' | 'list';
+
+/**
+ * A frontmatter property generated by an output template
+ */
+export interface FrontmatterProperty {
+	/** Unique identifier for this property */
+	id: string;
+	/** Property name (YAML key) */
+	name: string;
+	/** Value template; supports {{actionId.token}} and {{workflow.*}} tokens */
+	value: string;
+	type: FrontmatterPropertyType;
+}
+
+/**
+ * Template the workflow result is rendered with before it reaches the output
+ */
+export interface OutputTemplate {
+	/** Where the template body comes from */
+	sourceType: PromptSourceType;
+	/** Template body (when sourceType is 'inline'); empty keeps the workflow result as the body */
+	text: string;
+	/** Path to the template file (when sourceType is 'from-file') */
+	filePath: string;
+	/** Properties written to the frontmatter */
+	properties: FrontmatterProperty[];
+}
+
+/**
+ * Default configuration for a new output template
+ */
+export const DEFAULT_OUTPUT_TEMPLATE: OutputTemplate = {
+	sourceType: 'inline',
+	text: '',
+	filePath: '',
+	properties: []
 };
 
 /**
@@ -215,8 +457,14 @@ export interface WorkflowConfig {
 	outputType: WorkflowOutputType;
 	/** Folder for output (when outputType is 'new-note') */
 	outputFolder: string;
+	/** Note to add the output to (when outputType is 'append-to-note') */
+	appendToNote?: AppendToNoteConfig;
+	/** Template applied to the result before it is output; unset outputs the result as-is */
+	outputTemplate?: OutputTemplate;
 	/** Whether to show this workflow as a command in the command palette */
 	showInCommandPalette: boolean;
+	/** IDs of workflows to run first; their final tokens are available as {{workflowId.token}} */
+	dependencies?: string[];
 }
 
 /**
@@ -230,15 +478,53 @@ export const DEFAULT_WORKFLOW_CONFIG: Omit<WorkflowConfig, 'id'> = {
 	showInCommandPalette: false
 };
 
+/**
+ * Where API keys and HTTP credentials are kept
+ * - plaintext: in the plugin's data.json
+ * - obsidian: in Obsidian's secret storage, outside the vault
+ * - passphrase: in data.json, encrypted with a passphrase entered once per session
+ */
+export type SecretStorageMode = 'plaintext' | 'obsidian' | 'passphrase';
+
+/**
+ * Key derivation data for passphrase-encrypted secrets
+ */
+export interface SecretEncryptionConfig {
+	/** Base64 salt for deriving the key from the passphrase */
+	salt: string;
+	/** A known value encrypted with the key, used to verify the passphrase */
+	check: string;
+}
+
+/**
+ * Settings format version written by this version of the plugin.
+ * Bump it and add a migration to SETTINGS_MIGRATIONS (migrations.ts) when the format changes.
+ */
+export const CURRENT_SETTINGS_VERSION = 2;
+
 export interface AIToolboxSettings {
+	// Format version of the saved settings, used to run migrations at load
+	settingsVersion: number;
 	ytdlpLocation: string;
 	ffmpegLocation: string;
 	outputDirectory: string;
 	keepVideo: boolean;
+	// Long audio is split into chunks of this many minutes for transcription
+	transcriptionChunkMinutes: number;
+	// Seconds of audio shared between consecutive chunks
+	transcriptionChunkOverlapSeconds: number;
+	// Maximum number of chunks transcribed at the same time
+	transcriptionChunkConcurrency: number;
 	// Provider-based settings
 	providers: AIProviderConfig[];
 	// Custom workflows
 	workflows: WorkflowConfig[];
+	// Folder where chat view conversations are saved
+	conversationFolder: string;
+	// Where API keys and credentials are stored (chosen on first load when unset)
+	secretStorage?: SecretStorageMode;
+	// Set while secrets are passphrase-encrypted
+	secretEncryption?: SecretEncryptionConfig;
 }
 
 /**
@@ -249,12 +535,17 @@ export function generateId(): string {
 }
 
 export const DEFAULT_SETTINGS: AIToolboxSettings = {
+	settingsVersion: CURRENT_SETTINGS_VERSION,
 	ytdlpLocation: '',
 	ffmpegLocation: '',
 	outputDirectory: '',
 	keepVideo: false,
+	transcriptionChunkMinutes: 10,
+	transcriptionChunkOverlapSeconds: 2,
+	transcriptionChunkConcurrency: 2,
 	providers: [],
-	workflows: []
+	workflows: [],
+	conversationFolder: 'AI conversations'
 }
 
 /**
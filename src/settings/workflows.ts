@@ -1,4 +1,4 @@
-import { Setting, Notice, setIcon } from "obsidian";
+import { Setting, Notice, setIcon, TFile } from "obsidian";
 import AIToolboxPlugin from "../main";
 import {
 	WorkflowConfig,
@@ -7,8 +7,16 @@ import {
 	ChatAction,
 	TranscriptionAction,
 	HttpRequestAction,
+	HttpMethod,
+	HttpContentType,
+	HttpAuthType,
 	ActionType,
 	PromptSourceType,
+	FrontmatterPropertyType,
+	NoteTargetType,
+	NoteInsertPosition,
+	ProviderModelSelection,
+	ChatContextType,
 	TranscriptionMediaType,
 	TimestampGranularity,
 	ExpandOnNextRenderState,
@@ -16,19 +24,41 @@ import {
 	DEFAULT_WORKFLOW_CONFIG,
 	DEFAULT_CHAT_ACTION,
 	DEFAULT_TRANSCRIPTION_ACTION,
-	DEFAULT_HTTP_REQUEST_ACTION
+	DEFAULT_HTTP_REQUEST_ACTION,
+	DEFAULT_OUTPUT_TEMPLATE,
+	DEFAULT_APPEND_TO_NOTE_CONFIG
 } from "./types";
+import { parseCustomHeaders, formatCustomHeaders, storeSecretSetting } from "./providers";
+import { secretStore, getHttpAuthSecretId } from "../secrets";
+import { parseJsonSchema } from "../utils/json-schema";
 import { createCollapsibleSection } from "../components/collapsible-section";
 import { createPathPicker } from "../components/path-picker";
 import { globalDeleteModeManager, nestedDeleteModeManager } from "../components/delete-mode-manager";
 import { createEntityListHeader } from "../components/entity-list-header";
 import { createMoveHandlers } from "../components/ordered-list-utils";
+import { WorkflowBundleSuggesterModal } from "../components/workflow-bundle-suggester";
+import { promptProviderBindings } from "../components/provider-binding-modal";
+import {
+	parseWorkflowBundle,
+	importWorkflowBundle,
+	exportWorkflowToVault,
+	findMatchingModel,
+	ProviderBindings,
+	WorkflowBundleFormat
+} from "../sharing";
+import { detectCircularDependency } from "../processing/workflow-chaining";
 import {
 	getAvailableTokensForAction,
 	TokenGroup,
 	TokenDefinition,
 	generateGroupTemplate
 } from "../tokens";
+import {
+	createContextHandler,
+	getAvailableContextTypes,
+	CHAT_CONTEXT_TYPE_LABELS,
+	CHAT_CONTEXT_TYPE_DESCRIPTIONS
+} from "../handlers";
 
 /**
  * Callbacks for the workflows settings tab to communicate with the main settings tab
@@ -46,7 +76,54 @@ export interface WorkflowSettingsCallbacks {
 const OUTPUT_TYPE_OPTIONS: Record<WorkflowOutputType, string> = {
 	'popup': 'Show in popup',
 	'new-note': 'Create new note',
-	'at-cursor': 'Insert at cursor'
+	'at-cursor': 'Insert at cursor',
+	'append-to-note': 'Add to existing note'
+};
+
+/**
+ * Append-to-note target display labels
+ */
+const NOTE_TARGET_OPTIONS: Record<NoteTargetType, string> = {
+	'active-note': 'Active note',
+	'fixed-path': 'Fixed note',
+	'token-path': 'Path from tokens'
+};
+
+/**
+ * Append-to-note position display labels
+ */
+const NOTE_INSERT_POSITION_OPTIONS: Record<NoteInsertPosition, string> = {
+	'append': 'Append',
+	'prepend': 'Prepend'
+};
+
+/**
+ * HTTP method options (methods are shown as-is)
+ */
+const HTTP_METHOD_OPTIONS: Record<HttpMethod, string> = {
+	'GET': 'GET',
+	'POST': 'POST',
+	'PUT': 'PUT',
+	'PATCH': 'PATCH',
+	'DELETE': 'DELETE'
+};
+
+/**
+ * HTTP body content type options (content types are shown as-is)
+ */
+const HTTP_CONTENT_TYPE_OPTIONS: Record<HttpContentType, string> = {
+	'application/json': 'application/json',
+	'text/plain': 'text/plain',
+	'application/x-www-form-urlencoded': 'application/x-www-form-urlencoded'
+};
+
+/**
+ * HTTP authentication display labels
+ */
+const HTTP_AUTH_TYPE_OPTIONS: Record<HttpAuthType, string> = {
+	'none': 'None',
+	'bearer': 'Bearer token',
+	'basic': 'Basic auth'
 };
 
 /**
@@ -57,6 +134,23 @@ const PROMPT_SOURCE_OPTIONS: Record<PromptSourceType, string> = {
 	'from-file': 'From file'
 };
 
+/**
+ * Output template source display labels
+ */
+const OUTPUT_TEMPLATE_SOURCE_OPTIONS: Record<PromptSourceType | 'none', string> = {
+	'none': 'None',
+	'inline': 'Inline',
+	'from-file': 'From file'
+};
+
+/**
+ * Frontmatter property type display labels
+ */
+const FRONTMATTER_PROPERTY_TYPE_OPTIONS: Record<FrontmatterPropertyType, string> = {
+	'text': 'Text',
+	'list': 'List'
+};
+
 // Key for workflow-level delete mode in the global manager
 const WORKFLOWS_DELETE_MODE_KEY = '__workflows__';
 
@@ -95,6 +189,18 @@ export function displayWorkflowsSettings(
 		}
 	});
 
+	// Import a workflow shared as a file
+	new Setting(containerEl)
+		.setName('Import workflow')
+		.setDesc('Add a workflow shared as a JSON file or Markdown note in this vault')
+		.addButton(button => button
+			.setButtonText('Import')
+			.onClick(() => {
+				new WorkflowBundleSuggesterModal(plugin.app, (file) => {
+					void importWorkflowFromFile(plugin, file, callbacks);
+				}).open();
+			}));
+
 	// Add horizontal rule separator
 	containerEl.createEl('hr', { cls: 'entity-list-separator' });
 
@@ -117,11 +223,6 @@ function displayWorkflowSettings(
 	const expandState = callbacks.getExpandState();
 	const shouldExpand = expandState.workflowId === workflow.id;
 
-	// Ensure actions array exists (for backward compatibility with old workflows)
-	if (!workflow.actions) {
-		workflow.actions = [];
-	}
-
 	// Determine icons based on all action types present in the workflow
 	const actionTypes = new Set(workflow.actions.map(a => a.type));
 	const icons: string[] = [];
@@ -179,6 +280,9 @@ function displayWorkflowSettings(
 				await plugin.saveSettings();
 			}));
 
+	// Workflows to run before this one
+	displayWorkflowDependencies(contentContainer, plugin, workflow, callbacks, isExpanded);
+
 	// Add separator between workflow name and actions
 	contentContainer.createEl('hr', { cls: 'workflow-actions-separator' });
 
@@ -228,12 +332,364 @@ function displayWorkflowSettings(
 		});
 	}
 
+	// Target note (only for append-to-note output type)
+	if (workflow.outputType === 'append-to-note') {
+		displayAppendToNoteSettings(contentContainer, plugin, workflow, callbacks, isExpanded);
+	}
+
+	displayOutputTemplateSettings(contentContainer, plugin, workflow, callbacks, isExpanded);
+
+	// Export for sharing
+	new Setting(contentContainer)
+		.setName('Export workflow')
+		.setDesc('Save this workflow and its prompt files to a file in the vault root. API keys and credentials are left out.')
+		.addButton(button => button
+			.setButtonText('Export as JSON')
+			.onClick(() => {
+				void exportWorkflow(plugin, workflow, 'json');
+			}))
+		.addButton(button => button
+			.setButtonText('Export as Markdown')
+			.onClick(() => {
+				void exportWorkflow(plugin, workflow, 'markdown');
+			}));
+
 	// Clear the expand state after rendering this workflow
 	if (expandState.workflowId === workflow.id) {
 		callbacks.setExpandState({});
 	}
 }
 
+/**
+ * Display the target note, heading and position of the append-to-note output
+ */
+function displayAppendToNoteSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	workflow: WorkflowConfig,
+	callbacks: WorkflowSettingsCallbacks,
+	isExpanded: () => boolean
+): void {
+	if (!workflow.appendToNote) {
+		workflow.appendToNote = { ...DEFAULT_APPEND_TO_NOTE_CONFIG };
+	}
+	const target = workflow.appendToNote;
+
+	new Setting(containerEl)
+		.setName('Target note')
+		.setDesc('Note to add the result to. Active note uses the note that was open when the workflow started.')
+		.addDropdown(dropdown => dropdown
+			.addOptions(NOTE_TARGET_OPTIONS)
+			.setValue(target.targetType)
+			.onChange(async (value) => {
+				target.targetType = value as NoteTargetType;
+				target.path = '';
+				await plugin.saveSettings();
+				if (isExpanded()) {
+					callbacks.setExpandState({ workflowId: workflow.id });
+				}
+				callbacks.refresh();
+			}));
+
+	if (target.targetType === 'fixed-path') {
+		createPathPicker({
+			containerEl,
+			app: plugin.app,
+			name: 'Note',
+			description: 'Note to add the result to; it is created if missing',
+			placeholder: 'Search for file...',
+			initialPath: target.path,
+			allowFiles: true,
+			onChange: (path: string) => {
+				target.path = path;
+				void plugin.saveSettings();
+			}
+		});
+	} else if (target.targetType === 'token-path') {
+		new Setting(containerEl)
+			.setName('Note path')
+			.setDesc('Path built from {{actionId.token}} and {{workflow.*}} tokens; the note is created if missing')
+			.addText(text => text
+				.setPlaceholder('Sources/{{transcription1.title}}.md')
+				.setValue(target.path)
+				.onChange(async (value) => {
+					target.path = value;
+					await plugin.saveSettings();
+				}));
+	}
+
+	new Setting(containerEl)
+		.setName('Heading')
+		.setDesc('Optional heading to add the result under, e.g. ## AI notes. It is added at the end of the note when missing.')
+		.addText(text => text
+			.setPlaceholder('## AI notes')
+			.setValue(target.heading)
+			.onChange(async (value) => {
+				target.heading = value;
+				await plugin.saveSettings();
+			}));
+
+	new Setting(containerEl)
+		.setName('Position')
+		.setDesc('Add the result at the start or the end of the note, or of the section under the heading')
+		.addDropdown(dropdown => dropdown
+			.addOptions(NOTE_INSERT_POSITION_OPTIONS)
+			.setValue(target.position)
+			.onChange(async (value) => {
+				target.position = value as NoteInsertPosition;
+				await plugin.saveSettings();
+			}));
+}
+
+/**
+ * Display the output template of a workflow: the template body and the
+ * frontmatter properties it generates
+ */
+function displayOutputTemplateSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	workflow: WorkflowConfig,
+	callbacks: WorkflowSettingsCallbacks,
+	isExpanded: () => boolean
+): void {
+	const refresh = async () => {
+		await plugin.saveSettings();
+		if (isExpanded()) {
+			callbacks.setExpandState({ workflowId: workflow.id });
+		}
+		callbacks.refresh();
+	};
+
+	const template = workflow.outputTemplate;
+	new Setting(containerEl)
+		.setName('Output template')
+		.setDesc('Format the result before it is output. Supports {{actionId.token}} and {{workflow.*}} tokens.')
+		.addDropdown(dropdown => dropdown
+			.addOptions(OUTPUT_TEMPLATE_SOURCE_OPTIONS)
+			.setValue(template?.sourceType ?? 'none')
+			.onChange(async (value) => {
+				if (value === 'none') {
+					delete workflow.outputTemplate;
+				} else {
+					workflow.outputTemplate = {
+						...(workflow.outputTemplate ?? { ...DEFAULT_OUTPUT_TEMPLATE, properties: [] }),
+						sourceType: value as PromptSourceType
+					};
+				}
+				await refresh();
+			}));
+
+	if (!template) {
+		return;
+	}
+
+	if (template.sourceType === 'inline') {
+		new Setting(containerEl)
+			.setName('Template')
+			.setDesc('Leave empty to keep the result as the body. Tokens in a frontmatter block at the top are escaped for YAML, whether or not they are in quotes.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('# {{workflow.file.path}}\n\n{{chat1.response}}')
+					.setValue(template.text)
+					.onChange(async (value) => {
+						template.text = value;
+						await plugin.saveSettings();
+					});
+				textArea.inputEl.rows = 6;
+				textArea.inputEl.addClass('workflow-textarea');
+			});
+	} else {
+		createPathPicker({
+			containerEl,
+			app: plugin.app,
+			name: 'Template file',
+			description: 'Search for a file to use as the output template',
+			placeholder: 'Search for file...',
+			initialPath: template.filePath,
+			allowFiles: true,
+			onChange: (path: string) => {
+				template.filePath = path;
+				void plugin.saveSettings();
+			}
+		});
+	}
+
+	new Setting(containerEl)
+		.setName('Frontmatter properties')
+		.setDesc('Properties added to the frontmatter, replacing template properties with the same name. Values are escaped for YAML; list values are split on commas. When adding to an existing note, properties are merged into its frontmatter; at the cursor they are left out.')
+		.addButton(button => button
+			.setButtonText('Add property')
+			.onClick(async () => {
+				template.properties = [...template.properties, { id: generateId(), name: '', value: '', type: 'text' }];
+				await refresh();
+			}));
+
+	for (const property of template.properties) {
+		new Setting(containerEl)
+			.setClass('workflow-frontmatter-property')
+			.addText(text => text
+				.setPlaceholder('Name')
+				.setValue(property.name)
+				.onChange(async (value) => {
+					property.name = value.trim();
+					await plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Value')
+				.setValue(property.value)
+				.onChange(async (value) => {
+					property.value = value;
+					await plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOptions(FRONTMATTER_PROPERTY_TYPE_OPTIONS)
+				.setValue(property.type)
+				.onChange(async (value) => {
+					property.type = value as FrontmatterPropertyType;
+					await plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove property')
+				.onClick(async () => {
+					template.properties = template.properties.filter(p => p.id !== property.id);
+					await refresh();
+				}));
+	}
+}
+
+/**
+ * Export a workflow as a shareable file in the vault
+ */
+async function exportWorkflow(plugin: AIToolboxPlugin, workflow: WorkflowConfig, format: WorkflowBundleFormat): Promise<void> {
+	try {
+		const file = await exportWorkflowToVault(plugin.app, plugin.settings, workflow, format);
+		new Notice(`Exported workflow to ${file.path}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		new Notice(`✗ export failed: ${errorMessage}`, 5000);
+	}
+}
+
+/**
+ * Import a shared workflow file, asking which local model to use for each
+ * model the workflow was exported with and confirming the files it adds
+ */
+async function importWorkflowFromFile(plugin: AIToolboxPlugin, file: TFile, callbacks: WorkflowSettingsCallbacks): Promise<void> {
+	try {
+		const bundle = parseWorkflowBundle(await plugin.app.vault.read(file));
+
+		// Embedded files are written to the vault, so the import is confirmed whenever there are any
+		const filePaths = Object.keys(bundle.promptFiles);
+		const bindings: ProviderBindings = new Map();
+		if (bundle.providers.length > 0 || filePaths.length > 0) {
+			const initialValues = new Map(bundle.providers.map(placeholder => {
+				const match = findMatchingModel(plugin.settings, placeholder);
+				return [placeholder.key, match ? `${match.providerId}:${match.modelId}` : ''];
+			}));
+			const values = await promptProviderBindings(
+				plugin.app,
+				bundle.providers,
+				(placeholder) => getProviderModelOptions(plugin, placeholder.capability),
+				initialValues,
+				filePaths
+			);
+			if (!values) {
+				return;
+			}
+			for (const [key, value] of values) {
+				bindings.set(key, parseProviderModelValue(value));
+			}
+		}
+
+		const workflow = await importWorkflowBundle(plugin.app, plugin.settings, bundle, bindings);
+		plugin.settings.workflows.push(workflow);
+		callbacks.setExpandState({ workflowId: workflow.id });
+		await plugin.saveSettings();
+		callbacks.refresh();
+		new Notice(`Imported workflow: ${workflow.name}`);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		new Notice(`✗ import failed: ${errorMessage}`, 5000);
+	}
+}
+
+/**
+ * Display the dependency list for a workflow.
+ * Adding a dependency that would create a cycle is rejected with the cycle path.
+ */
+function displayWorkflowDependencies(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	workflow: WorkflowConfig,
+	callbacks: WorkflowSettingsCallbacks,
+	isExpanded: () => boolean
+): void {
+	const dependencies = workflow.dependencies ?? [];
+	const preserveExpandState = () => {
+		if (isExpanded()) {
+			callbacks.setExpandState({ workflowId: workflow.id });
+		}
+	};
+
+	const candidates = plugin.settings.workflows.filter(
+		w => w.id !== workflow.id && !dependencies.includes(w.id)
+	);
+
+	const sectionEl = containerEl.createDiv('workflow-context-section');
+	const dropdownContainer = sectionEl.createDiv('workflow-context-dropdown-container');
+	new Setting(dropdownContainer)
+		.setName('Run first')
+		.setDesc('Workflows to run before this one. Their final tokens are available as {{workflowId.token}}.')
+		.addDropdown(dropdown => {
+			dropdown.addOption('', candidates.length > 0 ? 'Add workflow...' : 'No other workflows');
+			for (const candidate of candidates) {
+				dropdown.addOption(candidate.id, candidate.name || 'Unnamed workflow');
+			}
+			dropdown.setDisabled(candidates.length === 0);
+			dropdown.onChange(async (value) => {
+				if (!value) return;
+
+				const updated: WorkflowConfig = { ...workflow, dependencies: [...dependencies, value] };
+				const cycle = detectCircularDependency(updated, {
+					...plugin.settings,
+					workflows: plugin.settings.workflows.map(w => w.id === workflow.id ? updated : w)
+				});
+				if (cycle.length > 0) {
+					new Notice(`Cannot add dependency, it would create a cycle: ${cycle.join(' → ')}`);
+					dropdown.setValue('');
+					return;
+				}
+
+				workflow.dependencies = updated.dependencies;
+				await plugin.saveSettings();
+				preserveExpandState();
+				callbacks.refresh();
+			});
+		});
+
+	if (dependencies.length > 0) {
+		const selectedListEl = sectionEl.createDiv('workflow-context-selected-list');
+		for (const depId of dependencies) {
+			const depWorkflow = plugin.settings.workflows.find(w => w.id === depId);
+			const label = depWorkflow ? (depWorkflow.name || 'Unnamed workflow') : `Missing workflow (${depId})`;
+
+			const itemEl = selectedListEl.createDiv('workflow-context-selected-item');
+			itemEl.createSpan({ text: label, cls: 'workflow-context-selected-label' });
+
+			const deleteButton = itemEl.createEl('button', { text: '×', cls: 'workflow-context-delete-button' });
+			deleteButton.setAttribute('aria-label', `Remove ${label} dependency`);
+			deleteButton.addEventListener('click', () => {
+				workflow.dependencies = dependencies.filter(id => id !== depId);
+				void plugin.saveSettings().then(() => {
+					preserveExpandState();
+					callbacks.refresh();
+				});
+			});
+		}
+	}
+}
+
 /**
  * Action type display labels
  */
@@ -411,8 +867,8 @@ function displayActionSettings(
 				await plugin.saveSettings();
 			}));
 
-	// Available tokens section (for chat actions only, since they use prompts)
-	if (action.type === 'chat') {
+	// Available tokens section (for chat prompts and HTTP request templates)
+	if (action.type === 'chat' || action.type === 'http-request') {
 		displayAvailableTokensSection(contentContainer, workflow, index, plugin);
 	}
 
@@ -433,9 +889,18 @@ function displayAvailableTokensSection(
 	containerEl: HTMLElement,
 	workflow: WorkflowConfig,
 	actionIndex: number,
-	_plugin: AIToolboxPlugin
+	plugin: AIToolboxPlugin
 ): void {
-	const tokenGroups = getAvailableTokensForAction(workflow, actionIndex);
+	const tokenGroups = getAvailableTokensForAction(workflow, actionIndex, plugin.settings.workflows);
+
+	// Tokens from the action's own context sources come first
+	const action = workflow.actions[actionIndex];
+	if (action?.type === 'chat' && action.contexts && action.contexts.length > 0) {
+		tokenGroups.unshift({
+			name: 'Chat Context',
+			tokens: action.contexts.flatMap(ctx => createContextHandler(ctx.type).getAvailableTokens())
+		});
+	}
 
 	// Create collapsible section
 	const { contentContainer } = createCollapsibleSection({
@@ -524,6 +989,7 @@ function displayChatActionSettings(
 ): void {
 	// Provider selection
 	displayActionProviderSelection(containerEl, plugin, action, 'chat');
+	displayChatFallbackSettings(containerEl, plugin, action, callbacks, preserveActionExpandState);
 
 	// Prompt source type dropdown
 	const promptSourceType = action.promptSourceType ?? 'inline';
@@ -574,6 +1040,227 @@ function displayChatActionSettings(
 			}
 		});
 	}
+
+	// System prompt source type dropdown
+	const systemPromptSourceType = action.systemPromptSourceType ?? 'inline';
+	new Setting(containerEl)
+		.setName('System prompt source')
+		.setDesc('Choose where the optional system prompt comes from')
+		.addDropdown(dropdown => dropdown
+			.addOptions(PROMPT_SOURCE_OPTIONS)
+			.setValue(systemPromptSourceType)
+			.onChange(async (value) => {
+				action.systemPromptSourceType = value as PromptSourceType;
+				await plugin.saveSettings();
+				preserveActionExpandState();
+				callbacks.refresh();
+			}));
+
+	// System prompt textarea (only show when source is inline)
+	if (systemPromptSourceType === 'inline') {
+		new Setting(containerEl)
+			.setName('System prompt')
+			.setDesc('Optional instructions sent before the prompt. Supports the same tokens as the prompt.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('You are a helpful assistant...')
+					.setValue(action.systemPromptText ?? '')
+					.onChange(async (value) => {
+						action.systemPromptText = value;
+						await plugin.saveSettings();
+					});
+				textArea.inputEl.rows = 3;
+				textArea.inputEl.addClass('workflow-textarea');
+			});
+	}
+
+	// System prompt file picker (only show when source is from-file)
+	if (systemPromptSourceType === 'from-file') {
+		createPathPicker({
+			containerEl,
+			app: plugin.app,
+			name: 'System prompt file',
+			description: 'Search for a file to use as the system prompt',
+			placeholder: 'Search for file...',
+			initialPath: action.systemPromptFilePath ?? '',
+			allowFiles: true,
+			onChange: (path: string) => {
+				action.systemPromptFilePath = path;
+				void plugin.saveSettings();
+			}
+		});
+	}
+
+	displayChatContextSettings(containerEl, plugin, action, callbacks, preserveActionExpandState);
+
+	displayResponseSchemaSetting(containerEl, plugin, action);
+
+	displayJsonExtractionSettings(containerEl, plugin, action, callbacks, preserveActionExpandState);
+
+	displayChatOptionSettings(containerEl, plugin, action, callbacks.isAdvancedVisible());
+}
+
+/**
+ * Display the context sources section for a chat action
+ */
+function displayChatContextSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	action: ChatAction,
+	callbacks: WorkflowSettingsCallbacks,
+	preserveActionExpandState: () => void
+): void {
+	const contexts = action.contexts ?? [];
+	const sectionEl = containerEl.createDiv('workflow-context-section');
+
+	// Only offer context types that haven't been added yet
+	const remainingTypes = getAvailableContextTypes().filter(
+		type => !contexts.some(ctx => ctx.type === type)
+	);
+
+	const dropdownContainer = sectionEl.createDiv('workflow-context-dropdown-container');
+	new Setting(dropdownContainer)
+		.setName('Context')
+		.setDesc('Content gathered when the action runs and available as tokens in the prompt')
+		.addDropdown(dropdown => {
+			dropdown.addOption('', remainingTypes.length > 0 ? 'Add context...' : 'All contexts added');
+			for (const type of remainingTypes) {
+				dropdown.addOption(type, CHAT_CONTEXT_TYPE_LABELS[type]);
+			}
+			dropdown.setDisabled(remainingTypes.length === 0);
+			dropdown.onChange(async (value) => {
+				if (!value) return;
+				action.contexts = [...contexts, { id: generateId(), type: value as ChatContextType }];
+				await plugin.saveSettings();
+				preserveActionExpandState();
+				callbacks.refresh();
+			});
+		});
+
+	if (contexts.length > 0) {
+		const selectedListEl = sectionEl.createDiv('workflow-context-selected-list');
+		for (const ctx of contexts) {
+			const itemEl = selectedListEl.createDiv('workflow-context-selected-item');
+			itemEl.setAttribute('aria-label', CHAT_CONTEXT_TYPE_DESCRIPTIONS[ctx.type]);
+			itemEl.createSpan({ text: CHAT_CONTEXT_TYPE_LABELS[ctx.type], cls: 'workflow-context-selected-label' });
+
+			const deleteButton = itemEl.createEl('button', { text: '×', cls: 'workflow-context-delete-button' });
+			deleteButton.setAttribute('aria-label', `Remove ${CHAT_CONTEXT_TYPE_LABELS[ctx.type]} context`);
+			deleteButton.addEventListener('click', () => {
+				action.contexts = contexts.filter(c => c.id !== ctx.id);
+				void plugin.saveSettings().then(() => {
+					preserveActionExpandState();
+					callbacks.refresh();
+				});
+			});
+		}
+
+		new Setting(sectionEl)
+			.setName('Send context before prompt')
+			.setDesc('Also send the gathered context as a message before the prompt, so it is included without referencing its tokens')
+			.addToggle(toggle => toggle
+				.setValue(action.includeContextsAsPreamble ?? false)
+				.onChange(async (value) => {
+					action.includeContextsAsPreamble = value;
+					await plugin.saveSettings();
+				}));
+	}
+}
+
+/**
+ * Parse an optional numeric setting. Returns undefined for empty input and
+ * null for input that is not a valid number.
+ */
+function parseOptionalNumber(value: string): number | undefined | null {
+	const trimmed = value.trim();
+	if (!trimmed) {
+		return undefined;
+	}
+	const parsed = Number(trimmed);
+	return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Display chat request parameters (advanced). Empty values use the provider default.
+ */
+function displayChatOptionSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	action: ChatAction,
+	showAdvanced: boolean
+): void {
+	const settings: Setting[] = [];
+
+	const addNumberSetting = (
+		name: string,
+		desc: string,
+		placeholder: string,
+		getValue: () => number | undefined,
+		setValue: (value: number | undefined) => void
+	) => {
+		settings.push(new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => {
+				text.inputEl.type = 'number';
+				text.setPlaceholder(placeholder)
+					.setValue(getValue()?.toString() ?? '')
+					.onChange(async (value) => {
+						const parsed = parseOptionalNumber(value);
+						if (parsed === null) {
+							return;
+						}
+						setValue(parsed);
+						await plugin.saveSettings();
+					});
+			}));
+	};
+
+	addNumberSetting(
+		'Temperature',
+		'Response randomness, usually between 0 and 2. Leave empty for the provider default.',
+		'Default',
+		() => action.temperature,
+		(value) => { action.temperature = value; }
+	);
+
+	addNumberSetting(
+		'Max tokens',
+		'Maximum number of tokens to generate. Leave empty for the provider default.',
+		'Default',
+		() => action.maxTokens,
+		(value) => { action.maxTokens = value === undefined ? undefined : Math.floor(value); }
+	);
+
+	addNumberSetting(
+		'Top p',
+		'Nucleus sampling probability mass between 0 and 1. Leave empty for the provider default.',
+		'Default',
+		() => action.topP,
+		(value) => { action.topP = value; }
+	);
+
+	settings.push(new Setting(containerEl)
+		.setName('Stop sequences')
+		.setDesc('Generation stops when one of these is produced. One sequence per line.')
+		.addTextArea(textArea => {
+			textArea
+				.setValue((action.stopSequences ?? []).join('\n'))
+				.onChange(async (value) => {
+					const sequences = value.split('\n').filter(s => s.length > 0);
+					action.stopSequences = sequences.length > 0 ? sequences : undefined;
+					await plugin.saveSettings();
+				});
+			textArea.inputEl.rows = 2;
+			textArea.inputEl.addClass('workflow-textarea');
+		}));
+
+	for (const setting of settings) {
+		setting.settingEl.toggleClass('settings-advanced-hidden', !showAdvanced);
+		if (showAdvanced) {
+			setting.nameEl.addClass('settings-advanced-name');
+		}
+	}
 }
 
 /**
@@ -604,11 +1291,6 @@ function displayTranscriptionActionSettings(
 	// Provider selection
 	displayActionProviderSelection(containerEl, plugin, action, 'transcription');
 
-	// Ensure transcriptionContext exists
-	if (!action.transcriptionContext) {
-		action.transcriptionContext = { mediaType: 'video-url', sourceUrlToken: 'workflow.clipboard' };
-	}
-
 	// Media type dropdown
 	const mediaTypeOptions: Record<TranscriptionMediaType, string> = {
 		'video-url': 'Video URL',
@@ -620,11 +1302,8 @@ function displayTranscriptionActionSettings(
 		.setDesc('The type of media to transcribe')
 		.addDropdown(dropdown => dropdown
 			.addOptions(mediaTypeOptions)
-			.setValue(currentMediaType ?? 'video-url')
+			.setValue(currentMediaType)
 			.onChange(async (value) => {
-				if (!action.transcriptionContext) {
-					action.transcriptionContext = { mediaType: 'video-url', sourceUrlToken: 'workflow.clipboard' };
-				}
 				action.transcriptionContext.mediaType = value as TranscriptionMediaType;
 				await plugin.saveSettings();
 				preserveActionExpandState();
@@ -633,7 +1312,7 @@ function displayTranscriptionActionSettings(
 
 	// Source token picker - label changes based on media type
 	const actionIndex = workflow.actions.findIndex(a => a.id === action.id);
-	const tokenGroups = getAvailableTokensForAction(workflow, actionIndex);
+	const tokenGroups = getAvailableTokensForAction(workflow, actionIndex, plugin.settings.workflows);
 
 	// Build dropdown options from available tokens
 	const tokenOptions: Record<string, string> = {};
@@ -645,7 +1324,7 @@ function displayTranscriptionActionSettings(
 
 	const sourceLabel = currentMediaType === 'audio-file' ? 'File path source' : 'Source URL';
 	const sourceDesc = currentMediaType === 'audio-file'
-		? 'Select a token containing the audio file path'
+		? 'Select a token containing the audio file path (vault-relative, absolute, or a wiki-link to an attachment)'
 		: 'Select a token containing the video URL';
 
 	new Setting(containerEl)
@@ -653,11 +1332,8 @@ function displayTranscriptionActionSettings(
 		.setDesc(sourceDesc)
 		.addDropdown(dropdown => dropdown
 			.addOptions(tokenOptions)
-			.setValue(action.transcriptionContext?.sourceUrlToken ?? 'workflow.clipboard')
+			.setValue(action.transcriptionContext.sourceUrlToken ?? 'workflow.clipboard')
 			.onChange(async (value) => {
-				if (!action.transcriptionContext) {
-					action.transcriptionContext = { mediaType: 'video-url', sourceUrlToken: 'workflow.clipboard' };
-				}
 				action.transcriptionContext.sourceUrlToken = value;
 				await plugin.saveSettings();
 			}));
@@ -670,11 +1346,8 @@ function displayTranscriptionActionSettings(
 			.setDesc('Browser to impersonate when extracting audio')
 			.addDropdown(dropdown => dropdown
 				.addOptions(BROWSER_OPTIONS)
-				.setValue(action.transcriptionContext?.impersonateBrowser ?? 'chrome')
+				.setValue(action.transcriptionContext.impersonateBrowser ?? 'chrome')
 				.onChange(async (value) => {
-					if (!action.transcriptionContext) {
-						action.transcriptionContext = { mediaType: 'video-url', sourceUrlToken: 'workflow.clipboard' };
-					}
 					action.transcriptionContext.impersonateBrowser = value;
 					await plugin.saveSettings();
 				}));
@@ -684,11 +1357,8 @@ function displayTranscriptionActionSettings(
 			.setName('Use browser cookies')
 			.setDesc('Extract cookies from the selected browser for authentication (required for some age-restricted or private content)')
 			.addToggle(toggle => toggle
-				.setValue(action.transcriptionContext?.useBrowserCookies ?? false)
+				.setValue(action.transcriptionContext.useBrowserCookies ?? false)
 				.onChange(async (value) => {
-					if (!action.transcriptionContext) {
-						action.transcriptionContext = { mediaType: 'video-url', sourceUrlToken: 'workflow.clipboard' };
-					}
 					action.transcriptionContext.useBrowserCookies = value;
 					await plugin.saveSettings();
 				}));
@@ -744,20 +1414,8 @@ function displayActionProviderSelection(
 	action: WorkflowAction,
 	capability: 'chat' | 'transcription'
 ): void {
-	const providers = plugin.settings.providers;
 	const currentSelection = action.provider;
-
-	// Build options for provider/model dropdown
-	const options: Record<string, string> = { '': 'Select a provider and model' };
-	for (const provider of providers) {
-		for (const model of provider.models) {
-			const supportsCapability = capability === 'chat' ? model.supportsChat : model.supportsTranscription;
-			if (supportsCapability) {
-				const key = `${provider.id}:${model.id}`;
-				options[key] = `${provider.name} - ${model.name}`;
-			}
-		}
-	}
+	const options = getProviderModelOptions(plugin, capability);
 
 	const currentValue = currentSelection
 		? `${currentSelection.providerId}:${currentSelection.modelId}`
@@ -773,18 +1431,94 @@ function displayActionProviderSelection(
 				if (value === '') {
 					action.provider = null;
 				} else {
-					const parts = value.split(':');
-					if (parts.length === 2 && parts[0] && parts[1]) {
-						action.provider = {
-							providerId: parts[0],
-							modelId: parts[1]
-						};
+					const selection = parseProviderModelValue(value);
+					if (selection) {
+						action.provider = selection;
 					}
 				}
 				await plugin.saveSettings();
 			}));
 }
 
+/**
+ * Build provider/model dropdown options for models with the given capability
+ */
+function getProviderModelOptions(plugin: AIToolboxPlugin, capability: 'chat' | 'transcription'): Record<string, string> {
+	const options: Record<string, string> = { '': 'Select a provider and model' };
+	for (const provider of plugin.settings.providers) {
+		for (const model of provider.models) {
+			const supportsCapability = capability === 'chat' ? model.supportsChat : model.supportsTranscription;
+			if (supportsCapability) {
+				const key = `${provider.id}:${model.id}`;
+				options[key] = `${provider.name} - ${model.name}`;
+			}
+		}
+	}
+	return options;
+}
+
+/**
+ * Parse a provider/model dropdown value ("providerId:modelId")
+ */
+function parseProviderModelValue(value: string): ProviderModelSelection | null {
+	const parts = value.split(':');
+	if (parts.length === 2 && parts[0] && parts[1]) {
+		return { providerId: parts[0], modelId: parts[1] };
+	}
+	return null;
+}
+
+/**
+ * Display the ordered fallback models for a chat action
+ */
+function displayChatFallbackSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	action: ChatAction,
+	callbacks: WorkflowSettingsCallbacks,
+	preserveActionExpandState: () => void
+): void {
+	const fallbacks = action.fallbackProviders ?? [];
+	const options = getProviderModelOptions(plugin, 'chat');
+
+	new Setting(containerEl)
+		.setName('Fallback models')
+		.setDesc('Tried in order when the provider fails with a network error, rate limit or server error. The model that answered is available as the model token.')
+		.addButton(button => button
+			.setButtonText('Add fallback')
+			.onClick(async () => {
+				action.fallbackProviders = [...fallbacks, { providerId: '', modelId: '' }];
+				await plugin.saveSettings();
+				preserveActionExpandState();
+				callbacks.refresh();
+			}));
+
+	fallbacks.forEach((fallback, index) => {
+		const currentValue = fallback.providerId ? `${fallback.providerId}:${fallback.modelId}` : '';
+		new Setting(containerEl)
+			.setName(`Fallback ${index + 1}`)
+			.setClass('workflow-fallback-provider')
+			.addDropdown(dropdown => dropdown
+				.addOptions(options)
+				.setValue(currentValue)
+				.onChange(async (value) => {
+					const selection = parseProviderModelValue(value);
+					fallbacks[index] = selection ?? { providerId: '', modelId: '' };
+					action.fallbackProviders = fallbacks;
+					await plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove fallback')
+				.onClick(async () => {
+					action.fallbackProviders = fallbacks.filter((_, i) => i !== index);
+					await plugin.saveSettings();
+					preserveActionExpandState();
+					callbacks.refresh();
+				}));
+	});
+}
+
 /**
  * Display HTTP request action settings
  */
@@ -792,13 +1526,13 @@ function displayHttpRequestActionSettings(
 	containerEl: HTMLElement,
 	plugin: AIToolboxPlugin,
 	action: HttpRequestAction,
-	_callbacks: WorkflowSettingsCallbacks,
+	callbacks: WorkflowSettingsCallbacks,
 	workflow: WorkflowConfig,
-	_preserveActionExpandState: () => void
+	preserveActionExpandState: () => void
 ): void {
 	// Source token picker - uses same pattern as transcription action
 	const actionIndex = workflow.actions.findIndex(a => a.id === action.id);
-	const tokenGroups = getAvailableTokensForAction(workflow, actionIndex);
+	const tokenGroups = getAvailableTokensForAction(workflow, actionIndex, plugin.settings.workflows);
 
 	// Build dropdown options from available tokens
 	const tokenOptions: Record<string, string> = {};
@@ -818,4 +1552,241 @@ function displayHttpRequestActionSettings(
 				action.sourceUrlToken = value;
 				await plugin.saveSettings();
 			}));
+
+	const method = action.method ?? 'GET';
+	new Setting(containerEl)
+		.setName('Method')
+		.setDesc('HTTP method for the request')
+		.addDropdown(dropdown => dropdown
+			.addOptions(HTTP_METHOD_OPTIONS)
+			.setValue(method)
+			.onChange(async (value) => {
+				action.method = value as HttpMethod;
+				await plugin.saveSettings();
+				preserveActionExpandState();
+				callbacks.refresh();
+			}));
+
+	new Setting(containerEl)
+		.setName('Headers')
+		.setDesc('Request headers, one "name: value" pair per line. Values can use tokens.')
+		.addTextArea(textArea => {
+			textArea
+				.setPlaceholder('X-Custom-Header: {{workflow.file.path}}')
+				.setValue(formatCustomHeaders(action.headers))
+				.onChange(async (value) => {
+					action.headers = parseCustomHeaders(value);
+					await plugin.saveSettings();
+				});
+			textArea.inputEl.rows = 3;
+			textArea.inputEl.addClass('workflow-textarea');
+		});
+
+	// GET requests have no body
+	if (method !== 'GET') {
+		new Setting(containerEl)
+			.setName('Content type')
+			.setDesc('Content type of the request body')
+			.addDropdown(dropdown => dropdown
+				.addOptions(HTTP_CONTENT_TYPE_OPTIONS)
+				.setValue(action.contentType ?? 'application/json')
+				.onChange(async (value) => {
+					action.contentType = value as HttpContentType;
+					await plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Body')
+			.setDesc('Request body. Token values are escaped to fit the content type.')
+			.addTextArea(textArea => {
+				textArea
+					.setPlaceholder('{"text": "{{workflow.selection}}"}')
+					.setValue(action.bodyTemplate ?? '')
+					.onChange(async (value) => {
+						action.bodyTemplate = value;
+						await plugin.saveSettings();
+					});
+				textArea.inputEl.rows = 6;
+				textArea.inputEl.addClass('workflow-textarea');
+			});
+	}
+
+	displayHttpAuthSettings(containerEl, plugin, action, callbacks, preserveActionExpandState);
+
+	displayJsonExtractionSettings(containerEl, plugin, action, callbacks, preserveActionExpandState);
+
+	new Setting(containerEl)
+		.setName('Fail on error status')
+		.setDesc('Treat responses outside the 2xx range as a failed action. Turn off to pass error responses on as tokens.')
+		.addToggle(toggle => toggle
+			.setValue(!action.allowErrorStatus)
+			.onChange(async (value) => {
+				action.allowErrorStatus = !value;
+				await plugin.saveSettings();
+			}));
+}
+
+/**
+ * Display authentication settings for an HTTP request action.
+ * Credentials are stored in plugin settings, like provider API keys.
+ */
+function displayHttpAuthSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	action: HttpRequestAction,
+	callbacks: WorkflowSettingsCallbacks,
+	preserveActionExpandState: () => void
+): void {
+	const authType = action.auth?.type ?? 'none';
+
+	new Setting(containerEl)
+		.setName('Authentication')
+		.setDesc('How to authenticate the request')
+		.addDropdown(dropdown => dropdown
+			.addOptions(HTTP_AUTH_TYPE_OPTIONS)
+			.setValue(authType)
+			.onChange(async (value) => {
+				action.auth = { ...action.auth, type: value as HttpAuthType };
+				await plugin.saveSettings();
+				preserveActionExpandState();
+				callbacks.refresh();
+			}));
+
+	// Credentials are kept in the same storage as provider API keys
+	const credentialsLocked = plugin.isSecretStorageLocked();
+
+	if (authType === 'bearer') {
+		new Setting(containerEl)
+			.setName('Bearer token')
+			.setDesc('Sent in the authorization header. Enter env: followed by a variable name to read it from the environment.')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.setPlaceholder(credentialsLocked ? 'Unlock API keys to edit' : 'Enter your token')
+					.setValue(secretStore.reveal(action.auth?.bearerToken ?? ''))
+					.setDisabled(credentialsLocked)
+					.onChange(async (value) => {
+						const bearerToken = storeSecretSetting(plugin, getHttpAuthSecretId(action.id, 'bearer-token'), action.auth?.bearerToken ?? '', value);
+						action.auth = { ...action.auth, type: 'bearer', bearerToken };
+						await plugin.saveSettings();
+					});
+			});
+	} else if (authType === 'basic') {
+		new Setting(containerEl)
+			.setName('Username')
+			.addText(text => text
+				.setValue(action.auth?.username ?? '')
+				.onChange(async (value) => {
+					action.auth = { ...action.auth, type: 'basic', username: value };
+					await plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Password')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.setPlaceholder(credentialsLocked ? 'Unlock API keys to edit' : '')
+					.setValue(secretStore.reveal(action.auth?.password ?? ''))
+					.setDisabled(credentialsLocked)
+					.onChange(async (value) => {
+						const password = storeSecretSetting(plugin, getHttpAuthSecretId(action.id, 'password'), action.auth?.password ?? '', value);
+						action.auth = { ...action.auth, type: 'basic', password };
+						await plugin.saveSettings();
+					});
+			});
+	}
+}
+
+/**
+ * Display the response schema setting for a chat action.
+ * The description shows a parse error while the schema is invalid.
+ */
+function displayResponseSchemaSetting(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	action: ChatAction
+): void {
+	const description = 'Optional JSON schema the response must match. Its top-level fields become tokens.';
+	const setting = new Setting(containerEl).setName('Response schema');
+
+	const updateDescription = (value: string) => {
+		if (!value.trim()) {
+			setting.setDesc(description);
+			return;
+		}
+		try {
+			parseJsonSchema(value);
+			setting.setDesc(description);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			setting.setDesc(`Invalid schema: ${errorMessage}`);
+		}
+	};
+
+	setting.addTextArea(textArea => {
+		textArea
+			.setPlaceholder('{"type": "object", "properties": {"title": {"type": "string"}}, "required": ["title"]}')
+			.setValue(action.responseSchema ?? '')
+			.onChange(async (value) => {
+				action.responseSchema = value;
+				updateDescription(value);
+				await plugin.saveSettings();
+			});
+		textArea.inputEl.rows = 6;
+		textArea.inputEl.addClass('workflow-textarea');
+	});
+	updateDescription(action.responseSchema ?? '');
+}
+
+/**
+ * Display the JSON extraction list for a chat or HTTP request action.
+ * Each extraction becomes a token named after it, e.g. {{http1.title}}.
+ */
+function displayJsonExtractionSettings(
+	containerEl: HTMLElement,
+	plugin: AIToolboxPlugin,
+	action: ChatAction | HttpRequestAction,
+	callbacks: WorkflowSettingsCallbacks,
+	preserveActionExpandState: () => void
+): void {
+	const extractions = action.jsonExtractions ?? [];
+
+	new Setting(containerEl)
+		.setName('JSON extractions')
+		.setDesc(`Extract values from the JSON ${action.type === 'chat' ? 'response' : 'response body'} as tokens. Paths use dot notation, e.g. items[0].title or $.items[0].title.`)
+		.addButton(button => button
+			.setButtonText('Add extraction')
+			.onClick(async () => {
+				action.jsonExtractions = [...extractions, { id: generateId(), name: '', path: '' }];
+				await plugin.saveSettings();
+				preserveActionExpandState();
+				callbacks.refresh();
+			}));
+
+	for (const extraction of extractions) {
+		new Setting(containerEl)
+			.setClass('workflow-json-extraction')
+			.addText(text => text
+				.setPlaceholder('Token name')
+				.setValue(extraction.name)
+				.onChange(async (value) => {
+					extraction.name = value.trim();
+					await plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Path')
+				.setValue(extraction.path)
+				.onChange(async (value) => {
+					extraction.path = value.trim();
+					await plugin.saveSettings();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove extraction')
+				.onClick(async () => {
+					action.jsonExtractions = extractions.filter(e => e.id !== extraction.id);
+					await plugin.saveSettings();
+					preserveActionExpandState();
+					callbacks.refresh();
+				}));
+	}
 }
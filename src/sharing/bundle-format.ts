@@ -0,0 +1,146 @@
+import { WORKFLOW_BUNDLE_FORMAT, WORKFLOW_BUNDLE_VERSION, WorkflowBundle, WorkflowBundleFormat } from './types';
+
+// Heading of the section holding the bundle JSON in a markdown bundle
+const WORKFLOW_HEADING = '## Workflow';
+
+// Heading prefix of each prompt file section in a markdown bundle
+const PROMPT_FILE_HEADING = '## Prompt file: ';
+
+/**
+ * Build a code fence longer than any backtick run in the content
+ */
+function getFence(content: string): string {
+    const longestRun = Math.max(2, ...(content.match(/`+/g) ?? []).map(run => run.length));
+    return '`'.repeat(longestRun + 1);
+}
+
+/**
+ * Write a bundle as a markdown note: prompt files as readable sections,
+ * followed by the rest of the bundle as a JSON code block.
+ */
+function bundleToMarkdown(bundle: WorkflowBundle): string {
+    const lines: string[] = [
+        '---',
+        `${WORKFLOW_BUNDLE_FORMAT}: true`,
+        '---',
+        '',
+        `# ${bundle.workflow.name}`,
+        '',
+        'Shared AI Toolbox workflow. Import it with "Import workflow" in the workflows tab of the plugin settings.',
+        ''
+    ];
+
+    for (const [path, content] of Object.entries(bundle.promptFiles)) {
+        const fence = getFence(content);
+        lines.push(`${PROMPT_FILE_HEADING}${path}`, '', fence, content, fence, '');
+    }
+
+    const { format, version, workflow, providers } = bundle;
+    lines.push(WORKFLOW_HEADING, '', '```json', JSON.stringify({ format, version, workflow, providers }, null, 2), '```', '');
+
+    return lines.join('\n');
+}
+
+/**
+ * Read the bundle back from a markdown note written by bundleToMarkdown
+ */
+function parseMarkdownBundle(markdown: string): unknown {
+    const text = markdown.replace(/\r\n/g, '\n');
+    // The workflow section comes last, after any prompt file that might contain the same heading
+    const workflowMatches = [...text.matchAll(new RegExp(`^${WORKFLOW_HEADING}\\n+\`\`\`json\\n([\\s\\S]*?)\\n\`\`\`$`, 'gm'))];
+    const workflowMatch = workflowMatches[workflowMatches.length - 1];
+    if (!workflowMatch?.[1]) {
+        throw new Error('No workflow section found in the note');
+    }
+
+    const parsed = JSON.parse(workflowMatch[1]) as Record<string, unknown>;
+    const promptFiles: Record<string, string> = {};
+    const promptFilePattern = new RegExp(`^${PROMPT_FILE_HEADING}(.+)\\n+(\`{3,})\\n([\\s\\S]*?)\\n\\2$`, 'gm');
+    for (const match of text.matchAll(promptFilePattern)) {
+        if (match[1] && match[3] !== undefined) {
+            promptFiles[match[1].trim()] = match[3];
+        }
+    }
+
+    return { ...parsed, promptFiles };
+}
+
+/**
+ * Check that an embedded file path is relative to the vault root and stays out
+ * of hidden folders (such as the vault's config folder, where plugins live).
+ * Paths come from shared files, so nothing in them is trusted.
+ */
+function isSafePromptFilePath(path: string): boolean {
+    if (!path.trim() || path.startsWith('/') || path.includes('\\') || path.includes('\0') || /^[a-zA-Z]:/.test(path)) {
+        return false;
+    }
+    // Rejecting segments that start with a dot also rejects "." and ".."
+    return path.split('/').every(segment => !segment.trim().startsWith('.'));
+}
+
+/**
+ * Check the prompt files of a parsed bundle: a record of file contents by vault path.
+ *
+ * @throws Error if the value isn't such a record or a path is unsafe to write to
+ */
+function parsePromptFiles(value: unknown): Record<string, string> {
+    if (value === undefined) {
+        return {};
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('The shared workflow has invalid prompt files');
+    }
+
+    const promptFiles: Record<string, string> = {};
+    for (const [path, content] of Object.entries(value as Record<string, unknown>)) {
+        if (typeof content !== 'string') {
+            throw new Error(`Prompt file "${path}" in the shared workflow is not text`);
+        }
+        if (!isSafePromptFilePath(path)) {
+            throw new Error(`Prompt file "${path}" in the shared workflow is outside the vault or in a hidden folder`);
+        }
+        promptFiles[path] = content;
+    }
+    return promptFiles;
+}
+
+/**
+ * Serialize a bundle for sharing.
+ */
+export function serializeWorkflowBundle(bundle: WorkflowBundle, format: WorkflowBundleFormat): string {
+    return format === 'markdown'
+        ? bundleToMarkdown(bundle)
+        : JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Parse a bundle from a JSON file or a markdown note.
+ *
+ * @throws Error if the text isn't a workflow bundle, comes from a newer plugin version
+ *         or embeds files at paths outside the vault or in hidden folders
+ */
+export function parseWorkflowBundle(text: string): WorkflowBundle {
+    const trimmed = text.trim();
+    const parsed: unknown = trimmed.startsWith('{')
+        ? JSON.parse(trimmed)
+        : parseMarkdownBundle(trimmed);
+
+    const bundle = parsed as Partial<WorkflowBundle> | null;
+    if (!bundle || bundle.format !== WORKFLOW_BUNDLE_FORMAT) {
+        throw new Error('This file is not a shared workflow');
+    }
+    if (typeof bundle.version !== 'number' || bundle.version > WORKFLOW_BUNDLE_VERSION) {
+        throw new Error('This workflow was exported by a newer version of the plugin');
+    }
+    if (!bundle.workflow || !Array.isArray(bundle.workflow.actions)) {
+        throw new Error('The shared workflow has no actions list');
+    }
+
+    return {
+        format: WORKFLOW_BUNDLE_FORMAT,
+        version: bundle.version,
+        workflow: bundle.workflow,
+        providers: Array.isArray(bundle.providers) ? bundle.providers : [],
+        promptFiles: parsePromptFiles(bundle.promptFiles)
+    };
+}
@@ -0,0 +1,19 @@
+// Re-export types
+export type {
+    WorkflowBundle,
+    WorkflowBundleFormat,
+    ProviderPlaceholder,
+    ProviderBindings
+} from './types';
+export { WORKFLOW_BUNDLE_FORMAT, WORKFLOW_BUNDLE_VERSION, PROVIDER_PLACEHOLDER_ID } from './types';
+
+// Re-export bundle serialization
+export { serializeWorkflowBundle, parseWorkflowBundle } from './bundle-format';
+
+// Re-export export and import
+export {
+    createWorkflowBundle,
+    exportWorkflowToVault,
+    importWorkflowBundle,
+    findMatchingModel
+} from './workflow-bundle';
@@ -0,0 +1,56 @@
+import { AIProviderType, ProviderModelSelection, WorkflowConfig } from '../settings';
+
+/**
+ * Marks a JSON object (or markdown note frontmatter) as a workflow bundle
+ */
+export const WORKFLOW_BUNDLE_FORMAT = 'ai-toolbox-workflow';
+
+/**
+ * Current bundle version; bundles from newer versions are rejected
+ */
+export const WORKFLOW_BUNDLE_VERSION = 1;
+
+/**
+ * Provider ID used in exported selections; the model ID holds the placeholder key
+ */
+export const PROVIDER_PLACEHOLDER_ID = 'placeholder';
+
+/**
+ * File format a bundle is written in
+ */
+export type WorkflowBundleFormat = 'json' | 'markdown';
+
+/**
+ * A provider and model used by an exported workflow, bound to a local model on import
+ */
+export interface ProviderPlaceholder {
+    /** Key stored as the model ID of placeholder selections */
+    key: string;
+    /** Name of the provider in the exporting vault */
+    providerName: string;
+    providerType?: AIProviderType;
+    /** Name of the model in the exporting vault */
+    modelName: string;
+    /** Model ID sent to the API, to help match a local model */
+    modelId: string;
+    /** Capability the workflow needs from the bound model */
+    capability: 'chat' | 'transcription';
+}
+
+/**
+ * A shareable workflow: its configuration without secrets or local provider IDs,
+ * plus the prompt files its chat actions read and its output template file
+ */
+export interface WorkflowBundle {
+    format: typeof WORKFLOW_BUNDLE_FORMAT;
+    version: number;
+    workflow: WorkflowConfig;
+    providers: ProviderPlaceholder[];
+    /** Prompt and template file contents by vault path */
+    promptFiles: Record<string, string>;
+}
+
+/**
+ * Local model chosen for each placeholder key (null leaves the action unconfigured)
+ */
+export type ProviderBindings = Map<string, ProviderModelSelection | null>;
@@ -0,0 +1,354 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import {
+    AIToolboxSettings,
+    ProviderModelSelection,
+    SettingsRepairReport,
+    WorkflowAction,
+    WorkflowConfig,
+    generateId,
+    logSettingsRepairReport,
+    validateWorkflow
+} from '../settings';
+import { redactSecrets } from '../secrets';
+import { logWarn, LogCategory } from '../logging';
+import {
+    PROVIDER_PLACEHOLDER_ID,
+    ProviderBindings,
+    ProviderPlaceholder,
+    WORKFLOW_BUNDLE_FORMAT,
+    WORKFLOW_BUNDLE_VERSION,
+    WorkflowBundle,
+    WorkflowBundleFormat
+} from './types';
+import { serializeWorkflowBundle } from './bundle-format';
+
+// Matches {{sourceId.tokenName}} references in prompts and templates
+const TOKEN_REFERENCE_PATTERN = /\{\{([a-zA-Z0-9_-]+)\.([a-zA-Z0-9_]+)\}\}/g;
+
+// Matches a bare sourceId.tokenName reference (source URL tokens)
+const BARE_TOKEN_REFERENCE_PATTERN = /^([a-zA-Z0-9_-]+)\.([a-zA-Z0-9_]+)$/;
+
+// Request headers that describe the content rather than carry credentials, kept on export
+const SHAREABLE_HEADER_NAMES = new Set(['accept', 'accept-language', 'content-type', 'user-agent']);
+
+/**
+ * Clear request header values that may hold credentials (API keys, tokens, cookies).
+ * Content headers and values made only of token references are kept.
+ *
+ * @returns Names of the cleared headers
+ */
+function redactRequestHeaders(headers: Record<string, string>): string[] {
+    const redacted: string[] = [];
+    for (const [name, value] of Object.entries(headers)) {
+        if (!value || SHAREABLE_HEADER_NAMES.has(name.toLowerCase()) || !value.replace(TOKEN_REFERENCE_PATTERN, '').trim()) {
+            continue;
+        }
+        headers[name] = '';
+        redacted.push(name);
+    }
+    return redacted;
+}
+
+/**
+ * Replace the source ID of each {{sourceId.token}} reference found in the ID map
+ */
+function rewriteTokenReferences(text: string, idMap: Map<string, string>): string {
+    return text.replace(TOKEN_REFERENCE_PATTERN, (match, sourceId: string, tokenName: string) => {
+        const newId = idMap.get(sourceId);
+        return newId ? `{{${newId}.${tokenName}}}` : match;
+    });
+}
+
+/**
+ * Replace the source ID of a bare sourceId.token reference found in the ID map
+ */
+function rewriteBareTokenReference(reference: string, idMap: Map<string, string>): string {
+    const match = BARE_TOKEN_REFERENCE_PATTERN.exec(reference);
+    const newId = match?.[1] ? idMap.get(match[1]) : undefined;
+    return newId ? `${newId}.${match?.[2] ?? ''}` : reference;
+}
+
+/**
+ * Get the vault paths of the prompt files an action reads
+ */
+function getPromptFilePaths(action: WorkflowAction): string[] {
+    if (action.type !== 'chat') {
+        return [];
+    }
+    const paths: string[] = [];
+    if (action.promptSourceType === 'from-file' && action.promptFilePath) {
+        paths.push(action.promptFilePath);
+    }
+    if (action.systemPromptSourceType === 'from-file' && action.systemPromptFilePath) {
+        paths.push(action.systemPromptFilePath);
+    }
+    return paths;
+}
+
+/**
+ * Build a shareable bundle from a workflow.
+ * Credentials are removed (including request header values other than content
+ * headers), provider selections become placeholders and prompt and output
+ * template files are embedded.
+ */
+export async function createWorkflowBundle(app: App, settings: AIToolboxSettings, workflow: WorkflowConfig): Promise<WorkflowBundle> {
+    const [exported] = redactSecrets({ providers: [], workflows: [workflow] }).workflows;
+    if (!exported) {
+        throw new Error('Workflow could not be copied');
+    }
+
+    const placeholders = new Map<string, ProviderPlaceholder>();
+    const toPlaceholder = (selection: ProviderModelSelection | null, capability: 'chat' | 'transcription'): ProviderModelSelection | null => {
+        if (!selection?.providerId || !selection.modelId) {
+            return null;
+        }
+        const selectionKey = `${selection.providerId}:${selection.modelId}:${capability}`;
+        let placeholder = placeholders.get(selectionKey);
+        if (!placeholder) {
+            const provider = settings.providers.find(p => p.id === selection.providerId);
+            const model = provider?.models.find(m => m.id === selection.modelId);
+            placeholder = {
+                key: `model-${placeholders.size + 1}`,
+                providerName: provider?.name ?? '',
+                providerType: provider?.type,
+                modelName: model?.name ?? '',
+                modelId: model?.modelId ?? '',
+                capability
+            };
+            placeholders.set(selectionKey, placeholder);
+        }
+        return { providerId: PROVIDER_PLACEHOLDER_ID, modelId: placeholder.key };
+    };
+
+    const promptFiles: Record<string, string> = {};
+    const embedFile = async (path: string) => {
+        const file = app.vault.getAbstractFileByPath(normalizePath(path));
+        if (file instanceof TFile) {
+            promptFiles[path] = await app.vault.read(file);
+        } else {
+            logWarn(LogCategory.WORKFLOW, `Export of "${workflow.name}": file not found: ${path}`);
+        }
+    };
+
+    for (const action of exported.actions) {
+        const capability = action.type === 'transcription' ? 'transcription' : 'chat';
+        action.provider = toPlaceholder(action.provider, capability);
+        if (action.type === 'chat' && action.fallbackProviders) {
+            action.fallbackProviders = action.fallbackProviders
+                .map(selection => toPlaceholder(selection, 'chat'))
+                .filter((selection): selection is ProviderModelSelection => selection !== null);
+        }
+
+        for (const path of getPromptFilePaths(action)) {
+            await embedFile(path);
+        }
+
+        if (action.type === 'http-request' && action.headers) {
+            const redacted = redactRequestHeaders(action.headers);
+            if (redacted.length > 0) {
+                logWarn(LogCategory.WORKFLOW, `Export of "${workflow.name}": cleared the values of headers in "${action.name}": ${redacted.join(', ')}`);
+            }
+        }
+    }
+    if (exported.outputTemplate?.sourceType === 'from-file' && exported.outputTemplate.filePath) {
+        await embedFile(exported.outputTemplate.filePath);
+    }
+
+    return {
+        format: WORKFLOW_BUNDLE_FORMAT,
+        version: WORKFLOW_BUNDLE_VERSION,
+        workflow: exported,
+        providers: [...placeholders.values()],
+        promptFiles
+    };
+}
+
+/**
+ * Export a workflow as a bundle file in the vault root.
+ *
+ * @returns The created file
+ */
+export async function exportWorkflowToVault(
+    app: App,
+    settings: AIToolboxSettings,
+    workflow: WorkflowConfig,
+    format: WorkflowBundleFormat
+): Promise<TFile> {
+    const bundle = await createWorkflowBundle(app, settings, workflow);
+    const baseName = (workflow.name || 'Workflow').replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Workflow';
+    const extension = format === 'markdown' ? 'md' : 'json';
+
+    let filePath = `${baseName} workflow.${extension}`;
+    let counter = 1;
+    while (app.vault.getAbstractFileByPath(filePath)) {
+        filePath = `${baseName} workflow (${counter}).${extension}`;
+        counter++;
+    }
+
+    return app.vault.create(filePath, serializeWorkflowBundle(bundle, format));
+}
+
+/**
+ * Write a prompt file from a bundle, reusing an identical existing file and
+ * choosing a new name when a different file is already at the path.
+ *
+ * @returns The vault path the prompt is at
+ */
+async function writePromptFile(app: App, path: string, content: string): Promise<string> {
+    const normalized = normalizePath(path);
+    const extensionIndex = normalized.lastIndexOf('.');
+    const basePath = extensionIndex > normalized.lastIndexOf('/') ? normalized.substring(0, extensionIndex) : normalized;
+    const extension = extensionIndex > normalized.lastIndexOf('/') ? normalized.substring(extensionIndex) : '';
+
+    let finalPath = normalized;
+    let counter = 1;
+    for (;;) {
+        const existing = app.vault.getAbstractFileByPath(finalPath);
+        if (!existing) {
+            break;
+        }
+        if (existing instanceof TFile && await app.vault.read(existing) === content) {
+            return finalPath;
+        }
+        finalPath = `${basePath} (${counter})${extension}`;
+        counter++;
+    }
+
+    const folderPath = finalPath.substring(0, finalPath.lastIndexOf('/'));
+    if (folderPath && !app.vault.getAbstractFileByPath(folderPath)) {
+        await app.vault.createFolder(folderPath);
+    }
+    await app.vault.create(finalPath, content);
+    return finalPath;
+}
+
+/**
+ * Create a local workflow from a bundle.
+ * Workflow, action, context and extraction IDs are regenerated, token references
+ * to the old action IDs are rewritten (in prompt and template files too), placeholders
+ * are bound to local models and the files are written to the vault.
+ * The workflow is returned for the caller to add to settings.
+ *
+ * @param bindings - Local model for each placeholder key
+ */
+export async function importWorkflowBundle(
+    app: App,
+    settings: AIToolboxSettings,
+    bundle: WorkflowBundle,
+    bindings: ProviderBindings
+): Promise<WorkflowConfig> {
+    // Bundles may come from other plugin versions, so repair them like loaded settings
+    const report: SettingsRepairReport = { repaired: [], dropped: [] };
+    const workflow = validateWorkflow(JSON.parse(JSON.stringify(bundle.workflow)), 'shared workflow', report);
+    logSettingsRepairReport(report);
+    if (!workflow) {
+        throw new Error('The shared workflow is invalid');
+    }
+
+    const idMap = new Map<string, string>();
+    for (const action of workflow.actions) {
+        idMap.set(action.id, generateId());
+    }
+
+    const bind = (selection: ProviderModelSelection | null): ProviderModelSelection | null => {
+        if (selection?.providerId !== PROVIDER_PLACEHOLDER_ID) {
+            return null;
+        }
+        return bindings.get(selection.modelId) ?? null;
+    };
+
+    // Checked before anything is written; the plugins in the config folder are code the app runs
+    const configDir = normalizePath(app.vault.configDir);
+    for (const path of Object.keys(bundle.promptFiles)) {
+        const normalized = normalizePath(path);
+        if (normalized === configDir || normalized.startsWith(`${configDir}/`)) {
+            throw new Error(`Prompt file "${path}" is in the vault's config folder`);
+        }
+    }
+
+    const promptPaths = new Map<string, string>();
+    for (const [path, content] of Object.entries(bundle.promptFiles)) {
+        promptPaths.set(path, await writePromptFile(app, path, rewriteTokenReferences(content, idMap)));
+    }
+
+    for (const action of workflow.actions) {
+        action.id = idMap.get(action.id) ?? generateId();
+        action.provider = bind(action.provider);
+
+        if (action.type === 'chat') {
+            action.promptText = rewriteTokenReferences(action.promptText ?? '', idMap);
+            if (action.systemPromptText) {
+                action.systemPromptText = rewriteTokenReferences(action.systemPromptText, idMap);
+            }
+            action.promptFilePath = promptPaths.get(action.promptFilePath) ?? action.promptFilePath;
+            if (action.systemPromptFilePath) {
+                action.systemPromptFilePath = promptPaths.get(action.systemPromptFilePath) ?? action.systemPromptFilePath;
+            }
+            action.fallbackProviders = action.fallbackProviders
+                ?.map(bind)
+                .filter((selection): selection is ProviderModelSelection => selection !== null);
+            action.contexts = action.contexts?.map(context => ({ ...context, id: generateId() }));
+            action.jsonExtractions = action.jsonExtractions?.map(extraction => ({ ...extraction, id: generateId() }));
+        } else if (action.type === 'transcription') {
+            if (action.transcriptionContext.sourceUrlToken) {
+                action.transcriptionContext.sourceUrlToken = rewriteBareTokenReference(action.transcriptionContext.sourceUrlToken, idMap);
+            }
+        } else {
+            action.sourceUrlToken = rewriteBareTokenReference(action.sourceUrlToken, idMap);
+            if (action.bodyTemplate) {
+                action.bodyTemplate = rewriteTokenReferences(action.bodyTemplate, idMap);
+            }
+            if (action.headers) {
+                for (const [name, value] of Object.entries(action.headers)) {
+                    action.headers[name] = rewriteTokenReferences(value, idMap);
+                }
+            }
+            action.jsonExtractions = action.jsonExtractions?.map(extraction => ({ ...extraction, id: generateId() }));
+        }
+    }
+
+    if (workflow.appendToNote?.targetType === 'token-path') {
+        workflow.appendToNote.path = rewriteTokenReferences(workflow.appendToNote.path, idMap);
+    }
+
+    const template = workflow.outputTemplate;
+    if (template) {
+        template.text = rewriteTokenReferences(template.text, idMap);
+        template.filePath = promptPaths.get(template.filePath) ?? template.filePath;
+        template.properties = template.properties.map(property => ({
+            ...property,
+            id: generateId(),
+            value: rewriteTokenReferences(property.value, idMap)
+        }));
+    }
+
+    // Dependencies only carry over when the same workflows exist in this vault
+    const dependencies = workflow.dependencies ?? [];
+    workflow.dependencies = dependencies.filter(id => settings.workflows.some(w => w.id === id));
+    if (workflow.dependencies.length < dependencies.length) {
+        logWarn(LogCategory.WORKFLOW, `Import of "${workflow.name}": dropped ${dependencies.length - workflow.dependencies.length} dependencies on workflows that are not in this vault`);
+    }
+
+    workflow.id = generateId();
+    if (settings.workflows.some(w => w.name === workflow.name)) {
+        workflow.name = `${workflow.name} (imported)`;
+    }
+
+    return workflow;
+}
+
+/**
+ * Find a local model matching a placeholder: same provider and model name first,
+ * then the same API model ID on a provider of the same type.
+ */
+export function findMatchingModel(settings: AIToolboxSettings, placeholder: ProviderPlaceholder): ProviderModelSelection | null {
+    const candidates = settings.providers.flatMap(provider => provider.models
+        .filter(model => placeholder.capability === 'chat' ? model.supportsChat : model.supportsTranscription)
+        .map(model => ({ provider, model })));
+
+    const match = candidates.find(({ provider, model }) => provider.name === placeholder.providerName && model.name === placeholder.modelName)
+        ?? candidates.find(({ provider, model }) => placeholder.modelId !== '' && model.modelId === placeholder.modelId && provider.type === placeholder.providerType)
+        ?? candidates.find(({ model }) => placeholder.modelId !== '' && model.modelId === placeholder.modelId);
+
+    return match ? { providerId: match.provider.id, modelId: match.model.id } : null;
+}
@@ -1,4 +1,5 @@
-import { ActionType, TimestampGranularity, WorkflowConfig } from "../settings/types";
+import { ActionType, JsonExtraction, TimestampGranularity, WorkflowAction, WorkflowConfig } from "../settings/types";
+import { getSchemaPropertyNames } from "../utils/json-schema";
 
 /**
  * Token definition for display in the settings UI
@@ -63,7 +64,9 @@ export const WORKFLOW_CONTEXT_TOKENS: TokenDefinition[] = [
  */
 export const CHAT_WORKFLOW_TOKENS: TokenDefinition[] = [
 	{ name: 'prompt', description: 'The original prompt text' },
-	{ name: 'response', description: 'The AI response text' }
+	{ name: 'response', description: 'The AI response text' },
+	{ name: 'provider', description: 'The provider that answered (differs from the configured one after a fallback)' },
+	{ name: 'model', description: 'The model ID that answered (differs from the configured one after a fallback)' }
 ];
 
 /**
@@ -94,6 +97,10 @@ export const HTTP_REQUEST_WORKFLOW_TOKENS: TokenDefinition[] = [
 export interface TokenDefinitionOptions {
 	/** For transcription actions, the timestamp granularity setting */
 	timestampGranularity?: TimestampGranularity;
+	/** For chat actions with a response schema, the schema's top-level fields */
+	responseFields?: string[];
+	/** For chat and HTTP request actions, values extracted from the JSON output */
+	jsonExtractions?: JsonExtraction[];
 }
 
 /**
@@ -114,10 +121,17 @@ export function getTokenDefinitionsForActionType(
 		}
 		return TRANSCRIPTION_WORKFLOW_TOKENS;
 	}
+	const extractionTokens = (options?.jsonExtractions ?? [])
+		.filter(extraction => extraction.name)
+		.map(extraction => ({ name: extraction.name, description: `Extracted from JSON at ${extraction.path}` }));
 	if (type === 'http-request') {
-		return HTTP_REQUEST_WORKFLOW_TOKENS;
+		return [...HTTP_REQUEST_WORKFLOW_TOKENS, ...extractionTokens];
 	}
-	return CHAT_WORKFLOW_TOKENS;
+	const builtInNames = new Set(CHAT_WORKFLOW_TOKENS.map(token => token.name));
+	const responseFieldTokens = (options?.responseFields ?? [])
+		.filter(field => !builtInNames.has(field))
+		.map(field => ({ name: field, description: `The "${field}" field of the structured response` }));
+	return [...CHAT_WORKFLOW_TOKENS, ...responseFieldTokens, ...extractionTokens];
 }
 
 /**
@@ -166,16 +180,36 @@ export function generateGroupTemplate(group: TokenGroup): string {
 	return lines.join('\n');
 }
 
+/**
+ * Get token definitions for an action, including transcription granularity
+ * options and JSON extraction tokens.
+ */
+function getTokensForAction(tokenPrefix: string, action: WorkflowAction): TokenDefinition[] {
+	const options: TokenDefinitionOptions = {};
+	if (action.type === 'transcription') {
+		options.timestampGranularity = action.timestampGranularity;
+	} else {
+		options.jsonExtractions = action.jsonExtractions;
+	}
+	if (action.type === 'chat') {
+		options.responseFields = getSchemaPropertyNames(action.responseSchema);
+	}
+	return getActionTokens(tokenPrefix, action.type, options);
+}
+
 /**
  * Get all available tokens for a specific action in a workflow.
- * Returns tokens grouped by source: workflow context and each previous action as its own group.
+ * Returns tokens grouped by source: workflow context, each dependency workflow,
+ * and each previous action as its own group.
  *
  * @param workflow - The workflow containing the action
  * @param actionIndex - The index of the action in the workflow
+ * @param workflows - All configured workflows, used to resolve dependency tokens
  */
 export function getAvailableTokensForAction(
 	workflow: WorkflowConfig,
-	actionIndex: number
+	actionIndex: number,
+	workflows: WorkflowConfig[] = []
 ): TokenGroup[] {
 	const groups: TokenGroup[] = [];
 
@@ -185,17 +219,25 @@ export function getAvailableTokensForAction(
 		tokens: WORKFLOW_CONTEXT_TOKENS
 	});
 
+	// Dependency workflows expose their final action's tokens under the workflow ID
+	for (const depId of new Set(workflow.dependencies ?? [])) {
+		const depWorkflow = workflows.find(w => w.id === depId);
+		const lastAction = depWorkflow?.actions[depWorkflow.actions.length - 1];
+		if (!depWorkflow || !lastAction) {
+			continue;
+		}
+		groups.push({
+			name: `Workflow: ${depWorkflow.name || depWorkflow.id}`,
+			tokens: getTokensForAction(depWorkflow.id, lastAction)
+		});
+	}
+
 	// Each previous action becomes its own top-level group
 	const previousActions = workflow.actions.slice(0, actionIndex);
 	for (const prevAction of previousActions) {
-		const options: TokenDefinitionOptions = {};
-		if (prevAction.type === 'transcription') {
-			options.timestampGranularity = prevAction.timestampGranularity;
-		}
-		const tokens = getActionTokens(prevAction.id, prevAction.type, options);
 		groups.push({
 			name: prevAction.name || `Action ${prevAction.id}`,
-			tokens
+			tokens: getTokensForAction(prevAction.id, prevAction)
 		});
 	}
 
@@ -0,0 +1,112 @@
+import { App } from 'obsidian';
+import { AIToolboxSettings, ProviderModelSelection } from '../settings';
+import { confirmBudgetExceeded } from '../components/budget-confirm-modal';
+import { formatLocalDay } from '../utils/date-utils';
+import { logWarn, LogCategory } from '../logging';
+import { formatCost, priceUsage } from './pricing';
+import { usageTracker } from './usage-tracker';
+import { MeasuredUsage } from './types';
+
+/**
+ * Find the first budget limit of a provider that a request would exceed.
+ * Limits cover all of the provider's models; the request's estimated usage is
+ * priced with its model's prices and added to what was already used.
+ *
+ * @param estimate - Expected usage of the request
+ * @returns A message describing the exceeded limit, or null when within budget
+ */
+export function findExceededBudget(
+    settings: AIToolboxSettings,
+    selection: ProviderModelSelection,
+    estimate: MeasuredUsage
+): string | null {
+    const provider = settings.providers.find(p => p.id === selection.providerId);
+    const budget = provider?.budget;
+    if (!provider || !budget) {
+        return null;
+    }
+
+    const model = provider.models.find(m => m.id === selection.modelId);
+    const expected = priceUsage(estimate, model?.pricing);
+    const expectedTokens = expected.promptTokens + expected.completionTokens;
+
+    const now = new Date();
+    const periods = [
+        { name: 'Daily', scope: 'today', sinceDay: formatLocalDay(now), cost: budget.dailyCost, tokens: budget.dailyTokens },
+        {
+            name: 'Monthly',
+            scope: 'this month',
+            sinceDay: formatLocalDay(new Date(now.getFullYear(), now.getMonth(), 1)),
+            cost: budget.monthlyCost,
+            tokens: budget.monthlyTokens
+        }
+    ];
+
+    for (const period of periods) {
+        if (period.cost === undefined && period.tokens === undefined) {
+            continue;
+        }
+
+        const used = usageTracker.getTotals(e => e.providerId === provider.id && e.day >= period.sinceDay);
+        if (period.cost !== undefined && used.cost + expected.cost > period.cost) {
+            return `${period.name} spend limit of ${formatCost(period.cost)} for "${provider.name}" would be exceeded (${formatCost(used.cost)} used ${period.scope})`;
+        }
+
+        const usedTokens = used.promptTokens + used.completionTokens;
+        if (period.tokens !== undefined && usedTokens + expectedTokens > period.tokens) {
+            return `${period.name} token limit of ${period.tokens.toLocaleString()} for "${provider.name}" would be exceeded (${usedTokens.toLocaleString()} used ${period.scope})`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check a request against its provider's budget limits before sending it.
+ * Depending on the provider's setting, an exceeded limit blocks the request
+ * or asks the user whether to send it anyway.
+ *
+ * @param estimate - Expected usage of the request
+ * @returns An error message when the request must not be sent, or null to proceed
+ */
+export async function checkBudget(
+    app: App,
+    settings: AIToolboxSettings,
+    selection: ProviderModelSelection,
+    estimate: MeasuredUsage
+): Promise<string | null> {
+    const exceeded = findExceededBudget(settings, selection, estimate);
+    if (!exceeded) {
+        return null;
+    }
+
+    const provider = settings.providers.find(p => p.id === selection.providerId);
+    if (provider?.budget?.onExceeded === 'confirm') {
+        if (await confirmBudgetExceeded(app, exceeded)) {
+            logWarn(LogCategory.PROVIDER, `${exceeded}; sending the request as confirmed`);
+            return null;
+        }
+        return `${exceeded}. The request was not sent.`;
+    }
+
+    logWarn(LogCategory.PROVIDER, exceeded);
+    return `${exceeded}. Raise the limit in provider settings to continue.`;
+}
+
+/**
+ * Roughly estimate the number of tokens in text (about four characters per token).
+ */
+export function estimateTokenCount(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate a chat request's usage from its text, for providers that don't report
+ * usage and for responses stopped before the usage was reported.
+ */
+export function estimateChatUsage(promptText: string, responseText: string): MeasuredUsage {
+    return {
+        promptTokens: estimateTokenCount(promptText),
+        completionTokens: estimateTokenCount(responseText)
+    };
+}
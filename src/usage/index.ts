@@ -0,0 +1,20 @@
+// Re-export types
+export type {
+    UsageTotals,
+    MeasuredUsage,
+    UsageSource,
+    UsageEntry,
+    UsageGrouping,
+    UsageSummaryRow,
+    UsageListener,
+    UsageUnsubscribe
+} from './types';
+
+// Re-export pricing helpers
+export { emptyUsage, addUsage, priceUsage, formatCost, formatAudioMinutes, formatUsage } from './pricing';
+
+// Re-export usage store
+export { usageTracker } from './usage-tracker';
+
+// Re-export budget checks
+export { findExceededBudget, checkBudget, estimateTokenCount, estimateChatUsage } from './budget';
@@ -0,0 +1,99 @@
+import { ModelPricing } from '../settings';
+import { MeasuredUsage, UsageTotals } from './types';
+
+/**
+ * Create empty usage totals.
+ */
+export function emptyUsage(): UsageTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, audioSeconds: 0, cost: 0, unpricedRequests: 0 };
+}
+
+/**
+ * Add usage totals into `target` in place.
+ */
+export function addUsage(target: UsageTotals, usage: UsageTotals): UsageTotals {
+    target.requests += usage.requests;
+    target.promptTokens += usage.promptTokens;
+    target.completionTokens += usage.completionTokens;
+    target.audioSeconds += usage.audioSeconds;
+    target.cost += usage.cost;
+    target.unpricedRequests += usage.unpricedRequests;
+    return target;
+}
+
+/**
+ * Estimate the cost of one request from the model's price table.
+ * A request is unpriced when it used tokens or audio that the table has no price for.
+ */
+export function priceUsage(measured: MeasuredUsage, pricing: ModelPricing | undefined): UsageTotals {
+    const promptTokens = measured.promptTokens ?? 0;
+    const completionTokens = measured.completionTokens ?? 0;
+    const audioSeconds = measured.audioSeconds ?? 0;
+
+    let cost = 0;
+    let priced = true;
+    const addCost = (amount: number, price: number | undefined, unit: number) => {
+        if (amount <= 0) {
+            return;
+        }
+        if (price === undefined) {
+            priced = false;
+            return;
+        }
+        cost += amount / unit * price;
+    };
+
+    addCost(promptTokens, pricing?.inputPerMillionTokens, 1_000_000);
+    addCost(completionTokens, pricing?.outputPerMillionTokens, 1_000_000);
+    addCost(audioSeconds, pricing?.perAudioMinute, 60);
+
+    return {
+        requests: 1,
+        promptTokens,
+        completionTokens,
+        audioSeconds,
+        cost,
+        unpricedRequests: priced ? 0 : 1
+    };
+}
+
+/**
+ * Format an estimated cost, with more precision for small amounts.
+ */
+export function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Format an audio duration as minutes.
+ */
+export function formatAudioMinutes(seconds: number): string {
+    return `${(seconds / 60).toFixed(1)} min`;
+}
+
+/**
+ * Describe usage totals in one line, e.g. "1,234 tokens (1,000 in, 234 out), ~$0.0021".
+ * Returns an empty string when nothing was used.
+ */
+export function formatUsage(usage: UsageTotals): string {
+    const parts: string[] = [];
+
+    const tokens = usage.promptTokens + usage.completionTokens;
+    if (tokens > 0) {
+        parts.push(`${tokens.toLocaleString()} tokens (${usage.promptTokens.toLocaleString()} in, ${usage.completionTokens.toLocaleString()} out)`);
+    }
+    if (usage.audioSeconds > 0) {
+        parts.push(`${formatAudioMinutes(usage.audioSeconds)} of audio`);
+    }
+    if (parts.length === 0) {
+        return '';
+    }
+
+    if (usage.unpricedRequests === usage.requests) {
+        parts.push('cost unknown (no model prices set)');
+    } else {
+        const partial = usage.unpricedRequests > 0 ? ', excluding unpriced requests' : '';
+        parts.push(`~${formatCost(usage.cost)}${partial}`);
+    }
+    return parts.join(', ');
+}
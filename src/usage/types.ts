@@ -0,0 +1,82 @@
+/**
+ * Token and audio usage with its estimated cost.
+ * Used for a single request, an action, a run, or an aggregate.
+ */
+export interface UsageTotals {
+    /** Number of provider requests counted */
+    requests: number;
+    /** Input (prompt) tokens */
+    promptTokens: number;
+    /** Output (completion) tokens */
+    completionTokens: number;
+    /** Seconds of transcribed audio */
+    audioSeconds: number;
+    /** Estimated cost of the priced requests, in USD */
+    cost: number;
+    /** Requests whose model has no price for what they used, so their cost is unknown */
+    unpricedRequests: number;
+}
+
+/**
+ * Usage measured for one provider request
+ */
+export interface MeasuredUsage {
+    promptTokens?: number;
+    completionTokens?: number;
+    audioSeconds?: number;
+}
+
+/**
+ * Where a request's usage is attributed
+ */
+export interface UsageSource {
+    /** Provider ID from settings */
+    providerId: string;
+    /** Model ID from settings */
+    modelId: string;
+    /** Workflow that made the request; absent for the chat view */
+    workflowId?: string;
+    /** Workflow name at the time of the request */
+    workflowName?: string;
+}
+
+/**
+ * Aggregated usage for one provider, model and workflow on one day, persisted in the usage file.
+ */
+export interface UsageEntry extends UsageTotals {
+    /** Local calendar day (YYYY-MM-DD) */
+    day: string;
+    providerId: string;
+    /** Provider name at the time of the latest request */
+    providerName: string;
+    modelId: string;
+    /** Model name at the time of the latest request */
+    modelName: string;
+    workflowId?: string;
+    workflowName?: string;
+}
+
+/**
+ * Dimension the usage summary is grouped by
+ */
+export type UsageGrouping = 'provider' | 'model' | 'workflow' | 'day';
+
+/**
+ * One row of a grouped usage summary
+ */
+export interface UsageSummaryRow extends UsageTotals {
+    /** Grouping key (provider ID, model ID, workflow ID or day) */
+    key: string;
+    /** Display label for the group */
+    label: string;
+}
+
+/**
+ * Callback type for usage subscription listeners.
+ */
+export type UsageListener = (entries: UsageEntry[]) => void;
+
+/**
+ * Unsubscribe function returned when subscribing to usage updates.
+ */
+export type UsageUnsubscribe = () => void;
@@ -0,0 +1,204 @@
+import { DataAdapter } from 'obsidian';
+import { AIToolboxSettings } from '../settings';
+import { formatLocalDay } from '../utils/date-utils';
+import { logDebug, logError, logWarn, LogCategory } from '../logging';
+import { addUsage, emptyUsage, priceUsage } from './pricing';
+import {
+    MeasuredUsage,
+    UsageEntry,
+    UsageGrouping,
+    UsageListener,
+    UsageSource,
+    UsageSummaryRow,
+    UsageTotals,
+    UsageUnsubscribe
+} from './types';
+
+// Days of usage kept; older entries are dropped when usage is recorded
+const RETENTION_DAYS = 400;
+
+// Label for usage from the chat view, which has no workflow
+const CHAT_VIEW_LABEL = 'Chat view';
+
+/**
+ * Persistent usage store, aggregated per day, provider, model and workflow
+ * and stored as JSON in the plugin's data folder.
+ */
+class UsageTracker {
+    private entries: UsageEntry[] = [];
+    private listeners: UsageListener[] = [];
+    private adapter: DataAdapter | null = null;
+    private filePath = '';
+    // Chains writes so concurrent requests can't interleave them
+    private pendingWrite: Promise<void> = Promise.resolve();
+
+    /**
+     * Load the usage file. Must be called before usage is recorded.
+     *
+     * @param adapter - Vault adapter used to read and write the file
+     * @param filePath - Vault-relative path of the usage file
+     */
+    async load(adapter: DataAdapter, filePath: string): Promise<void> {
+        this.adapter = adapter;
+        this.filePath = filePath;
+
+        try {
+            if (await adapter.exists(filePath)) {
+                const parsed: unknown = JSON.parse(await adapter.read(filePath));
+                this.entries = Array.isArray(parsed) ? parsed as UsageEntry[] : [];
+            }
+        } catch (error) {
+            logWarn(LogCategory.PLUGIN, 'Failed to load usage data; starting with empty usage', error);
+            this.entries = [];
+        }
+
+        this.notifyListeners();
+    }
+
+    /**
+     * Record the usage of one provider request and save it.
+     * The cost is estimated from the model's price table in settings.
+     *
+     * @returns The request's usage with its estimated cost
+     */
+    record(settings: AIToolboxSettings, source: UsageSource, measured: MeasuredUsage): UsageTotals {
+        const provider = settings.providers.find(p => p.id === source.providerId);
+        const model = provider?.models.find(m => m.id === source.modelId);
+        const usage = priceUsage(measured, model?.pricing);
+
+        const day = formatLocalDay();
+        let entry = this.entries.find(e =>
+            e.day === day &&
+            e.providerId === source.providerId &&
+            e.modelId === source.modelId &&
+            e.workflowId === source.workflowId
+        );
+        if (!entry) {
+            entry = { day, ...source, providerName: source.providerId, modelName: source.modelId, ...emptyUsage() };
+            this.entries.push(entry);
+        }
+
+        // Keep the latest names so renamed providers and workflows show their current name
+        entry.providerName = provider?.name ?? entry.providerName;
+        entry.modelName = model?.name ?? entry.modelName;
+        entry.workflowName = source.workflowName ?? entry.workflowName;
+        addUsage(entry, usage);
+
+        logDebug(LogCategory.PROVIDER, `Recorded usage for ${entry.providerName} - ${entry.modelName}`, usage);
+
+        this.pruneOldEntries();
+        this.notifyListeners();
+        void this.save();
+        return usage;
+    }
+
+    /**
+     * Sum the usage of entries matching a filter.
+     */
+    getTotals(filter: (entry: UsageEntry) => boolean = () => true): UsageTotals {
+        return this.entries.filter(filter).reduce((totals, entry) => addUsage(totals, entry), emptyUsage());
+    }
+
+    /**
+     * Summarize usage grouped by provider, model, workflow or day.
+     * Days are listed newest first; other groups by highest cost, then most tokens.
+     *
+     * @param grouping - Dimension to group by
+     * @param sinceDay - Only include entries on or after this day (YYYY-MM-DD)
+     */
+    summarize(grouping: UsageGrouping, sinceDay?: string): UsageSummaryRow[] {
+        const rows = new Map<string, UsageSummaryRow>();
+
+        for (const entry of this.entries) {
+            if (sinceDay && entry.day < sinceDay) {
+                continue;
+            }
+
+            const { key, label } = this.getGroup(entry, grouping);
+            let row = rows.get(key);
+            if (!row) {
+                row = { key, label, ...emptyUsage() };
+                rows.set(key, row);
+            }
+            addUsage(row, entry);
+        }
+
+        const sorted = [...rows.values()];
+        if (grouping === 'day') {
+            return sorted.sort((a, b) => b.key.localeCompare(a.key));
+        }
+        return sorted.sort((a, b) =>
+            (b.cost - a.cost) || ((b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens))
+        );
+    }
+
+    /**
+     * Remove all recorded usage.
+     */
+    async clear(): Promise<void> {
+        this.entries = [];
+        this.notifyListeners();
+        await this.save();
+    }
+
+    /**
+     * Subscribe to usage updates. Returns an unsubscribe function.
+     */
+    subscribe(callback: UsageListener): UsageUnsubscribe {
+        this.listeners.push(callback);
+        callback([...this.entries]); // Initial call with current entries
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== callback);
+        };
+    }
+
+    private getGroup(entry: UsageEntry, grouping: UsageGrouping): { key: string; label: string } {
+        switch (grouping) {
+            case 'provider':
+                return { key: entry.providerId, label: entry.providerName };
+            case 'model':
+                return { key: `${entry.providerId}:${entry.modelId}`, label: `${entry.providerName} - ${entry.modelName}` };
+            case 'workflow':
+                return entry.workflowId
+                    ? { key: entry.workflowId, label: entry.workflowName ?? entry.workflowId }
+                    : { key: '', label: CHAT_VIEW_LABEL };
+            case 'day':
+                return { key: entry.day, label: entry.day };
+            default: {
+                const exhaustiveCheck: never = grouping;
+                throw new Error(`Unknown usage grouping: ${exhaustiveCheck as string}`);
+            }
+        }
+    }
+
+    private pruneOldEntries(): void {
+        const cutoff = new Date();
+        cutoff.setDate(cutoff.getDate() - RETENTION_DAYS);
+        const cutoffDay = formatLocalDay(cutoff);
+        this.entries = this.entries.filter(e => e.day >= cutoffDay);
+    }
+
+    private notifyListeners(): void {
+        const entriesCopy = [...this.entries];
+        this.listeners.forEach(cb => cb(entriesCopy));
+    }
+
+    private save(): Promise<void> {
+        const adapter = this.adapter;
+        if (!adapter) {
+            return Promise.resolve();
+        }
+
+        this.pendingWrite = this.pendingWrite.then(async () => {
+            try {
+                await adapter.write(this.filePath, JSON.stringify(this.entries));
+            } catch (error) {
+                logError(LogCategory.PLUGIN, 'Failed to save usage data', error);
+            }
+        });
+        return this.pendingWrite;
+    }
+}
+
+/** Singleton usage tracker instance */
+export const usageTracker = new UsageTracker();
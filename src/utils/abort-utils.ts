@@ -0,0 +1,62 @@
+/**
+ * Error thrown when an operation stops because its AbortSignal was triggered.
+ */
+export class CancelledError extends Error {
+	constructor(message = 'Cancelled') {
+		super(message);
+		this.name = 'CancelledError';
+	}
+}
+
+/**
+ * Check whether an error was caused by cancellation.
+ */
+export function isCancelledError(error: unknown): boolean {
+	return error instanceof CancelledError;
+}
+
+/**
+ * Throw a CancelledError if the signal has been aborted.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new CancelledError();
+	}
+}
+
+/**
+ * Settle with the promise's result, or reject with a CancelledError as soon as
+ * the signal aborts. Used for requests that can't be aborted themselves
+ * (e.g., requestUrl); their result is ignored after cancellation.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		return Promise.reject(new CancelledError());
+	}
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(new CancelledError());
+		signal.addEventListener('abort', onAbort, { once: true });
+
+		promise.then(
+			(value) => {
+				signal.removeEventListener('abort', onAbort);
+				resolve(value);
+			},
+			(error: unknown) => {
+				signal.removeEventListener('abort', onAbort);
+				reject(error instanceof Error ? error : new Error(String(error)));
+			}
+		);
+	});
+}
+
+/**
+ * Wait for the given time, rejecting early with a CancelledError if the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return raceWithSignal(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+}
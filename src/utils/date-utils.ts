@@ -8,3 +8,16 @@ export function generateFilenameTimestamp(): string {
 	return new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
 }
 
+
+/**
+ * Formats a date as a local calendar day.
+ * Format: YYYY-MM-DD (in the local time zone, unlike toISOString)
+ *
+ * @param date - The date to format (defaults to now)
+ * @returns Formatted day string, which sorts chronologically
+ */
+export function formatLocalDay(date: Date = new Date()): string {
+	const month = String(date.getMonth() + 1).padStart(2, '0');
+	const day = String(date.getDate()).padStart(2, '0');
+	return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,43 @@
+import { parseYaml } from 'obsidian';
+
+// Matches a frontmatter block at the start of a note, capturing its YAML
+export const FRONTMATTER_PATTERN = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Text split into its frontmatter properties and the rest of the note
+ */
+export interface SplitFrontmatter {
+	/** Parsed frontmatter properties, or null when the text has no valid frontmatter */
+	properties: Record<string, unknown> | null;
+	/** The text after the frontmatter block (the whole text when there is none) */
+	body: string;
+}
+
+/**
+ * Split a frontmatter block off the start of a text, for outputs that insert
+ * into an existing note where a second frontmatter block would show as body text.
+ * Frontmatter that isn't a valid YAML mapping is left in the body.
+ *
+ * @param text - Text that may start with a frontmatter block
+ */
+export function splitFrontmatter(text: string): SplitFrontmatter {
+	const match = FRONTMATTER_PATTERN.exec(text);
+	if (!match) {
+		return { properties: null, body: text };
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = parseYaml(match[1] ?? '');
+	} catch {
+		return { properties: null, body: text };
+	}
+	if (parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) {
+		return { properties: null, body: text };
+	}
+
+	return {
+		properties: (parsed ?? {}) as Record<string, unknown>,
+		body: text.substring(match[0].length)
+	};
+}
@@ -0,0 +1,146 @@
+/**
+ * One step of a parsed JSON path
+ */
+type JsonPathSegment =
+	| { type: 'key'; key: string }
+	| { type: 'index'; index: number }
+	| { type: 'wildcard' };
+
+/**
+ * Parse a JSONPath (`$.items[0].title`) or dot-path (`items[0].title`) expression.
+ * Supports `.key`, `['key']`, `[index]` (negative counts from the end) and `*` / `[*]` wildcards.
+ *
+ * @throws Error describing the first invalid part of the path
+ */
+function parseJsonPath(path: string): JsonPathSegment[] {
+	const segments: JsonPathSegment[] = [];
+	let text = path.trim();
+	if (text.startsWith('$')) {
+		text = text.substring(1);
+	}
+
+	let i = 0;
+	const readKey = (): string => {
+		const start = i;
+		while (i < text.length && text[i] !== '.' && text[i] !== '[') {
+			i++;
+		}
+		return text.substring(start, i);
+	};
+
+	while (i < text.length) {
+		const char = text[i];
+
+		if (char === '[') {
+			const closeIndex = text.indexOf(']', i);
+			if (closeIndex === -1) {
+				throw new Error(`missing "]" after position ${i}`);
+			}
+			const inner = text.substring(i + 1, closeIndex).trim();
+			const quote = inner[0];
+
+			if (inner === '*') {
+				segments.push({ type: 'wildcard' });
+			} else if ((quote === '"' || quote === "'") && inner.length >= 2 && inner.endsWith(quote)) {
+				segments.push({ type: 'key', key: inner.slice(1, -1) });
+			} else if (/^-?\d+$/.test(inner)) {
+				segments.push({ type: 'index', index: parseInt(inner, 10) });
+			} else {
+				throw new Error(`"[${inner}]" is not an index, quoted key or [*]`);
+			}
+			i = closeIndex + 1;
+			continue;
+		}
+
+		if (char === '.') {
+			i++;
+		} else if (segments.length > 0) {
+			throw new Error(`unexpected "${char}" at position ${i}`);
+		}
+
+		const key = readKey();
+		if (!key) {
+			throw new Error(`empty key at position ${i}`);
+		}
+		segments.push(key === '*' ? { type: 'wildcard' } : { type: 'key', key });
+	}
+
+	return segments;
+}
+
+/**
+ * Apply one path segment to a value, returning the matched values.
+ */
+function applySegment(value: unknown, segment: JsonPathSegment): unknown[] {
+	if (segment.type === 'wildcard') {
+		if (Array.isArray(value)) {
+			return value as unknown[];
+		}
+		return value !== null && typeof value === 'object' ? Object.values(value) : [];
+	}
+
+	if (segment.type === 'index') {
+		if (!Array.isArray(value)) {
+			return [];
+		}
+		const index = segment.index < 0 ? value.length + segment.index : segment.index;
+		return index >= 0 && index < value.length ? [value[index]] : [];
+	}
+
+	if (value !== null && typeof value === 'object' && !Array.isArray(value) && segment.key in value) {
+		return [(value as Record<string, unknown>)[segment.key]];
+	}
+	return [];
+}
+
+/**
+ * Evaluate a JSONPath or dot-path expression against parsed JSON.
+ * Paths with a wildcard return an array of all matches.
+ *
+ * @returns The matched value, or undefined when nothing matches
+ * @throws Error if the path is malformed
+ */
+export function evaluateJsonPath(data: unknown, path: string): unknown {
+	let segments: JsonPathSegment[];
+	try {
+		segments = parseJsonPath(path);
+	} catch (error) {
+		const reason = error instanceof Error ? error.message : String(error);
+		throw new Error(`Invalid path "${path}": ${reason}`);
+	}
+
+	let values: unknown[] = [data];
+	for (const segment of segments) {
+		values = values.flatMap(value => applySegment(value, segment));
+	}
+
+	if (segments.some(segment => segment.type === 'wildcard')) {
+		return values;
+	}
+	return values[0];
+}
+
+/**
+ * Parse JSON text, accepting a response wrapped in a markdown code fence
+ * (as chat models often return JSON).
+ *
+ * @throws Error with the parser's message if the text is not valid JSON
+ */
+export function parseJsonText(text: string): unknown {
+	const fenced = /^```(?:json)?\s*\n([\s\S]*?)\n?```$/i.exec(text.trim());
+	return JSON.parse(fenced?.[1] ?? text) as unknown;
+}
+
+/**
+ * Convert an extracted JSON value to token text.
+ * Strings are used as-is; other values are formatted as JSON.
+ */
+export function formatJsonValue(value: unknown): string {
+	if (value === undefined || value === null) {
+		return '';
+	}
+	if (typeof value === 'string') {
+		return value;
+	}
+	return JSON.stringify(value, null, 2);
+}
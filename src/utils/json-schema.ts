@@ -0,0 +1,126 @@
+/**
+ * A JSON schema, as parsed from the user's schema text
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Parse JSON schema text.
+ *
+ * @throws Error if the text is not valid JSON or not an object
+ */
+export function parseJsonSchema(text: string): JsonSchema {
+	const parsed: unknown = JSON.parse(text);
+	if (!isPlainObject(parsed)) {
+		throw new Error('schema must be a JSON object');
+	}
+	return parsed;
+}
+
+/**
+ * Get the top-level property names declared by schema text.
+ * Returns an empty list when the text is empty or not a valid schema.
+ */
+export function getSchemaPropertyNames(text: string | undefined): string[] {
+	if (!text?.trim()) {
+		return [];
+	}
+	try {
+		const properties = parseJsonSchema(text).properties;
+		return isPlainObject(properties) ? Object.keys(properties) : [];
+	} catch {
+		return [];
+	}
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Get the JSON schema type name of a value
+ */
+function getJsonType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = getJsonType(value);
+	return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Validate a value against a schema, collecting errors with their JSON path.
+ * Supports the keywords structured output schemas commonly use:
+ * type, enum, const, properties, required, additionalProperties, items and anyOf.
+ */
+function collectErrors(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+	const { type } = schema;
+	if (typeof type === 'string' || Array.isArray(type)) {
+		const types = (Array.isArray(type) ? type : [type]).filter((t): t is string => typeof t === 'string');
+		if (!types.some(t => matchesType(value, t))) {
+			errors.push(`${path}: expected ${types.join(' or ')}, got ${getJsonType(value)}`);
+			return;
+		}
+	}
+
+	if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+	}
+
+	if ('const' in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+		errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+	}
+
+	if (Array.isArray(schema.anyOf)) {
+		const matchesAny = schema.anyOf.some(option => {
+			const optionErrors: string[] = [];
+			if (isPlainObject(option)) {
+				collectErrors(value, option, path, optionErrors);
+			}
+			return optionErrors.length === 0;
+		});
+		if (!matchesAny) {
+			errors.push(`${path}: does not match any of the allowed schemas`);
+		}
+	}
+
+	if (isPlainObject(value)) {
+		const properties = isPlainObject(schema.properties) ? schema.properties : {};
+
+		if (Array.isArray(schema.required)) {
+			for (const name of schema.required) {
+				if (typeof name === 'string' && !(name in value)) {
+					errors.push(`${path}: missing required property "${name}"`);
+				}
+			}
+		}
+
+		for (const [name, propertyValue] of Object.entries(value)) {
+			const propertySchema = properties[name];
+			if (isPlainObject(propertySchema)) {
+				collectErrors(propertyValue, propertySchema, `${path}.${name}`, errors);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}: unexpected property "${name}"`);
+			}
+		}
+	}
+
+	if (Array.isArray(value) && isPlainObject(schema.items)) {
+		const itemSchema = schema.items;
+		value.forEach((item, index) => collectErrors(item, itemSchema, `${path}[${index}]`, errors));
+	}
+}
+
+/**
+ * Validate a parsed JSON value against a schema.
+ *
+ * @returns Readable validation errors, empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+	const errors: string[] = [];
+	collectErrors(value, schema, '$', errors);
+	return errors;
+}